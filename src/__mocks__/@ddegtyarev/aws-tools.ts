@@ -0,0 +1,9 @@
+/**
+ * Test stand-in for @ddegtyarev/aws-tools, resolved through the jest moduleNameMapper.
+ * Tests that need tools or results replace it with jest.unstable_mockModule.
+ */
+export const tools: unknown[] = [];
+
+export async function invoke(toolName: string): Promise<unknown> {
+  throw new Error(`aws-tools is not available in tests, mock ${toolName} with jest.unstable_mockModule`);
+}
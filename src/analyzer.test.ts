@@ -0,0 +1,241 @@
+import { jest, describe, it, expect, beforeAll, beforeEach, afterAll } from '@jest/globals';
+import fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import type { ReportConfig } from './types.js';
+
+const costData = {
+  summary: 'Cost per service per region',
+  datapoints: [{ period: '2026-09-01', dimensions: { 'AWS Lambda, us-east-1': 120, 'Amazon Simple Storage Service, us-west-2': 30 } }]
+};
+const usageData = {
+  summary: 'Lambda usage',
+  datapoints: [1, 2, 3].map(day => ({ timestamp: `2026-09-0${day}`, dimensions: { 'USE1-Lambda-GB-Second': day * 10, 'USE1-Request': 1 } }))
+};
+
+const invoke = jest.fn(async (toolName: string) => toolName === 'awsCostPerServicePerRegion' ? costData : usageData);
+
+jest.unstable_mockModule('@ddegtyarev/aws-tools', () => ({
+  invoke,
+  tools: [{
+    name: 'awsGetCostAndUsage',
+    description: 'Cost and usage of a service',
+    inputSchema: { type: 'object', properties: { lookBack: { type: 'number' }, groupBy: { type: 'array' } } }
+  }]
+}));
+
+const { analyze, analyzeAccounts, generateReportFromExisting } = await import('./analyzer.js');
+const { DEFAULT_RETRY_OPTIONS } = await import('./retry.js');
+const { createManifest, readManifest, writeManifest } = await import('./manifest.js');
+const { loadModelCredentials } = await import('./config.js');
+
+const credentials = { accessKeyId: '', secretAccessKey: '', region: 'us-east-1' };
+
+describe('analyze with recorded invocations', () => {
+  let outputDir: string;
+  let reportConfig: ReportConfig;
+
+  beforeAll(async () => {
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'analyze-'));
+    const scriptPath = path.join(outputDir, 'mock-script.json');
+    await fs.writeJson(scriptPath, [
+      { toolCalls: [{ toolName: 'awsGetCostAndUsage', args: { lookBack: 3 } }] },
+      '# Lambda analysis\n\nGB-seconds doubled over three days.'
+    ]);
+
+    reportConfig = {
+      outputPath: path.join(outputDir, 'report.md'),
+      includeCharts: false,
+      topN: 1,
+      model: { provider: 'mock', scriptPath },
+      retry: { ...DEFAULT_RETRY_OPTIONS, maxAttempts: 1 }
+    };
+
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    await analyze({ ...reportConfig, record: true }, outputDir, credentials, 'recorded');
+  });
+
+  beforeEach(() => {
+    invoke.mockClear();
+    invoke.mockImplementation(async () => {
+      throw new Error('AWS must not be called during a replay');
+    });
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(outputDir);
+  });
+
+  it('reproduces the recorded analysis without calling AWS', async () => {
+    const results = await analyze({ ...reportConfig, replayExecutionId: 'recorded' }, outputDir, credentials, 'replayed');
+
+    expect(invoke).not.toHaveBeenCalled();
+    expect(results).toHaveLength(1);
+
+    const [recordedReport, replayedReport] = await Promise.all(['recorded', 'replayed'].map(executionId =>
+      fs.readFile(path.join(outputDir, executionId, 'AWS_Lambda-us-east-1-analysis.md'), 'utf8')
+    ));
+    expect(replayedReport).toBe(recordedReport);
+    expect(replayedReport).toContain('GB-seconds doubled');
+  });
+
+  it('fails when no recording matches the params', async () => {
+    const config: ReportConfig = { ...reportConfig, replayExecutionId: 'recorded', costWindow: { granularity: 'DAILY' } };
+
+    await expect(analyze(config, outputDir, credentials, 'missed')).rejects.toThrow(/No recorded result for awsCostPerServicePerRegion/);
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it('serves the latest recording of the tool with the replay fallback', async () => {
+    const config: ReportConfig = { ...reportConfig, replayExecutionId: 'recorded', replayFallback: true, costWindow: { granularity: 'DAILY' } };
+
+    const results = await analyze(config, outputDir, credentials, 'fallback');
+
+    expect(invoke).not.toHaveBeenCalled();
+    expect(results).toHaveLength(1);
+  });
+});
+
+describe('analyze with spend limits', () => {
+  let outputDir: string;
+  let scriptPath: string;
+
+  beforeAll(async () => {
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'analyze-limits-'));
+    scriptPath = path.join(outputDir, 'mock-script.json');
+    await fs.writeJson(scriptPath, [
+      { toolCalls: [{ toolName: 'awsGetCostAndUsage', args: { lookBack: 3 } }] },
+      '# Lambda analysis\n\nNo data.'
+    ]);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    invoke.mockImplementation(async (toolName: string) => toolName === 'awsCostPerServicePerRegion' ? costData : usageData);
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(outputDir);
+  });
+
+  it('leaves a step that hits the API call limit pending', async () => {
+    const config: ReportConfig = {
+      outputPath: path.join(outputDir, 'report.md'),
+      includeCharts: false,
+      topN: 1,
+      model: { provider: 'mock', scriptPath },
+      retry: { ...DEFAULT_RETRY_OPTIONS, maxAttempts: 1 },
+      spendLimits: { maxApiCalls: 1 }
+    };
+
+    await analyze(config, outputDir, credentials, 'limited');
+
+    const manifest = await readManifest(path.join(outputDir, 'limited'));
+    expect(invoke).toHaveBeenCalledTimes(1);
+    expect(manifest?.status).toBe('stopped');
+    expect(manifest?.steps).toHaveLength(1);
+    expect(manifest?.steps[0]).toMatchObject({ status: 'pending', attempts: 1 });
+    expect(manifest?.steps[0].reportPath).toBeUndefined();
+    expect(manifest?.steps[0].completedAt).toBeUndefined();
+  });
+});
+
+describe('analyzeAccounts', () => {
+  let outputDir: string;
+
+  beforeAll(async () => {
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'analyze-accounts-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    invoke.mockImplementation(async (toolName: string) => toolName === 'awsCostPerServicePerRegion' ? costData : usageData);
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(outputDir);
+  });
+
+  it('writes a top-level manifest listing the accounts', async () => {
+    const scriptPath = path.join(outputDir, 'mock-script.json');
+    await fs.writeJson(scriptPath, ['# Lambda analysis\n\nNo tools needed.']);
+    const config: ReportConfig = {
+      outputPath: path.join(outputDir, 'report.md'),
+      includeCharts: false,
+      topN: 1,
+      model: { provider: 'mock', scriptPath },
+      retry: { ...DEFAULT_RETRY_OPTIONS, maxAttempts: 1 }
+    };
+
+    await analyzeAccounts(config, outputDir, [{ name: 'production', credentials }, { name: 'staging', credentials }], 'organisation');
+
+    expect(await readManifest(path.join(outputDir, 'organisation'))).toMatchObject({
+      executionId: 'organisation',
+      status: 'completed',
+      accounts: ['production', 'staging'],
+      reportPath: 'report.md',
+      steps: []
+    });
+    expect((await readManifest(path.join(outputDir, 'organisation', 'accounts', 'staging')))?.steps).toHaveLength(1);
+  });
+});
+
+describe('generateReportFromExisting', () => {
+  let outputDir: string;
+  let scriptPath: string;
+
+  beforeAll(async () => {
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'generate-report-'));
+    scriptPath = path.join(outputDir, 'mock-script.json');
+    await fs.writeJson(scriptPath, ['# Compiled report\n\nLambda dominates the spend.']);
+    await fs.outputFile(path.join(outputDir, 'existing', 'AWS_Lambda-us-east-1-analysis.md'), '# Lambda analysis\n\nGB-seconds doubled.');
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(outputDir);
+  });
+
+  it('compiles the report with the mock provider and no AWS credentials', async () => {
+    const missingCredentials = path.join(outputDir, 'missing-creds.json');
+    const modelConfig = { provider: 'mock' as const, scriptPath };
+
+    const credentials = await loadModelCredentials(modelConfig, missingCredentials);
+    const reportPath = await generateReportFromExisting('existing', outputDir, credentials, modelConfig);
+
+    expect(credentials).toBeUndefined();
+    expect(await fs.readFile(reportPath, 'utf8')).toContain('Lambda dominates the spend.');
+    await expect(loadModelCredentials({ provider: 'bedrock' }, missingCredentials)).rejects.toThrow(/Credentials file not found/);
+  });
+
+  it('compiles the organisation report from the analyses of every account', async () => {
+    const executionPath = path.join(outputDir, 'organisation');
+    const manifest = createManifest('organisation', { outputPath: 'report.md', includeCharts: false, topN: 1 });
+    await writeManifest(executionPath, { ...manifest, status: 'completed', accounts: ['production', 'staging'] });
+    for (const [account, cost] of [['production', 900], ['staging', 100]] as const) {
+      const accountPath = path.join(executionPath, 'accounts', account);
+      await writeManifest(accountPath, {
+        ...createManifest(account, { outputPath: 'report.md', includeCharts: false, topN: 1 }),
+        status: 'completed',
+        serviceRegionCombos: [{ service: 'AWS Lambda', region: 'us-east-1', cost, currency: 'USD', period: '2026-09-01' }]
+      });
+      await fs.outputFile(path.join(accountPath, 'AWS_Lambda-us-east-1-analysis.md'), `# Lambda in ${account}\n\nGB-seconds doubled.`);
+    }
+    // A tool call the report compilation has no tool for fails it, so the report falls back to the per-account layout
+    const failingScript = path.join(outputDir, 'failing-script.json');
+    await fs.writeJson(failingScript, [{ toolCalls: [{ toolName: 'awsUnknown' }] }]);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const reportPath = await generateReportFromExisting('organisation', outputDir, undefined, { provider: 'mock', scriptPath: failingScript });
+
+    const report = await fs.readFile(reportPath, 'utf8');
+    expect(report).toContain('## Account: production');
+    expect(report).toContain('[Lambda in staging](./accounts/staging/AWS_Lambda-us-east-1-analysis.md)');
+    expect(report).toContain('| 1 | production | AWS Lambda | us-east-1 | $900.00 | 90.0% |');
+  });
+});
@@ -1,13 +1,38 @@
 import * as path from 'path';
 import fs from 'fs-extra';
 import { ulid } from 'ulid';
-import { getTopServiceRegionCombos } from './aws-service.js';
-import { createModel, planAnalysis, analyzeWithTools } from './llm.js';
-import { AnalysisResult, ReportConfig, AnalysisStep, PlanningRequest, AWSCredentials } from './types.js';
+import { getTopServiceRegionCombos, describeCostChange } from './aws-service.js';
+import {
+  createModel, planAnalysis, analyzeWithTools, extractFindings, DEFAULT_GENERATION_SETTINGS, DEFAULT_TEMPERATURE
+} from './llm.js';
+import {
+  AnalysisResult, ReportConfig, AnalysisStep, PlanningRequest, AWSCredentials, InvocationOptions, ModelConfig,
+  ServiceRegionCombo, AccountTarget, AccountAnalysis, RecommendationReport, ManifestStep, PlanningResponse, PlanFile,
+  SpendTracker, SpendScope, StepFindings, ChartFallback, GuardrailViolation, ToolCache, GenerationSettings, PromptSet,
+  ServicePlaybook
+} from './types.js';
 import chalk from 'chalk';
-import ora from 'ora';
+import { Ora } from 'ora';
+import { LanguageModelV1 } from 'ai';
 import { tools } from '@ddegtyarev/aws-tools';
 import { createTools } from './tools.js';
+import { resolveRecordingConfig } from './invocation.js';
+import { ACCOUNTS_DIR, writeStepFindings, readStepFindings } from './report-generator.js';
+import { writeAnomalyReport, formatAnomaliesSection } from './anomalies.js';
+import {
+  loadRules, evaluateRules, mergeRecommendationReports, writeRecommendations, readRecommendations,
+  formatRecommendationsSection
+} from './rules.js';
+import { createManifest, createManifestWriter, readManifest, writeManifest, finishManifest } from './manifest.js';
+import { PLAN_FILE_VERSION } from './plan.js';
+import { createSpendTracker, resolveModelPricing, writeSpendSummary, formatSpendSection } from './spend.js';
+import { isToolAllowed, formatGuardrailsSection } from './guardrails.js';
+import { createToolCache, formatCacheStats } from './cache.js';
+import { createTracer, instrumentModel } from './trace.js';
+import { createSpinner } from './output.js';
+import { SDK_MAX_RETRIES } from './retry.js';
+import { renderPrompt } from './prompts.js';
+import { getPlaybook, loadPlaybooks, planWithPlaybooks, orderStepsByCombos, formatPlaybookForPrompt } from './playbooks.js';
 
 /**
  * Validate that all requested tools exist
@@ -28,9 +53,10 @@ export function validateTools(requestedTools: string[]): void {
 export async function executeAnalysisStep(
   step: AnalysisStep, 
   outputDir: string, 
-  model: any, 
+  model: LanguageModelV1,
   credentials: AWSCredentials,
-  executionId: string
+  executionId: string,
+  invocationOptions: InvocationOptions = {}
 ): Promise<AnalysisResult> {
   // Validate that all requested tools exist
   validateTools(step.useTools);
@@ -44,6 +70,11 @@ export async function executeAnalysisStep(
     sessionToken: credentials.sessionToken
   };
   
+  // Charts that cannot be rendered are replaced by data tables appended to the analysis,
+  // and guardrail violations are listed after them
+  const chartFallbacks: ChartFallback[] = [];
+  const guardrailViolations: GuardrailViolation[] = [];
+  const playbook = step.playbook ? getPlaybook(step.playbook, invocationOptions.playbooks) : undefined;
   const toolSet = createTools(
     step.useTools,
     toolCredentials,
@@ -51,13 +82,402 @@ export async function executeAnalysisStep(
     outputDir,
     model,
     executionId,
-    step.service
+    step.service,
+    { ...invocationOptions, chartFallbacks, guardrailViolations, toolPresets: playbook?.toolPresets }
   );
   
+  // Track the step's token usage when spend is accounted, and trace its LLM calls
+  const stepModel = instrumentModel(model, invocationOptions, { ...invocationOptions.spendScope, phase: 'analysis' });
+
   // Invoke LLM with Tools - tools will handle their own execution and return structured results
-  const llmResponse = await analyzeWithTools(step.service, step.region, step.title, toolSet, model);
+  const llmResponse = await analyzeWithTools(
+    step.service,
+    step.region,
+    step.title,
+    toolSet,
+    stepModel,
+    invocationOptions.generation,
+    invocationOptions.prompts,
+    playbook && formatPlaybookForPrompt(playbook, step.useTools)
+  );
   
-  return llmResponse;
+  const sections = [llmResponse.trimEnd()];
+  if (chartFallbacks.length > 0) {
+    sections.push(formatDataTablesSection(chartFallbacks, path.join(outputDir, executionId)));
+  }
+  if (guardrailViolations.length > 0) {
+    sections.push(formatGuardrailsSection(guardrailViolations));
+  }
+  return sections.length > 1 ? sections.join('\n\n') : llmResponse;
+}
+
+/**
+ * Render the data tables of charts that could not be rendered as a step report section
+ */
+function formatDataTablesSection(fallbacks: ChartFallback[], reportDir: string): string {
+  const tables = fallbacks.map(fallback => {
+    const link = (filePath: string) => `[${path.basename(filePath)}](./${path.relative(reportDir, filePath)})`;
+    return `### ${fallback.toolName}
+
+Chart not rendered: ${fallback.problems.join('; ')}
+
+${fallback.table}
+
+Data: ${[fallback.datapointsPath, fallback.tablePath].filter((filePath): filePath is string => Boolean(filePath)).map(link).join(', ')}`;
+  });
+
+  return `## Data Tables
+
+The following charts could not be rendered, so the underlying tool data is shown instead.
+
+${tables.join('\n\n')}
+`;
+}
+
+/** Version of the findings JSON format */
+const FINDINGS_VERSION = 1;
+
+/**
+ * Save the typed findings of a step next to its report. Findings of a completed step are
+ * extracted from its markdown analysis; if extraction fails they are saved empty with the error.
+ */
+export async function generateStepFindings(
+  step: AnalysisStep,
+  analysisResult: AnalysisResult,
+  model: LanguageModelV1,
+  outputDir: string,
+  executionId: string,
+  serviceRegion: string,
+  stepError?: string,
+  options: Pick<InvocationOptions, 'prompts' | 'generation'> = {}
+): Promise<StepFindings> {
+  const findings: StepFindings = {
+    version: FINDINGS_VERSION,
+    step,
+    status: stepError ? 'failed' : 'completed',
+    generatedAt: new Date().toISOString(),
+    analysis: '',
+    keyMetrics: [],
+    insights: [],
+    recommendations: [],
+    error: stepError
+  };
+
+  if (!stepError) {
+    try {
+      Object.assign(findings, await extractFindings(step, analysisResult, model, options.prompts, options.generation));
+    } catch (error) {
+      findings.error = error instanceof Error ? error.message : String(error);
+      console.warn(chalk.yellow(`⚠️  ${findings.error}`));
+    }
+  }
+
+  await writeStepFindings(findings, outputDir, executionId, serviceRegion);
+  return findings;
+}
+
+/**
+ * Fetch the top service-region combinations, plan the analysis and execute each step.
+ * Progress is tracked in the execution manifest; when resuming, the saved combinations
+ * and plan are reused and only steps that did not complete are executed.
+ */
+async function runAnalysisSteps(
+  reportConfig: ReportConfig,
+  outputDir: string,
+  credentials: AWSCredentials,
+  executionId: string,
+  model: LanguageModelV1,
+  invocationOptions: InvocationOptions,
+  spinner: Ora
+): Promise<{ serviceRegionCombos: ServiceRegionCombo[]; results: [string, AnalysisResult][] }> {
+  if (invocationOptions.recording) {
+    console.log(chalk.blue(`\n📼 Tool invocations ${invocationOptions.recording.mode === 'replay' ? 'replayed from' : 'recorded to'}: ${invocationOptions.recording.directory}`));
+  }
+
+  const executionPath = path.join(outputDir, executionId);
+  const { spend, trace } = invocationOptions;
+  const account = invocationOptions.spendScope?.account;
+  const existingManifest = reportConfig.resume ? await readManifest(executionPath) : undefined;
+  const manifest = existingManifest || createManifest(executionId, reportConfig);
+  const saveManifest = createManifestWriter(executionPath, manifest);
+  if (existingManifest) {
+    const completedSteps = manifest.steps.filter(entry => entry.status === 'completed').length;
+    console.log(chalk.blue(`\n⏯️  Resuming execution ${executionId}: ${completedSteps}/${manifest.steps.length} steps completed`));
+    manifest.status = 'running';
+    manifest.error = undefined;
+  }
+  await saveManifest();
+
+  // Step 1 & 2: Get top service-region combinations ordered by cost
+  let serviceRegionCombos: ServiceRegionCombo[];
+  if (manifest.serviceRegionCombos) {
+    serviceRegionCombos = manifest.serviceRegionCombos;
+  } else if (reportConfig.plan?.serviceRegionCombos) {
+    serviceRegionCombos = reportConfig.plan.serviceRegionCombos;
+    manifest.serviceRegionCombos = serviceRegionCombos;
+    await saveManifest();
+  } else {
+    spinner.text = 'Fetching top service-region combinations...';
+    serviceRegionCombos = await getTopServiceRegionCombos(
+      reportConfig.topN, credentials, { ...invocationOptions, spendScope: { account, phase: 'cost-data' } }, reportConfig.costWindow
+    );
+    manifest.serviceRegionCombos = serviceRegionCombos;
+    await saveManifest();
+  }
+  
+  if (serviceRegionCombos.length === 0) {
+    spinner.fail('No cost data found');
+    return { serviceRegionCombos, results: [] };
+  }
+
+  const combosLoaded = existingManifest?.serviceRegionCombos || reportConfig.plan?.serviceRegionCombos;
+  spinner.succeed(`${combosLoaded ? 'Loaded' : 'Found'} ${serviceRegionCombos.length} service-region combinations`);
+  const rankBy = manifest.config.costWindow?.rankBy || 'cost';
+  console.log(chalk.blue(`\nTop service-region combinations by ${rankBy === 'cost' ? 'cost' : 'cost growth'}:`));
+  serviceRegionCombos.forEach((combo, index) => {
+    console.log(chalk.gray(`${index + 1}. ${combo.service} (${combo.region}): $${combo.cost.toFixed(2)}${describeCostChange(combo)}`));
+  });
+
+  // Step 3: Planning Phase
+  if (manifest.plan) {
+    spinner.succeed(`Loaded analysis plan with ${manifest.plan.steps.length} steps`);
+  } else {
+    let plan: PlanningResponse;
+    if (reportConfig.plan) {
+      plan = { steps: reportConfig.plan.steps };
+      spinner.succeed(`Using plan file with ${plan.steps.length} steps`);
+    } else {
+      spinner.start('Planning analysis steps...');
+      plan = await planSteps(
+        serviceRegionCombos,
+        reportConfig,
+        instrumentModel(model, invocationOptions, { account, phase: 'planning' }),
+        invocationOptions.generation,
+        invocationOptions.prompts,
+        invocationOptions.playbooks
+      );
+      spinner.succeed(`Created analysis plan with ${plan.steps.length} steps`);
+    }
+    trace?.record({
+      type: 'plan',
+      account,
+      phase: 'planning',
+      status: reportConfig.plan ? 'plan file' : 'planned',
+      summary: plan.steps.map((step, index) =>
+        `${index + 1}. ${step.title} - ${step.service} (${step.region}): ${step.useTools.join(', ')}${step.playbook ? ` [playbook: ${step.playbook}]` : ''}`
+      ).join('\n')
+    });
+    manifest.plan = plan;
+    manifest.steps = plan.steps.map((step, index) => ({ index, step, status: 'pending', attempts: 0 }));
+    await saveManifest();
+  }
+
+  console.log(chalk.blue('\nPlanned analysis steps:'));
+  manifest.steps.forEach(({ step, status }, index) => {
+    console.log(chalk.gray(`${index + 1}. ${step.title} - ${step.service} (${step.region})${status === 'pending' ? '' : ` [${status}]`}`));
+  });
+
+  // Reuse the reports of steps completed by a previous run
+  const stepCount = manifest.steps.length;
+  const results: [string, AnalysisResult][] = new Array(stepCount);
+  const remainingSteps: ManifestStep[] = [];
+  for (const entry of manifest.steps) {
+    const reportPath = entry.reportPath && path.resolve(executionPath, entry.reportPath);
+    if (entry.status === 'completed' && reportPath && await fs.pathExists(reportPath)) {
+      results[entry.index] = [reportPath, await fs.readFile(reportPath, 'utf8')];
+    } else {
+      remainingSteps.push(entry);
+    }
+  }
+  if (remainingSteps.length < stepCount) {
+    console.log(chalk.gray(`\nSkipping ${stepCount - remainingSteps.length} completed steps`));
+  }
+
+  // Step 4: Analysis Phase - Execute the remaining steps, up to `concurrency` at a time
+  const concurrency = Math.max(1, reportConfig.concurrency || 1);
+  const running = new Set<number>();
+  let completed = stepCount - remainingSteps.length;
+
+  const progress = createSpinner();
+  const updateProgress = () => {
+    if (running.size === 1 && concurrency === 1) {
+      const index = [...running][0];
+      progress.text = `Executing step: ${manifest.steps[index].step.title} (${index + 1}/${stepCount})...`;
+    } else {
+      progress.text = `Executing ${running.size} steps in parallel (${completed}/${stepCount} completed)...`;
+    }
+    if (!progress.isSpinning) {
+      progress.start();
+    }
+  };
+
+  await runWithConcurrency(remainingSteps, concurrency, async (entry) => {
+    const { step, index: i } = entry;
+
+    // Leave the remaining steps pending once a spend limit is reached, so they can be resumed.
+    // The LLM calls of the steps still running count against the cost limit.
+    const limitReached = spend?.checkLimits();
+    if (limitReached) {
+      progress.stopAndPersist({ symbol: chalk.yellow('⏭'), text: `Skipped step: ${step.title} (${limitReached})` });
+      return;
+    }
+
+    running.add(i);
+    updateProgress();
+
+    entry.status = 'running';
+    entry.attempts++;
+    entry.startedAt = new Date().toISOString();
+    entry.completedAt = undefined;
+    entry.error = undefined;
+    await saveManifest();
+
+    const sanitizedService = step.service.replace(/\s+/g, '_');
+    const serviceRegion = `${sanitizedService}-${step.region}`;
+    const { generateStepReport } = await import('./report-generator.js');
+    const spendScope: SpendScope = { account, phase: 'analysis', step: `${i + 1}. ${step.title}` };
+    const stepStartedAt = Date.now();
+    trace?.record({ type: 'step-start', ...spendScope, params: step });
+
+    try {
+      const analysisResult = await executeAnalysisStep(step, outputDir, model, credentials, executionId, {
+        ...invocationOptions,
+        spendScope
+      });
+      
+      // Generate individual step report and its typed findings
+      const reportPath = await generateStepReport(analysisResult, outputDir, executionId, serviceRegion);
+      const findingsModel = instrumentModel(model, invocationOptions, spendScope);
+      await generateStepFindings(step, analysisResult, findingsModel, outputDir, executionId, serviceRegion, undefined, invocationOptions);
+      
+      // Create tuple of (report_path, markdown_content), kept in plan order
+      results[i] = [reportPath, analysisResult];
+      entry.status = 'completed';
+      entry.reportPath = path.relative(executionPath, reportPath);
+      progress.stopAndPersist({ symbol: chalk.green('✔'), text: `Completed step: ${step.title} (${i + 1}/${stepCount})` });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      // A step stopped by a spend limit did not run to the end, so it stays pending for --resume
+      const limitReached = spend?.limitReached();
+      if (limitReached && errorMessage.includes(limitReached)) {
+        progress.stopAndPersist({ symbol: chalk.yellow('⏭'), text: `Stopped step: ${step.title} (${limitReached})` });
+        entry.status = 'pending';
+        entry.reportPath = undefined;
+        return;
+      }
+      progress.stopAndPersist({ symbol: chalk.red('✖'), text: `Failed to execute step: ${step.title}: ${errorMessage}` });
+      // Continue with other steps
+      const failedAnalysis = `# Analysis Failed\n\nStep failed: ${errorMessage}`;
+      const reportPath = await generateStepReport(failedAnalysis, outputDir, executionId, serviceRegion);
+      await generateStepFindings(step, failedAnalysis, model, outputDir, executionId, serviceRegion, errorMessage);
+      results[i] = [reportPath, failedAnalysis];
+      entry.status = 'failed';
+      entry.error = errorMessage;
+      entry.reportPath = path.relative(executionPath, reportPath);
+    } finally {
+      entry.completedAt = entry.status === 'pending' ? undefined : new Date().toISOString();
+      trace?.record({ type: 'step-end', ...spendScope, status: entry.status, error: entry.error, durationMs: Date.now() - stepStartedAt });
+      await saveManifest();
+      running.delete(i);
+      completed++;
+      if (running.size > 0) {
+        updateProgress();
+      }
+    }
+  });
+
+  progress.stop();
+  // Steps skipped after a spend limit leave gaps
+  return { serviceRegionCombos, results: results.filter(Boolean) };
+}
+
+/**
+ * Plan the analysis steps: combinations of services with a playbook get its step, and only
+ * the others are planned by the LLM. Steps are ordered like the combinations.
+ */
+async function planSteps(
+  serviceRegionCombos: ServiceRegionCombo[],
+  reportConfig: ReportConfig,
+  model: LanguageModelV1,
+  generation?: GenerationSettings,
+  prompts?: PromptSet,
+  playbooks?: ServicePlaybook[]
+): Promise<PlanningResponse> {
+  const availableTools = tools.map(tool => tool.name).filter(name => isToolAllowed(name, reportConfig.guardrails));
+  const { steps, unplanned } = reportConfig.playbooks === false
+    ? { steps: [], unplanned: serviceRegionCombos }
+    : planWithPlaybooks(serviceRegionCombos, availableTools, playbooks);
+  if (steps.length > 0) {
+    console.log(chalk.gray(`Built ${steps.length} steps from service playbooks${unplanned.length > 0 ? `, planning ${unplanned.length} combinations with the LLM` : ''}`));
+  }
+  if (unplanned.length === 0) {
+    return { steps };
+  }
+
+  const planningRequest: PlanningRequest = { serviceRegionCombos: unplanned, availableTools };
+  const planned = await planAnalysis(planningRequest, model, generation, prompts);
+  return { steps: orderStepsByCombos([...steps, ...planned.steps], serviceRegionCombos) };
+}
+
+/**
+ * Fetch the top service-region combinations and plan the analysis without executing it,
+ * so the plan can be reviewed and edited before `execute-plan`
+ */
+export async function createPlan(reportConfig: ReportConfig, credentials: AWSCredentials): Promise<PlanFile> {
+  const spinner = createSpinner('Fetching top service-region combinations...').start();
+
+  try {
+    const model = createModel(reportConfig.model, reportConfig.retry);
+    const invocationOptions: InvocationOptions = {
+      retry: reportConfig.retry,
+      cache: reportConfig.cache && createToolCache(reportConfig.cache),
+      generation: reportConfig.generation,
+      prompts: reportConfig.prompts,
+      playbooks: await loadPlaybooks(reportConfig.playbooksDir)
+    };
+
+    const serviceRegionCombos = await getTopServiceRegionCombos(
+      reportConfig.topN, credentials, invocationOptions, reportConfig.costWindow
+    );
+    if (serviceRegionCombos.length === 0) {
+      throw new Error('No cost data found');
+    }
+    spinner.succeed(`Found ${serviceRegionCombos.length} service-region combinations`);
+
+    spinner.start('Planning analysis steps...');
+    const plan = await planSteps(serviceRegionCombos, reportConfig, model, reportConfig.generation, reportConfig.prompts, invocationOptions.playbooks);
+    spinner.succeed(`Created analysis plan with ${plan.steps.length} steps`);
+
+    return {
+      version: PLAN_FILE_VERSION,
+      createdAt: new Date().toISOString(),
+      costWindow: reportConfig.costWindow,
+      serviceRegionCombos,
+      steps: plan.steps
+    };
+  } catch (error) {
+    spinner.fail('Planning failed');
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to create plan: ${errorMessage}`);
+  }
+}
+
+/**
+ * Run a task for each item with at most `limit` tasks in flight at a time
+ */
+async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      await task(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
 }
 
 /**
@@ -69,220 +489,443 @@ export async function analyze(
   credentials: AWSCredentials,
   executionId: string
 ): Promise<[string, AnalysisResult][]> {
-  const spinner = ora('Starting AWS cost analysis...').start();
+  const spinner = createSpinner('Starting AWS cost analysis...').start();
+  const spend = createSpendTracker(resolveModelPricing(reportConfig.model, reportConfig.pricing), reportConfig.spendLimits);
+  const cache = reportConfig.cache && createToolCache(reportConfig.cache);
+  const trace = createTracer(path.join(outputDir, executionId));
+  const startedAt = Date.now();
+  trace.record({ type: 'execution-start', status: reportConfig.resume ? 'resumed' : 'started' });
   
   try {
     // Ensure output directory exists
     await fs.ensureDir(outputDir);
 
-    // Step 1 & 2: Get top service-region combinations ordered by cost
-    spinner.text = 'Fetching top service-region combinations...';
-    const serviceRegionCombos = await getTopServiceRegionCombos(reportConfig.topN, credentials);
-    
+    const model = createModel(reportConfig.model, reportConfig.retry);
+    const rules = await loadRules(reportConfig.rulesDir);
+    const playbooks = await loadPlaybooks(reportConfig.playbooksDir);
+
+    // Record or replay aws-tools invocations if requested
+    const invocationOptions: InvocationOptions = {
+      recording: resolveRecordingConfig(outputDir, executionId, reportConfig.record, reportConfig.replayExecutionId, undefined, reportConfig.replayFallback),
+      retry: reportConfig.retry,
+      spend,
+      cache,
+      trace,
+      chartFormat: reportConfig.chartFormat,
+      guardrails: reportConfig.guardrails,
+      generation: reportConfig.generation,
+      prompts: reportConfig.prompts,
+      playbooks
+    };
+
+    const { serviceRegionCombos, results } = await runAnalysisSteps(
+      reportConfig, outputDir, credentials, executionId, model, invocationOptions, spinner
+    );
+
+    const reportDir = path.join(outputDir, executionId);
     if (serviceRegionCombos.length === 0) {
-      spinner.fail('No cost data found');
+      await reportSpend(reportDir, spend, cache);
+      await finishManifest(reportDir, 'completed');
+      trace.record({ type: 'execution-end', status: 'completed', summary: 'No cost data found', durationMs: Date.now() - startedAt });
       return [];
     }
 
-    spinner.succeed(`Found ${serviceRegionCombos.length} service-region combinations`);
-    console.log(chalk.blue('\nTop service-region combinations by cost:'));
-    serviceRegionCombos.forEach((combo, index) => {
-      console.log(chalk.gray(`${index + 1}. ${combo.service} (${combo.region}): $${combo.cost.toFixed(2)}`));
+    // Step 5: Evaluate the rule-based recommendations over the combos and saved datapoints
+    await fs.ensureDir(reportDir);
+    const recommendations = await evaluateRules(reportDir, serviceRegionCombos, rules);
+    await writeRecommendations(reportDir, recommendations);
+
+    // Step 6: Compile comprehensive report using LLM
+    spinner.start('Compiling comprehensive report...');
+    const compiledReport = await compileComprehensiveReport(
+      results, executionId, instrumentModel(model, { spend, trace }, { phase: 'report' }), undefined, undefined, recommendations,
+      reportConfig.generation, reportConfig.prompts
+    );
+    
+    // Write the comprehensive report with the recommendations, statistically detected anomalies and spend
+    const comprehensiveReportPath = path.join(reportDir, 'report.md');
+    const reportWithRecommendations = appendRecommendationsSection(compiledReport, recommendations);
+    const reportWithAnomalies = await appendAnomaliesSection(reportWithRecommendations, reportDir);
+    await fs.writeFile(comprehensiveReportPath, `${reportWithAnomalies.trimEnd()}\n\n${formatSpendSection(spend.summary())}`, 'utf8');
+    await reportSpend(reportDir, spend, cache);
+    await finishManifest(reportDir, spend.limitReached() ? 'stopped' : 'completed', {
+      reportPath: 'report.md',
+      error: spend.limitReached()
     });
+    trace.record({
+      type: 'execution-end',
+      status: spend.limitReached() ? 'stopped' : 'completed',
+      error: spend.limitReached(),
+      durationMs: Date.now() - startedAt
+    });
+    
+    spinner.succeed(`Analysis completed for ${results.length} steps`);
+    console.log(chalk.green(`\n✅ Comprehensive report generated: ${comprehensiveReportPath}`));
+    return results;
 
-    // Step 3: Planning Phase
-    spinner.text = 'Planning analysis steps...';
-    const model = createModel();
-    const planningRequest: PlanningRequest = {
-      serviceRegionCombos,
-      availableTools: tools.map(tool => tool.name)
-    };
-    const plan = await planAnalysis(planningRequest, model);
+  } catch (error) {
+    spinner.fail('Analysis failed');
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    // Keep the manifest so the execution can be resumed
+    await finishManifest(path.join(outputDir, executionId), 'failed', { error: errorMessage }).catch(() => undefined);
+    await reportSpend(path.join(outputDir, executionId), spend, cache).catch(() => undefined);
+    trace.record({ type: 'execution-end', status: 'failed', error: errorMessage, durationMs: Date.now() - startedAt });
+    throw new Error(`Analysis failed: ${errorMessage}`);
+  }
+}
 
-    spinner.succeed(`Created analysis plan with ${plan.steps.length} steps`);
-    console.log(chalk.blue('\nPlanned analysis steps:'));
-    plan.steps.forEach((step, index) => {
-      console.log(chalk.gray(`${index + 1}. ${step.title} - ${step.service} (${step.region})`));
-    });
+/**
+ * Write the spend summary into the execution directory and print it, with the tool cache stats
+ */
+async function reportSpend(executionPath: string, spend: SpendTracker, cache?: ToolCache): Promise<void> {
+  const summary = spend.summary();
+  const spendPath = await writeSpendSummary(executionPath, summary);
+  const { totals } = summary;
 
-    // Step 4: Analysis Phase - Execute each planned step
-    const results: [string, AnalysisResult][] = [];
-    
-    for (let i = 0; i < plan.steps.length; i++) {
-      const step = plan.steps[i];
-      const spinner2 = ora(`Executing step: ${step.title} (${i + 1}/${plan.steps.length})...`).start();
+  console.log(chalk.blue('\n💰 Usage and spend:'));
+  const phases = [...new Set(summary.entries.map(entry => entry.phase))];
+  phases.forEach(phase => {
+    const entries = summary.entries.filter(entry => entry.phase === phase);
+    const llmCalls = entries.reduce((sum, entry) => sum + entry.llmCalls, 0);
+    const tokens = entries.reduce((sum, entry) => sum + entry.promptTokens + entry.completionTokens, 0);
+    const llmCost = entries.reduce((sum, entry) => sum + entry.llmCost, 0);
+    const apiCalls = entries.reduce((sum, entry) => sum + entry.apiCalls, 0);
+    console.log(chalk.gray(`  ${phase}: ${llmCalls} LLM calls, ${tokens.toLocaleString()} tokens ($${llmCost.toFixed(4)}), ${apiCalls} AWS API calls`));
+  });
+  console.log(chalk.gray(`  Total: ${totals.llmCalls} LLM calls, ${totals.promptTokens.toLocaleString()} input / ${totals.completionTokens.toLocaleString()} output tokens ($${totals.llmCost.toFixed(4)}), ${totals.apiCalls} AWS API calls ($${totals.apiCost.toFixed(2)})`));
+  if (summary.limitReached) {
+    console.log(chalk.yellow(`  ⚠️  Stopped early: ${summary.limitReached}. The report is partial.`));
+  }
+  if (cache) {
+    console.log(chalk.gray(`  Tool cache: ${formatCacheStats(cache.stats())}`));
+  }
+  console.log(chalk.gray(`  Details: ${spendPath}`));
+}
+
+/**
+ * Run the analysis flow for several accounts under one execution ID and compile an
+ * organisation-level report. Each account is analyzed into its own
+ * `<executionId>/accounts/<account>/` directory, laid out like a single-account execution.
+ */
+export async function analyzeAccounts(
+  reportConfig: ReportConfig,
+  outputDir: string = './output',
+  accounts: AccountTarget[],
+  executionId: string
+): Promise<AccountAnalysis[]> {
+  const spinner = createSpinner(`Starting AWS cost analysis of ${accounts.length} accounts...`).start();
+  const spend = createSpendTracker(resolveModelPricing(reportConfig.model, reportConfig.pricing), reportConfig.spendLimits);
+  const cache = reportConfig.cache && createToolCache(reportConfig.cache);
+  const reportDir = path.join(outputDir, executionId);
+  const trace = createTracer(reportDir);
+  const startedAt = Date.now();
+  trace.record({ type: 'execution-start', status: reportConfig.resume ? 'resumed' : 'started', summary: `${accounts.length} accounts` });
+
+  try {
+    const accountsDir = path.join(reportDir, ACCOUNTS_DIR);
+    await fs.ensureDir(accountsDir);
+
+    // The top-level manifest lists the accounts; their steps are in the manifest of each account
+    const existingManifest = reportConfig.resume ? await readManifest(reportDir) : undefined;
+    const manifest = existingManifest || createManifest(executionId, reportConfig);
+    manifest.status = 'running';
+    manifest.error = undefined;
+    manifest.accounts = [...new Set([...(manifest.accounts || []), ...accounts.map(account => account.name)])];
+    await writeManifest(reportDir, manifest);
+
+    const model = createModel(reportConfig.model, reportConfig.retry);
+    const rules = await loadRules(reportConfig.rulesDir);
+    const playbooks = await loadPlaybooks(reportConfig.playbooksDir);
+    const analyses: AccountAnalysis[] = [];
+    const accountRecommendations: RecommendationReport[] = [];
+
+    for (const account of accounts) {
+      console.log(chalk.blue(`\n🏢 Analyzing account: ${account.name}`));
+      spinner.start(`Analyzing account ${account.name}...`);
 
       try {
-        const analysisResult = await executeAnalysisStep(step, outputDir, model, credentials, executionId);
-        
-        // Generate individual step report
-        const sanitizedService = step.service.replace(/\s+/g, '_');
-        const serviceRegion = `${sanitizedService}-${step.region}`;
-        const { generateStepReport } = await import('./report-generator.js');
-        const reportPath = await generateStepReport(analysisResult, outputDir, executionId, serviceRegion);
-        
-        // Create tuple of (report_path, markdown_content)
-        results.push([reportPath, analysisResult]);
-        spinner2.succeed(`Completed step: ${step.title}`);
+        const invocationOptions: InvocationOptions = {
+          recording: resolveRecordingConfig(
+            outputDir, executionId, reportConfig.record, reportConfig.replayExecutionId, account.name, reportConfig.replayFallback
+          ),
+          retry: reportConfig.retry,
+          spend,
+          cache,
+          trace,
+          spendScope: { account: account.name, phase: 'cost-data' },
+          chartFormat: reportConfig.chartFormat,
+          guardrails: reportConfig.guardrails,
+          generation: reportConfig.generation,
+          prompts: reportConfig.prompts,
+          playbooks
+        };
+        const { serviceRegionCombos, results } = await runAnalysisSteps(
+          reportConfig, accountsDir, account.credentials, account.name, model, invocationOptions, spinner
+        );
+        const accountCombos = serviceRegionCombos.map(combo => ({ ...combo, account: account.name }));
+        analyses.push({ account: account.name, serviceRegionCombos: accountCombos, results });
+        accountRecommendations.push(await evaluateRules(path.join(accountsDir, account.name), accountCombos, rules));
+        await finishManifest(path.join(accountsDir, account.name), spend.limitReached() ? 'stopped' : 'completed', {
+          error: spend.limitReached()
+        });
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
-        spinner2.fail(`Failed to execute step: ${step.title}: ${errorMessage}`);
-        // Continue with other steps
-        const failedAnalysis = `# Analysis Failed\n\nStep failed: ${errorMessage}`;
-        const sanitizedService = step.service.replace(/\s+/g, '_');
-        const serviceRegion = `${sanitizedService}-${step.region}`;
-        const { generateStepReport } = await import('./report-generator.js');
-        const reportPath = await generateStepReport(failedAnalysis, outputDir, executionId, serviceRegion);
-        results.push([reportPath, failedAnalysis]);
+        spinner.fail(`Failed to analyze account ${account.name}: ${errorMessage}`);
+        await finishManifest(path.join(accountsDir, account.name), 'failed', { error: errorMessage }).catch(() => undefined);
+        // Continue with other accounts
+        analyses.push({ account: account.name, serviceRegionCombos: [], results: [], error: errorMessage });
       }
     }
 
-    // Step 5: Compile comprehensive report using LLM
-    spinner.text = 'Compiling comprehensive report...';
-    const compiledReport = await compileComprehensiveReport(results, executionId, model);
-    
-    // Write the comprehensive report
-    const { generateAnalysisPaths } = await import('./report-generator.js');
-    const reportDir = path.join(outputDir, executionId);
+    const results = analyses.flatMap(analysis => analysis.results);
+    if (analyses.every(analysis => analysis.serviceRegionCombos.length === 0)) {
+      spinner.fail('No cost data found in any account');
+      await reportSpend(reportDir, spend, cache);
+      await finishManifest(reportDir, 'completed');
+      return analyses;
+    }
+
+    const recommendations = mergeRecommendationReports(accountRecommendations);
+    await writeRecommendations(reportDir, recommendations);
+
+    // Compile organisation-level report using LLM
+    spinner.start('Compiling organisation report...');
+    const compiledReport = await compileComprehensiveReport(
+      results, executionId, instrumentModel(model, { spend, trace }, { phase: 'report' }), analyses, reportDir, recommendations,
+      reportConfig.generation, reportConfig.prompts
+    );
+
     const comprehensiveReportPath = path.join(reportDir, 'report.md');
-    await fs.ensureDir(reportDir);
-    await fs.writeFile(comprehensiveReportPath, compiledReport, 'utf8');
-    
-    spinner.succeed(`Analysis completed for ${results.length} steps`);
-    console.log(chalk.green(`\n✅ Comprehensive report generated: ${comprehensiveReportPath}`));
-    return results;
+    const reportWithRecommendations = appendRecommendationsSection(compiledReport, recommendations);
+    const reportWithAnomalies = await appendAnomaliesSection(reportWithRecommendations, reportDir);
+    await fs.writeFile(comprehensiveReportPath, `${reportWithAnomalies.trimEnd()}\n\n${formatSpendSection(spend.summary())}`, 'utf8');
+    await reportSpend(reportDir, spend, cache);
+    await finishManifest(reportDir, spend.limitReached() ? 'stopped' : 'completed', {
+      reportPath: 'report.md',
+      error: spend.limitReached()
+    });
+    trace.record({
+      type: 'execution-end',
+      status: spend.limitReached() ? 'stopped' : 'completed',
+      error: spend.limitReached(),
+      durationMs: Date.now() - startedAt
+    });
+
+    spinner.succeed(`Analysis completed for ${results.length} steps across ${accounts.length} accounts`);
+    console.log(chalk.green(`\n✅ Organisation report generated: ${comprehensiveReportPath}`));
+    return analyses;
 
   } catch (error) {
     spinner.fail('Analysis failed');
     const errorMessage = error instanceof Error ? error.message : String(error);
+    await reportSpend(reportDir, spend, cache).catch(() => undefined);
+    await finishManifest(reportDir, 'failed', { error: errorMessage }).catch(() => undefined);
+    trace.record({ type: 'execution-end', status: 'failed', error: errorMessage, durationMs: Date.now() - startedAt });
     throw new Error(`Analysis failed: ${errorMessage}`);
   }
 }
 
 /**
- * Compile individual analysis reports into a comprehensive report using LLM
+ * Scan the execution's datapoints for anomalies, write the anomalies file and
+ * append the anomalies section to the report
+ */
+async function appendAnomaliesSection(report: string, executionPath: string): Promise<string> {
+  try {
+    const anomalyReport = await writeAnomalyReport(executionPath);
+    return `${report.trimEnd()}\n\n${formatAnomaliesSection(anomalyReport)}`;
+  } catch (error) {
+    console.warn(chalk.yellow(`Warning: Anomaly detection failed: ${error}`));
+    return report;
+  }
+}
+
+/**
+ * Append the rule-based recommendations section to the report
+ */
+function appendRecommendationsSection(report: string, recommendations?: RecommendationReport): string {
+  return recommendations ? `${report.trimEnd()}\n\n${formatRecommendationsSection(recommendations)}` : report;
+}
+
+/**
+ * Rank service-region combinations of all accounts together by cost
+ */
+export function buildCombinedRanking(analyses: AccountAnalysis[]): string {
+  const combos = analyses
+    .flatMap(analysis => analysis.serviceRegionCombos)
+    .sort((a, b) => b.cost - a.cost);
+  const total = combos.reduce((sum, combo) => sum + combo.cost, 0);
+
+  const rows = combos.map((combo, index) =>
+    `| ${index + 1} | ${combo.account} | ${combo.service} | ${combo.region} | $${combo.cost.toFixed(2)} | ${total > 0 ? (combo.cost / total * 100).toFixed(1) : '0.0'}% |`
+  );
+
+  return [
+    '| Rank | Account | Service | Region | Cost | Share |',
+    '|------|---------|---------|--------|------|-------|',
+    ...rows
+  ].join('\n');
+}
+
+/**
+ * Summarize analyzed spend and step status per account
+ */
+function buildAccountTotals(analyses: AccountAnalysis[]): string {
+  const rows = analyses.map(analysis => {
+    const total = analysis.serviceRegionCombos.reduce((sum, combo) => sum + combo.cost, 0);
+    const failed = analysis.results.filter(([_, content]) => content.includes('Analysis Failed')).length;
+    const status = analysis.error ? `Failed: ${analysis.error}` : `${analysis.results.length - failed}/${analysis.results.length} steps succeeded`;
+    return `| ${analysis.account} | $${total.toFixed(2)} | ${analysis.serviceRegionCombos.length} | ${status} |`;
+  });
+
+  return [
+    '| Account | Analyzed Cost | Service-Region Combinations | Status |',
+    '|---------|---------------|-----------------------------|--------|',
+    ...rows
+  ].join('\n');
+}
+
+/**
+ * Compile individual analysis reports into a comprehensive report using LLM.
+ * When account analyses are given, the report is an organisation-level summary
+ * with per-account sections and a combined ranking.
  */
 async function compileComprehensiveReport(
   results: [string, AnalysisResult][], 
   executionId: string,
-  model: any
+  model: LanguageModelV1,
+  accounts?: AccountAnalysis[],
+  reportDir?: string,
+  recommendations?: RecommendationReport,
+  generation: GenerationSettings = {},
+  prompts?: PromptSet
 ): Promise<string> {
   const { generateText } = await import('ai');
+  const findingsByReport = await readFindings(results);
   
   // Prepare the content for LLM compilation
   const analysisOverview = results.map(([reportPath, content], index) => {
     // Extract relative path for linking
-    const relativePath = path.basename(reportPath);
+    const relativePath = reportDir ? `./${path.relative(reportDir, reportPath)}` : path.basename(reportPath);
     // Extract title from markdown content
     const titleMatch = content.match(/^#\s+(.+)$/m);
     const title = titleMatch ? titleMatch[1] : `Analysis ${index + 1}`;
+    const account = accounts?.find(analysis => analysis.results.some(([resultPath]) => resultPath === reportPath))?.account;
     
     return {
       title,
       relativePath,
+      account,
+      findings: findingsByReport.get(reportPath),
       content: content // Send full content to LLM
     };
-  }).filter(item => !item.content.includes('Analysis Failed'));
+  }).filter(item => !isFailedAnalysis(item.content, item.findings));
 
   const totalContentLength = analysisOverview.reduce((sum, item) => sum + item.content.length, 0);
   console.log(chalk.blue(`\n📊 Sending ${totalContentLength.toLocaleString()} characters of analysis content to LLM...`));
 
-  const prompt = `
-You are tasked with creating a comprehensive AWS cost analysis report that summarizes and links to individual service analyses.
+  const prompt = renderPrompt(prompts, 'report', {
+    executionId,
+    analysisCount: results.length,
+    successfulCount: analysisOverview.length,
+    accounts: accounts ? `
+Accounts analyzed: ${accounts.length}
 
-Execution ID: ${executionId}
-Number of analyses completed: ${results.length}
-Successful analyses: ${analysisOverview.length}
+Per-account totals:
+${buildAccountTotals(accounts)}
 
-Individual Analysis Reports:
-${analysisOverview.map((item, index) => `
-${index + 1}. **${item.title}**
-   - Report file: ${item.relativePath}
+Combined ranking of service-region combinations across all accounts:
+${buildCombinedRanking(accounts)}
+` : '',
+    findingsNote: findingsByReport.size > 0 ? `
+Reports with structured findings list the key metrics, insights and recommendations (with severity, effort and estimated monthly savings) extracted from them. Use them to rank recommendations across services.
+` : '',
+    analyses: analysisOverview.map((item, index) => `
+${index + 1}. **${item.title}**${item.account ? `
+   - Account: ${item.account}` : ''}
+   - Report file: ${item.relativePath}${item.findings && !item.findings.error ? `
+   - Structured findings:
+${formatFindingsForPrompt(item.findings)}` : ''}
    - Full Content:
 ${item.content}
 
 ---
 
-`).join('\n')}
-
-Please create a comprehensive executive summary report that synthesizes insights from all the full analysis reports above:
-
-1. **Executive Summary**: Provide a strategic overview analyzing patterns across all services
-2. **Cost Analysis**: 
-   - Total cost breakdown across all services
-   - Cost trends and patterns identified
-   - Cost drivers and optimization opportunities
-3. **Key Findings**: 
-   - Extract and synthesize the most critical insights from all analyses
-   - Identify cross-service patterns and correlations
-   - Highlight unexpected findings or anomalies
-4. **Strategic Recommendations**: 
-   - Prioritized optimization recommendations across all services
-   - Cross-service optimization opportunities
-   - Risk mitigation strategies
-5. **Service Performance Summary**: Brief summary of each service's key metrics and status
-6. **Individual Service Links**: Include links to detailed individual reports
-
-Format the report in markdown and include relative links to individual reports like:
-- [Service Name Analysis](./service-region-analysis.md)
-
-Since you have access to the full content of all analyses, provide deep insights and actionable strategic recommendations that leverage the complete data set.
-Make sure to include charts in your response if they are relevant and helpful.
-
-The response should be in markdown format. Do not use emoticons.
-`;
+`).join('\n'),
+    recommendations: recommendations && recommendations.recommendations.length > 0 ? `
+Rule-based recommendations (deterministic checks with estimated monthly savings):
+${formatRecommendationsSection(recommendations)}
+${RECOMMENDATIONS_INSTRUCTIONS}
+` : '',
+    instructions: renderPrompt(prompts, accounts ? 'organisation-report-instructions' : 'report-instructions')
+  });
 
   try {
     const result = await generateText({
       model: model,
       prompt,
-      maxTokens: 8192,
-      temperature: 0.3
+      maxRetries: SDK_MAX_RETRIES,
+      maxTokens: generation.maxTokens ?? DEFAULT_GENERATION_SETTINGS.maxTokens,
+      temperature: generation.temperature ?? DEFAULT_TEMPERATURE
     });
 
     return result.text;
   } catch (error) {
     console.error('Error compiling comprehensive report:', error);
     // Fallback to a simple compilation
-    return createFallbackReport(results, executionId);
+    return createFallbackReport(results, executionId, findingsByReport, accounts, reportDir);
   }
 }
 
 /**
- * Generate comprehensive report from existing analysis files
+ * Read the findings saved next to each step report, keyed by report path
  */
-export async function generateReportFromExisting(
-  executionId: string, 
-  outputDir: string = './output',
-  credentials: AWSCredentials
-): Promise<string> {
-  const executionPath = path.join(outputDir, executionId);
-  
-  // Check if execution directory exists
-  if (!await fs.pathExists(executionPath)) {
-    throw new Error(`Execution directory not found: ${executionPath}`);
+async function readFindings(results: [string, AnalysisResult][]): Promise<Map<string, StepFindings>> {
+  const findingsByReport = new Map<string, StepFindings>();
+  for (const [reportPath] of results) {
+    const findings = await readStepFindings(reportPath);
+    if (findings) {
+      findingsByReport.set(reportPath, findings);
+    }
   }
+  return findingsByReport;
+}
 
-  // Find all analysis files
-  const analysisFiles = await fs.readdir(executionPath);
-  const analysisMarkdownFiles = analysisFiles.filter(file => 
-    file.endsWith('-analysis.md') && !file.startsWith('.')
-  );
+/**
+ * Whether a step failed, from its findings when saved, otherwise from its markdown
+ */
+function isFailedAnalysis(content: AnalysisResult, findings?: StepFindings): boolean {
+  return findings ? findings.status === 'failed' : content.includes('Analysis Failed');
+}
 
-  if (analysisMarkdownFiles.length === 0) {
-    throw new Error(`No analysis files found in: ${executionPath}`);
-  }
+/**
+ * Render step findings as a compact list for the report prompt
+ */
+function formatFindingsForPrompt(findings: StepFindings): string {
+  const lines = [
+    `     Summary: ${findings.analysis}`,
+    ...findings.keyMetrics.map(metric => `     Metric: ${metric.name} = ${metric.value}${metric.unit ? ` ${metric.unit}` : ''}`),
+    ...findings.insights.map(insight => `     Insight: ${insight}`),
+    ...findings.recommendations.map(recommendation =>
+      `     Recommendation [${recommendation.severity} severity, ${recommendation.effort} effort${recommendation.estimatedMonthlySavings !== undefined ? `, ~$${recommendation.estimatedMonthlySavings.toFixed(2)}/month` : ''}]: ${recommendation.title} - ${recommendation.description}`
+    )
+  ];
+  return lines.join('\n');
+}
 
-  console.log(chalk.blue(`\nFound ${analysisMarkdownFiles.length} analysis files:`));
-  analysisMarkdownFiles.forEach((file, index) => {
-    console.log(chalk.gray(`${index + 1}. ${file}`));
-  });
+const RECOMMENDATIONS_INSTRUCTIONS = `When a recommendation in your report matches a rule-based recommendation above, cite its rule ID in brackets, like [nat-gateway-data-processing], and use its estimated monthly savings.
+Do not state savings figures that do not appear in the rule-based recommendations or the analysis reports above.`;
+
+/**
+ * Read the step analyses of an execution directory, or of one account of a multi-account execution
+ */
+async function readAnalysisFiles(directory: string): Promise<[string, AnalysisResult][]> {
+  const analysisMarkdownFiles = (await fs.readdir(directory)).filter(file =>
+    file.endsWith('-analysis.md') && !file.startsWith('.')
+  );
 
-  // Read all analysis files and create tuples
   const results: [string, AnalysisResult][] = [];
-  
   for (const fileName of analysisMarkdownFiles) {
-    const filePath = path.join(executionPath, fileName);
+    const filePath = path.join(directory, fileName);
     try {
       const content = await fs.readFile(filePath, 'utf8');
       results.push([filePath, content]);
@@ -290,20 +933,83 @@ export async function generateReportFromExisting(
       console.warn(chalk.yellow(`Warning: Could not read ${fileName}: ${error}`));
     }
   }
+  return results;
+}
+
+/**
+ * Read the analyses of each account of a multi-account execution, with the combinations
+ * and status from the account's manifest
+ */
+async function readAccountAnalyses(executionPath: string, accounts: string[]): Promise<AccountAnalysis[]> {
+  const analyses: AccountAnalysis[] = [];
+  for (const account of accounts) {
+    const accountPath = path.join(executionPath, ACCOUNTS_DIR, account);
+    if (!await fs.pathExists(accountPath)) {
+      console.warn(chalk.yellow(`Warning: Account directory not found: ${accountPath}`));
+      continue;
+    }
+    const manifest = await readManifest(accountPath);
+    analyses.push({
+      account,
+      serviceRegionCombos: (manifest?.serviceRegionCombos || []).map(combo => ({ ...combo, account })),
+      results: await readAnalysisFiles(accountPath),
+      error: manifest?.status === 'failed' ? manifest.error : undefined
+    });
+  }
+  return analyses;
+}
+
+/**
+ * Generate comprehensive report from existing analysis files. AWS credentials are only
+ * needed when the model runs on Bedrock. A multi-account execution gets the
+ * organisation-level report compiled from the analyses of all its accounts.
+ */
+export async function generateReportFromExisting(
+  executionId: string, 
+  outputDir: string = './output',
+  credentials?: AWSCredentials,
+  modelConfig?: ModelConfig,
+  generation?: GenerationSettings,
+  prompts?: PromptSet
+): Promise<string> {
+  const executionPath = path.join(outputDir, executionId);
+  
+  // Check if execution directory exists
+  if (!await fs.pathExists(executionPath)) {
+    throw new Error(`Execution directory not found: ${executionPath}`);
+  }
+
+  // Find all analysis files, per account for a multi-account execution
+  const accountsPath = path.join(executionPath, ACCOUNTS_DIR);
+  const accountNames = (await readManifest(executionPath))?.accounts
+    ?? (await fs.pathExists(accountsPath) ? await fs.readdir(accountsPath) : undefined);
+  const accounts = accountNames && await readAccountAnalyses(executionPath, accountNames);
+  const results = accounts ? accounts.flatMap(analysis => analysis.results) : await readAnalysisFiles(executionPath);
 
   if (results.length === 0) {
-    throw new Error('Could not read any analysis files');
+    throw new Error(`No analysis files found in: ${executionPath}`);
   }
 
+  console.log(chalk.blue(`\nFound ${results.length} analysis files:`));
+  results.forEach(([filePath], index) => {
+    console.log(chalk.gray(`${index + 1}. ${path.relative(executionPath, filePath)}`));
+  });
+
   // Create model for LLM compilation
-  const model = createModel();
+  const model = createModel(modelConfig);
   
+  // Reuse the rule-based recommendations saved by the analysis, if any
+  const recommendations = await readRecommendations(executionPath);
+
   // Compile comprehensive report using existing function
-  const compiledReport = await compileComprehensiveReport(results, executionId, model);
+  const compiledReport = await compileComprehensiveReport(
+    results, executionId, model, accounts, accounts && executionPath, recommendations, generation, prompts
+  );
   
-  // Write the comprehensive report
+  // Write the comprehensive report with the recommendations and statistically detected anomalies
   const comprehensiveReportPath = path.join(executionPath, 'report.md');
-  await fs.writeFile(comprehensiveReportPath, compiledReport, 'utf8');
+  const reportWithRecommendations = appendRecommendationsSection(compiledReport, recommendations);
+  await fs.writeFile(comprehensiveReportPath, await appendAnomaliesSection(reportWithRecommendations, executionPath), 'utf8');
   
   console.log(chalk.green(`\n✅ Successfully compiled ${results.length} analysis files`));
   return comprehensiveReportPath;
@@ -312,8 +1018,14 @@ export async function generateReportFromExisting(
 /**
  * Create a fallback comprehensive report without LLM
  */
-function createFallbackReport(results: [string, AnalysisResult][], executionId: string): string {
-  const successfulAnalyses = results.filter(([_, content]) => !content.includes('Analysis Failed'));
+function createFallbackReport(
+  results: [string, AnalysisResult][],
+  executionId: string,
+  findingsByReport: Map<string, StepFindings>,
+  accounts?: AccountAnalysis[],
+  reportDir?: string
+): string {
+  const successfulAnalyses = results.filter(([reportPath, content]) => !isFailedAnalysis(content, findingsByReport.get(reportPath)));
   const timestamp = new Date().toISOString();
   
   let report = `# AWS Cost Analysis Comprehensive Report
@@ -325,24 +1037,54 @@ function createFallbackReport(results: [string, AnalysisResult][], executionId:
 
 ## Executive Summary
 
-This comprehensive report analyzes ${results.length} AWS service-region combinations to identify cost patterns, optimization opportunities, and strategic recommendations for your cloud infrastructure.
-
-## Individual Service Analyses
+This comprehensive report analyzes ${results.length} AWS service-region combinations${accounts ? ` across ${accounts.length} accounts` : ''} to identify cost patterns, optimization opportunities, and strategic recommendations for your cloud infrastructure.
 
 `;
 
-  results.forEach(([reportPath, content]) => {
-    const relativePath = path.basename(reportPath);
-    const titleMatch = content.match(/^#\s+(.+)$/m);
-    const title = titleMatch ? titleMatch[1] : 'Analysis Report';
-    const isSuccessful = !content.includes('Analysis Failed');
-    
-    report += `### ${title}
+  const renderAnalyses = (accountResults: [string, AnalysisResult][], headingLevel: string) => {
+    accountResults.forEach(([reportPath, content]) => {
+      const relativePath = reportDir ? path.relative(reportDir, reportPath) : path.basename(reportPath);
+      const titleMatch = content.match(/^#\s+(.+)$/m);
+      const title = titleMatch ? titleMatch[1] : 'Analysis Report';
+      const findings = findingsByReport.get(reportPath);
+      const isSuccessful = !isFailedAnalysis(content, findings);
+      
+      report += `${headingLevel} ${title}
 - **Status**: ${isSuccessful ? '✅ Completed' : '❌ Failed'}
 - **Detailed Report**: [${title}](./${relativePath})
+${findings?.analysis ? `- **Summary**: ${findings.analysis}
+` : ''}
+`;
+    });
+  };
+
+  if (accounts) {
+    report += `## Account Totals
+
+${buildAccountTotals(accounts)}
+
+## Combined Ranking
+
+${buildCombinedRanking(accounts)}
 
 `;
-  });
+    accounts.forEach(analysis => {
+      report += `## Account: ${analysis.account}
+
+`;
+      if (analysis.error) {
+        report += `Analysis of this account failed: ${analysis.error}
+
+`;
+      }
+      renderAnalyses(analysis.results, '###');
+    });
+  } else {
+    report += `## Individual Service Analyses
+
+`;
+    renderAnalyses(results, '###');
+  }
 
   report += `
 ## Summary
@@ -354,4 +1096,4 @@ For detailed analysis of each service, please refer to the individual reports li
 `;
 
   return report;
-}
\ No newline at end of file
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { detectAnomalies, extractTimeSeries, findDataFiles } from './anomalies.js';
+
+function day(index: number): string {
+  return new Date(Date.UTC(2026, 8, 1 + index)).toISOString().slice(0, 10);
+}
+
+function datapoints(values: number[], name: string = 'USE1-Lambda-GB-Second') {
+  return values.map((value, index) => ({ timestamp: day(index), dimensions: { [name]: value } }));
+}
+
+describe('extractTimeSeries', () => {
+  it('reads numeric fields and nested dimensions in time order', () => {
+    const series = extractTimeSeries([
+      { period: '2026-09-02', cost: '12.5', dimensions: { Requests: 20 }, id: '2026-09-02' },
+      { period: '2026-09-01', cost: 10, dimensions: { Requests: 10, Region: 'us-east-1' } }
+    ]);
+
+    expect(series).toEqual([
+      { name: 'cost', points: [{ time: '2026-09-01', value: 10 }, { time: '2026-09-02', value: 12.5 }] },
+      { name: 'Requests', points: [{ time: '2026-09-01', value: 10 }, { time: '2026-09-02', value: 20 }] }
+    ]);
+    expect(extractTimeSeries({ datapoints: [] })).toEqual([]);
+  });
+});
+
+describe('detectAnomalies', () => {
+  let executionPath: string;
+
+  const writeData = async (values: number[], serviceRegion: string = 'AWS_Lambda-us-east-1') => {
+    const directory = path.join(executionPath, serviceRegion, 'awsGetCostAndUsage');
+    await fs.ensureDir(directory);
+    await fs.writeJson(path.join(directory, `${path.basename(serviceRegion)}-data.json`), datapoints(values));
+  };
+
+  beforeEach(async () => {
+    executionPath = await fs.mkdtemp(path.join(os.tmpdir(), 'anomalies-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(executionPath);
+  });
+
+  it('flags a spike against the rolling baseline', async () => {
+    await writeData([100, 102, 98, 101, 99, 100, 103, 97, 100, 300, 101, 99, 100, 102]);
+
+    const report = await detectAnomalies(executionPath);
+
+    expect(report.filesScanned).toBe(1);
+    expect(report.anomalies).toEqual([expect.objectContaining({
+      id: 'A001',
+      type: 'spike',
+      severity: 'high',
+      timestamp: day(9),
+      value: 300,
+      source: { file: path.join('AWS_Lambda-us-east-1', 'awsGetCostAndUsage', 'AWS_Lambda-us-east-1-data.json'), account: undefined, serviceRegion: 'AWS_Lambda-us-east-1', tool: 'awsGetCostAndUsage' }
+    })]);
+  });
+
+  it('numbers anomalies in report order, strongest first', async () => {
+    await writeData([100, 102, 98, 101, 99, 100, 103, 97, 100, 150, 101, 99, 100, 102], 'AWS_Lambda-us-east-1');
+    await writeData([100, 102, 98, 101, 99, 100, 103, 97, 100, 300, 101, 99, 100, 102], 'Amazon_S3-us-east-1');
+
+    const report = await detectAnomalies(executionPath);
+
+    expect(report.anomalies.map(({ id, value, source }) => ({ id, value, serviceRegion: source.serviceRegion }))).toEqual([
+      { id: 'A001', value: 300, serviceRegion: 'Amazon_S3-us-east-1' },
+      { id: 'A002', value: 150, serviceRegion: 'AWS_Lambda-us-east-1' }
+    ]);
+  });
+
+  it('finds a lasting change in level', async () => {
+    await writeData([50, 51, 49, 50, 52, 48, 50, 100, 101, 99, 100, 102, 98, 100]);
+
+    const report = await detectAnomalies(executionPath);
+
+    expect(report.anomalies).toContainEqual(expect.objectContaining({ type: 'level-shift', timestamp: day(7), method: 'mean-shift' }));
+  });
+
+  it('does not flag a weekly pattern once three weeks of history show it', async () => {
+    const weekly = Array.from({ length: 28 }, (_, index) => (index % 7 >= 5 ? 20 : 100) + (index % 3));
+    await writeData(weekly);
+
+    const report = await detectAnomalies(executionPath);
+
+    expect(report.anomalies.filter(anomaly => anomaly.method === 'seasonal-z-score')).toEqual([]);
+  });
+
+  it('skips series too short for a baseline', async () => {
+    await writeData([10, 10, 500]);
+
+    const report = await detectAnomalies(executionPath);
+
+    expect(report).toMatchObject({ filesScanned: 1, seriesScanned: 0, anomalies: [] });
+  });
+
+  it('finds the datapoint files of every account', async () => {
+    await writeData([1, 2, 3], path.join('accounts', 'production', 'AWS_Lambda-us-east-1'));
+
+    expect(await findDataFiles(executionPath)).toEqual([expect.objectContaining({ account: 'production', serviceRegion: 'AWS_Lambda-us-east-1', tool: 'awsGetCostAndUsage' })]);
+  });
+});
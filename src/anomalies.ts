@@ -0,0 +1,324 @@
+import fs from 'fs-extra';
+import * as path from 'path';
+import { Anomaly, AnomalyDetectionOptions, AnomalyReport, AnomalySeverity, TimeSeries, DataFile } from './types.js';
+import { ACCOUNTS_DIR } from './report-generator.js';
+
+export const ANOMALIES_FILE = 'anomalies.json';
+
+export const DEFAULT_ANOMALY_OPTIONS: AnomalyDetectionOptions = {
+  windowSize: 7,
+  minHistory: 5,
+  zThreshold: 3,
+  levelShiftThreshold: 4,
+  minRelativeChange: 0.2,
+  seasonalPeriod: 7
+};
+
+const TIME_KEYS = ['timestamp', 'Timestamp', 'period', 'date', 'time', 'start', 'Start'];
+const NESTED_VALUE_KEYS = ['dimensions', 'values', 'metrics', 'groups'];
+
+/**
+ * Find all tool datapoint files in an execution directory
+ */
+export async function findDataFiles(executionPath: string): Promise<DataFile[]> {
+  const files: DataFile[] = [];
+
+  const walk = async (dir: string): Promise<void> => {
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (entry.name !== 'recordings') {
+          await walk(entryPath);
+        }
+      } else if (entry.name.endsWith('-data.json')) {
+        // <execution>[/accounts/<account>]/<service-region>/<tool>/<id>-data.json
+        const parts = path.relative(executionPath, entryPath).split(path.sep);
+        if (parts.length < 3) {
+          continue;
+        }
+        files.push({
+          filePath: entryPath,
+          account: parts[0] === ACCOUNTS_DIR ? parts[1] : undefined,
+          serviceRegion: parts[parts.length - 3],
+          tool: parts[parts.length - 2]
+        });
+      }
+    }
+  };
+
+  await walk(executionPath);
+  return files;
+}
+
+/**
+ * Extract numeric time series from tool datapoints. Each numeric field of a datapoint,
+ * and each numeric entry of nested objects such as `dimensions`, becomes a series.
+ */
+export function extractTimeSeries(datapoints: unknown): TimeSeries[] {
+  if (!Array.isArray(datapoints)) {
+    return [];
+  }
+
+  const series = new Map<string, TimeSeries>();
+  const addPoint = (name: string, time: string, value: unknown) => {
+    // Only whole numeric strings count, so dates or IDs like "2025-07-01" are not read as 2025
+    const numeric = typeof value === 'number' ? value : (/^\s*-?\d+(\.\d+)?\s*$/.test(String(value)) ? Number(value) : NaN);
+    if (!Number.isFinite(numeric)) {
+      return;
+    }
+    const existing = series.get(name);
+    if (existing) {
+      existing.points.push({ time, value: numeric });
+    } else {
+      series.set(name, { name, points: [{ time, value: numeric }] });
+    }
+  };
+
+  datapoints.forEach((datapoint, index) => {
+    if (!datapoint || typeof datapoint !== 'object') {
+      return;
+    }
+    const timeKey = TIME_KEYS.find(key => datapoint[key] !== undefined);
+    const time = timeKey ? String(datapoint[timeKey]) : String(index);
+
+    for (const [key, value] of Object.entries(datapoint)) {
+      if (key === timeKey) {
+        continue;
+      }
+      if (NESTED_VALUE_KEYS.includes(key) && value && typeof value === 'object') {
+        for (const [nestedKey, nestedValue] of Object.entries(value)) {
+          addPoint(nestedKey, time, nestedValue);
+        }
+      } else if (typeof value === 'number' || typeof value === 'string') {
+        addPoint(key, time, value);
+      }
+    }
+  });
+
+  return [...series.values()].map(s => ({
+    ...s,
+    points: s.points.sort((a, b) => a.time.localeCompare(b.time, undefined, { numeric: true }))
+  }));
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function standardDeviation(values: number[]): number {
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - avg) ** 2, 0) / values.length);
+}
+
+function severityFor(score: number, relativeChange: number): AnomalySeverity {
+  if (score >= 6 || Math.abs(relativeChange) >= 1) {
+    return 'high';
+  }
+  if (score >= 4 || Math.abs(relativeChange) >= 0.5) {
+    return 'medium';
+  }
+  return 'low';
+}
+
+/**
+ * Flag points that deviate from their rolling baseline. When the series is long enough
+ * to contain three seasonal cycles (e.g. three weeks of daily data), the baseline is the
+ * mean of the same position in previous cycles, so regular weekly patterns are not flagged.
+ */
+function detectSpikes(series: TimeSeries, options: AnomalyDetectionOptions): Omit<Anomaly, 'id' | 'source'>[] {
+  const values = series.points.map(point => point.value);
+  const seasonal = options.seasonalPeriod > 1 && values.length >= options.seasonalPeriod * 3;
+  const anomalies: Omit<Anomaly, 'id' | 'source'>[] = [];
+
+  for (let i = options.minHistory; i < values.length; i++) {
+    const window = values.slice(Math.max(0, i - options.windowSize), i);
+
+    let baseline = mean(window);
+    let spread = standardDeviation(window);
+
+    if (seasonal && i >= options.seasonalPeriod * 2) {
+      const sameSeason: number[] = [];
+      for (let j = i - options.seasonalPeriod; j >= 0; j -= options.seasonalPeriod) {
+        sameSeason.push(values[j]);
+      }
+      baseline = mean(sameSeason);
+      // Spread of recent deviations from their own seasonal values
+      const residuals = window.map((value, k) => {
+        const index = i - window.length + k;
+        return index >= options.seasonalPeriod ? value - values[index - options.seasonalPeriod] : 0;
+      });
+      spread = standardDeviation(residuals);
+    }
+
+    const deviation = values[i] - baseline;
+    const relativeChange = baseline !== 0 ? deviation / Math.abs(baseline) : (deviation !== 0 ? Infinity : 0);
+    if (Math.abs(relativeChange) < options.minRelativeChange) {
+      continue;
+    }
+
+    const zScore = spread > 0 ? deviation / spread : (deviation !== 0 ? Math.sign(deviation) * Infinity : 0);
+    if (Math.abs(zScore) < options.zThreshold) {
+      continue;
+    }
+
+    anomalies.push({
+      type: deviation > 0 ? 'spike' : 'drop',
+      series: series.name,
+      timestamp: series.points[i].time,
+      value: values[i],
+      baseline,
+      score: zScore,
+      changePercent: Number.isFinite(relativeChange) ? relativeChange * 100 : undefined,
+      severity: severityFor(Math.abs(zScore), relativeChange),
+      method: seasonal && i >= options.seasonalPeriod * 2 ? 'seasonal-z-score' : 'rolling-z-score'
+    });
+  }
+
+  return anomalies;
+}
+
+/**
+ * Find the single most significant change in level, comparing the mean before and
+ * after every possible split point
+ */
+function detectLevelShift(series: TimeSeries, options: AnomalyDetectionOptions): Omit<Anomaly, 'id' | 'source'> | undefined {
+  const values = series.points.map(point => point.value);
+  const minSegment = Math.max(3, Math.floor(options.minHistory / 2));
+  let best: { index: number; score: number; before: number; after: number } | undefined;
+
+  for (let k = minSegment; k <= values.length - minSegment; k++) {
+    const before = values.slice(0, k);
+    const after = values.slice(k);
+    const pooled = Math.sqrt(
+      (standardDeviation(before) ** 2 * before.length + standardDeviation(after) ** 2 * after.length) / values.length
+    );
+    const difference = mean(after) - mean(before);
+    const score = pooled > 0
+      ? Math.abs(difference) / (pooled * Math.sqrt(1 / before.length + 1 / after.length))
+      : (difference !== 0 ? Infinity : 0);
+
+    if (!best || score > best.score) {
+      best = { index: k, score, before: mean(before), after: mean(after) };
+    }
+  }
+
+  if (!best || best.score < options.levelShiftThreshold) {
+    return undefined;
+  }
+
+  const relativeChange = best.before !== 0 ? (best.after - best.before) / Math.abs(best.before) : Infinity;
+  if (Math.abs(relativeChange) < options.minRelativeChange) {
+    return undefined;
+  }
+
+  return {
+    type: 'level-shift',
+    series: series.name,
+    timestamp: series.points[best.index].time,
+    value: best.after,
+    baseline: best.before,
+    score: best.score,
+    changePercent: Number.isFinite(relativeChange) ? relativeChange * 100 : undefined,
+    severity: severityFor(best.score / 2, relativeChange),
+    method: 'mean-shift'
+  };
+}
+
+/**
+ * Scan the datapoint files of an execution for spikes, drops and level shifts
+ */
+export async function detectAnomalies(
+  executionPath: string,
+  options: Partial<AnomalyDetectionOptions> = {}
+): Promise<AnomalyReport> {
+  const settings: AnomalyDetectionOptions = { ...DEFAULT_ANOMALY_OPTIONS, ...options };
+  const dataFiles = await findDataFiles(executionPath);
+  const detected: Omit<Anomaly, 'id'>[] = [];
+  let seriesScanned = 0;
+
+  for (const dataFile of dataFiles) {
+    let datapoints: unknown;
+    try {
+      datapoints = await fs.readJson(dataFile.filePath);
+    } catch (error) {
+      console.warn(`⚠️  Could not read datapoints ${dataFile.filePath}: ${error}`);
+      continue;
+    }
+
+    for (const series of extractTimeSeries(datapoints)) {
+      if (series.points.length <= settings.minHistory) {
+        continue;
+      }
+      seriesScanned++;
+
+      const source = {
+        file: path.relative(executionPath, dataFile.filePath),
+        account: dataFile.account,
+        serviceRegion: dataFile.serviceRegion,
+        tool: dataFile.tool
+      };
+      const found = [...detectSpikes(series, settings), detectLevelShift(series, settings)]
+        .filter((anomaly): anomaly is Omit<Anomaly, 'id' | 'source'> => anomaly !== undefined);
+
+      detected.push(...found.map(anomaly => ({ source, ...anomaly })));
+    }
+  }
+
+  const severityRank: Record<AnomalySeverity, number> = { high: 0, medium: 1, low: 2 };
+  detected.sort((a, b) => severityRank[a.severity] - severityRank[b.severity] || Math.abs(b.score) - Math.abs(a.score));
+  // IDs follow the report order, so the most severe anomaly is A001
+  const anomalies: Anomaly[] = detected.map((anomaly, index) => ({ id: `A${String(index + 1).padStart(3, '0')}`, ...anomaly }));
+
+  return {
+    generatedAt: new Date().toISOString(),
+    options: settings,
+    filesScanned: dataFiles.length,
+    seriesScanned,
+    anomalies
+  };
+}
+
+/**
+ * Render detected anomalies as a markdown report section
+ */
+export function formatAnomaliesSection(report: AnomalyReport): string {
+  const header = `## Detected Anomalies
+
+Statistical scan of ${report.seriesScanned} time series in ${report.filesScanned} tool datapoint files (rolling and seasonal z-scores, level shifts).
+`;
+
+  if (report.anomalies.length === 0) {
+    return `${header}
+No anomalies detected.
+`;
+  }
+
+  const formatNumber = (value: number) => Number.isFinite(value) ? value.toLocaleString(undefined, { maximumFractionDigits: 2 }) : 'n/a';
+  const rows = report.anomalies.map(anomaly => {
+    const location = [anomaly.source.account, anomaly.source.serviceRegion, anomaly.source.tool].filter(Boolean).join(' / ');
+    const change = anomaly.changePercent !== undefined ? `${anomaly.changePercent >= 0 ? '+' : ''}${anomaly.changePercent.toFixed(1)}%` : 'n/a';
+    return `| ${anomaly.id} | ${anomaly.severity} | ${anomaly.type} | ${location} | ${anomaly.series} | ${anomaly.timestamp} | ${formatNumber(anomaly.value)} | ${formatNumber(anomaly.baseline)} | ${change} | ${formatNumber(Math.abs(anomaly.score))} |`;
+  });
+
+  return `${header}
+| ID | Severity | Type | Source | Series | At | Value | Baseline | Change | Score |
+|----|----------|------|--------|--------|----|-------|----------|--------|-------|
+${rows.join('\n')}
+
+Full details: [${ANOMALIES_FILE}](./${ANOMALIES_FILE})
+`;
+}
+
+/**
+ * Detect anomalies in an execution and write the anomalies file into it
+ */
+export async function writeAnomalyReport(
+  executionPath: string,
+  options: Partial<AnomalyDetectionOptions> = {}
+): Promise<AnomalyReport> {
+  const report = await detectAnomalies(executionPath, options);
+  const anomaliesPath = path.join(executionPath, ANOMALIES_FILE);
+  await fs.writeJson(anomaliesPath, report, { spaces: 2 });
+  console.log(`🔎 ${report.anomalies.length} anomalies detected in ${report.seriesScanned} series, saved to: ${anomaliesPath}`);
+  return report;
+}
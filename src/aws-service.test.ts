@@ -0,0 +1,110 @@
+import { jest, describe, it, expect } from '@jest/globals';
+import { resolveCostWindow, aggregateCombos, compareWindows, withKnownPeriods } from './aws-service.js';
+import { ServiceRegionCombo } from './types.js';
+
+const today = new Date(2026, 9, 18);
+
+function combo(service: string, period: string, cost: number): ServiceRegionCombo {
+  return { service, region: 'us-east-1', cost, currency: 'USD', period };
+}
+
+describe('resolveCostWindow', () => {
+  it('keeps the original last month query without options', () => {
+    expect(resolveCostWindow({}, today)).toEqual({ granularity: 'MONTHLY', lookBack: 1, rankBy: 'cost' });
+  });
+
+  it('compares the previous calendar month with the month before when ranking by growth', () => {
+    const window = resolveCostWindow({ rankBy: 'growth' }, today);
+
+    expect(window.current).toEqual({ start: '2026-09-01', end: '2026-10-01' });
+    expect(window.previous).toEqual({ start: '2026-08-01', end: '2026-09-01' });
+    expect(window.lookBack).toBe(3);
+  });
+
+  it('compares daily windows with the same number of days before them', () => {
+    const window = resolveCostWindow({ from: '2026-07-01', to: '2026-07-16', granularity: 'DAILY', rankBy: 'growth-pct' }, today);
+
+    expect(window.current).toEqual({ start: '2026-07-01', end: '2026-07-16' });
+    expect(window.previous).toEqual({ start: '2026-06-16', end: '2026-07-01' });
+  });
+
+  it('compares whole months with the same number of months before them', () => {
+    const window = resolveCostWindow({ from: '2026-07-01', to: '2026-10-01', rankBy: 'growth' }, today);
+
+    expect(window.current).toEqual({ start: '2026-07-01', end: '2026-10-01' });
+    expect(window.previous).toEqual({ start: '2026-04-01', end: '2026-07-01' });
+    expect(window.lookBack).toBe(7);
+  });
+
+  it('rejects comparing the month to date with monthly granularity', () => {
+    expect(() => resolveCostWindow({ from: '2026-09-01', rankBy: 'growth' }, today)).toThrow(/needs a --to date/);
+    expect(resolveCostWindow({ from: '2026-09-01', rankBy: 'cost' }, today).current).toEqual({ start: '2026-09-01', end: '2026-10-18' });
+
+    const daily = resolveCostWindow({ from: '2026-09-01', granularity: 'DAILY', rankBy: 'growth-pct' }, today);
+    expect(daily.current).toEqual({ start: '2026-09-01', end: '2026-10-18' });
+    expect(daily.previous).toEqual({ start: '2026-07-16', end: '2026-09-01' });
+  });
+
+  it('rejects monthly windows that cut a month', () => {
+    expect(() => resolveCostWindow({ from: '2026-09-15' }, today)).toThrow(/whole months/);
+    expect(() => resolveCostWindow({ from: '2026-08-01', to: '2026-09-15' }, today)).toThrow(/whole months/);
+    expect(resolveCostWindow({ from: '2026-09-15', granularity: 'DAILY' }, today).current).toEqual({ start: '2026-09-15', end: '2026-10-18' });
+  });
+
+  it('rejects invalid options', () => {
+    expect(() => resolveCostWindow({ from: '2026-13-01' }, today)).toThrow(/Invalid from date/);
+    expect(() => resolveCostWindow({ to: '2026-09-01' }, today)).toThrow(/requires a --from/);
+    expect(() => resolveCostWindow({ from: '2026-09-01', to: '2026-08-01' }, today)).toThrow(/must be after its start/);
+  });
+});
+
+describe('aggregateCombos', () => {
+  const window = { start: '2026-08-01', end: '2026-10-01' };
+
+  it('sums the costs of the periods in the window per service-region', () => {
+    const totals = aggregateCombos([
+      combo('AWS Lambda', '2026-07-01', 5),
+      combo('AWS Lambda', '2026-08-01', 10),
+      combo('AWS Lambda', '2026-09', 20),
+      combo('Amazon DynamoDB', '2026-09-01', 7),
+      combo('AWS Lambda', '2026-10-01', 40)
+    ], window);
+
+    expect(totals.get('AWS Lambda|us-east-1')).toMatchObject({ cost: 30, period: '2026-08-01 to 2026-10-01' });
+    expect(totals.get('Amazon DynamoDB|us-east-1')?.cost).toBe(7);
+  });
+
+  it('leaves combos with unrecognised periods out of every window', () => {
+    const totals = aggregateCombos([combo('AWS Lambda', 'Unknown', 10)], window);
+
+    expect(totals.size).toBe(0);
+  });
+});
+
+describe('withKnownPeriods', () => {
+  it('drops combos with unrecognised periods with a warning', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const combos = withKnownPeriods([combo('AWS Lambda', '2026-09-01', 10), combo('AWS Lambda', 'Unknown', 5)]);
+
+    expect(combos).toEqual([combo('AWS Lambda', '2026-09-01', 10)]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Skipping 1 cost datapoints with unrecognised periods: Unknown'));
+    warn.mockRestore();
+  });
+});
+
+describe('compareWindows', () => {
+  it('attaches the change versus the previous window, including new and stopped spend', () => {
+    const combos = compareWindows([
+      combo('AWS Lambda', '2026-08-01', 100),
+      combo('AWS Lambda', '2026-09-01', 150),
+      combo('Amazon DynamoDB', '2026-09-01', 20),
+      combo('Amazon EC2', '2026-08-01', 30)
+    ], { start: '2026-09-01', end: '2026-10-01' }, { start: '2026-08-01', end: '2026-09-01' });
+
+    const byService = Object.fromEntries(combos.map(c => [c.service, c]));
+    expect(byService['AWS Lambda']).toMatchObject({ cost: 150, previousCost: 100, costChange: 50, costChangePercent: 50 });
+    expect(byService['Amazon DynamoDB']).toMatchObject({ cost: 20, previousCost: 0, costChange: 20, costChangePercent: undefined });
+    expect(byService['Amazon EC2']).toMatchObject({ cost: 0, previousCost: 30, costChange: -30, costChangePercent: -100 });
+  });
+});
@@ -1,5 +1,27 @@
-import { invoke } from '@ddegtyarev/aws-tools';
-import { ServiceRegionCombo, AWSCredentials } from './types.js';
+import {
+  differenceInCalendarDays, differenceInCalendarMonths, format, isValid, parseISO, startOfMonth, subDays, subMonths
+} from 'date-fns';
+import { invokeTool } from './invocation.js';
+import {
+  ServiceRegionCombo, AWSCredentials, InvocationOptions, CostWindowOptions, CostGranularity, CostRankBy
+} from './types.js';
+
+const GRANULARITIES: CostGranularity[] = ['DAILY', 'MONTHLY'];
+const RANK_BY: CostRankBy[] = ['cost', 'growth', 'growth-pct'];
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+interface DateWindow {
+  start: string;
+  end: string;
+}
+
+interface ResolvedCostWindow {
+  granularity: CostGranularity;
+  lookBack: number;
+  rankBy: CostRankBy;
+  current?: DateWindow;
+  previous?: DateWindow;
+}
 
 /**
  * Parse raw cost data into ServiceRegionCombo objects
@@ -48,12 +70,208 @@ function parseCostData(costData: any): ServiceRegionCombo[] {
 }
 
 /**
- * Get top service-region combinations by cost
+ * Parse a YYYY-MM-DD date option
+ */
+function parseDateOption(name: string, value: string): Date {
+  const date = parseISO(value);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || !isValid(date)) {
+    throw new Error(`Invalid ${name} date: ${value}. Expected YYYY-MM-DD`);
+  }
+  return date;
+}
+
+/**
+ * Resolve the cost time window options into tool parameters and date windows.
+ * Without any options this is the original query: last month, monthly granularity.
+ * Windows are half-open: `start` is inclusive, `end` is exclusive.
+ */
+export function resolveCostWindow(options: CostWindowOptions = {}, today: Date = new Date()): ResolvedCostWindow {
+  const granularity = options.granularity || 'MONTHLY';
+  const rankBy = options.rankBy || 'cost';
+
+  if (!GRANULARITIES.includes(granularity)) {
+    throw new Error(`Invalid granularity: ${granularity}. Expected one of: ${GRANULARITIES.join(', ')}`);
+  }
+  if (!RANK_BY.includes(rankBy)) {
+    throw new Error(`Invalid rank-by mode: ${rankBy}. Expected one of: ${RANK_BY.join(', ')}`);
+  }
+  if (options.to && !options.from) {
+    throw new Error('A --to date requires a --from date');
+  }
+
+  if (!options.from && granularity === 'MONTHLY' && rankBy === 'cost') {
+    return { granularity, lookBack: 1, rankBy };
+  }
+
+  // Default window is the previous calendar month
+  const start = options.from ? parseDateOption('from', options.from) : startOfMonth(subMonths(today, 1));
+  const end = options.to ? parseDateOption('to', options.to) : (options.from ? today : startOfMonth(today));
+  const lengthInDays = differenceInCalendarDays(end, start);
+  if (lengthInDays <= 0) {
+    throw new Error(`The window end (${format(end, DATE_FORMAT)}) must be after its start (${format(start, DATE_FORMAT)})`);
+  }
+
+  // Monthly datapoints start on the 1st and cover whole months, so a window cutting a month
+  // would drop or overcount that month. A window up to today ends in the current month to date.
+  if (granularity === 'MONTHLY' && (start.getDate() !== 1 || (options.to && end.getDate() !== 1))) {
+    throw new Error(
+      `Monthly granularity needs whole months: --from and --to must be the 1st of a month (got ${format(start, DATE_FORMAT)} to ${format(end, DATE_FORMAT)}). ` +
+      'Use --granularity DAILY for other windows'
+    );
+  }
+  // The current month to date cannot be compared with whole months of equal length
+  if (granularity === 'MONTHLY' && rankBy !== 'cost' && options.from && !options.to) {
+    throw new Error(
+      'Comparing a monthly window with the previous one needs a --to date on the 1st of a month, as the month to date has no equal-length previous window. ' +
+      'Use --granularity DAILY to compare the window up to today with the same number of days before it'
+    );
+  }
+
+  const current = { start: format(start, DATE_FORMAT), end: format(end, DATE_FORMAT) };
+  let earliest = start;
+  let previous: DateWindow | undefined;
+
+  if (rankBy !== 'cost') {
+    // Month-aligned windows compare with the same number of whole months, others with the same number of days
+    const monthAligned = start.getDate() === 1 && end.getDate() === 1;
+    const previousStart = monthAligned
+      ? subMonths(start, differenceInCalendarMonths(end, start))
+      : subDays(start, lengthInDays);
+    previous = { start: format(previousStart, DATE_FORMAT), end: current.start };
+    earliest = previousStart;
+  }
+
+  const lookBack = granularity === 'MONTHLY'
+    ? differenceInCalendarMonths(today, earliest) + 1
+    : differenceInCalendarDays(today, earliest) + 1;
+
+  return { granularity, lookBack, rankBy, current, previous };
+}
+
+/**
+ * Start date of a datapoint period as YYYY-MM-DD, if it can be determined
+ */
+function periodStart(period: string): string | undefined {
+  const match = String(period).match(/^(\d{4}-\d{2})(-\d{2})?/);
+  if (!match) {
+    return undefined;
+  }
+  return match[2] ? `${match[1]}${match[2]}` : format(startOfMonth(parseISO(`${match[1]}-01`)), DATE_FORMAT);
+}
+
+/**
+ * Drop the combos whose period cannot be placed in a window, with a warning, as they
+ * would otherwise count in both the current and the previous window
+ */
+export function withKnownPeriods(combos: ServiceRegionCombo[]): ServiceRegionCombo[] {
+  const known = combos.filter(combo => periodStart(combo.period) !== undefined);
+  if (known.length < combos.length) {
+    const skipped = combos.filter(combo => !known.includes(combo));
+    const periods = [...new Set(skipped.map(combo => combo.period))].join(', ');
+    console.warn(`⚠️  Skipping ${skipped.length} cost datapoints with unrecognised periods: ${periods}`);
+  }
+  return known;
+}
+
+/**
+ * Sum the costs of combos whose period falls into the window, per service-region.
+ * Combos with unrecognised periods are in no window.
+ */
+export function aggregateCombos(combos: ServiceRegionCombo[], window: DateWindow): Map<string, ServiceRegionCombo> {
+  const totals = new Map<string, ServiceRegionCombo>();
+
+  for (const combo of combos) {
+    const start = periodStart(combo.period);
+    if (!start || start < window.start || start >= window.end) {
+      continue;
+    }
+
+    const key = `${combo.service}|${combo.region}`;
+    const total = totals.get(key);
+    if (total) {
+      total.cost += combo.cost;
+    } else {
+      totals.set(key, { ...combo, period: `${window.start} to ${window.end}` });
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Compare the current window with the previous one and attach the change to each combo
+ */
+export function compareWindows(
+  combos: ServiceRegionCombo[],
+  current: DateWindow,
+  previous: DateWindow
+): ServiceRegionCombo[] {
+  const currentTotals = aggregateCombos(combos, current);
+  const previousTotals = aggregateCombos(combos, previous);
+  const keys = new Set([...currentTotals.keys(), ...previousTotals.keys()]);
+
+  return [...keys].map(key => {
+    const currentCombo = currentTotals.get(key);
+    const previousCombo = previousTotals.get(key);
+    const base = currentCombo || { ...previousCombo as ServiceRegionCombo, cost: 0, period: `${current.start} to ${current.end}` };
+    const previousCost = previousCombo?.cost || 0;
+    const costChange = base.cost - previousCost;
+
+    return {
+      ...base,
+      previousCost,
+      costChange,
+      costChangePercent: previousCost > 0 ? costChange / previousCost * 100 : undefined
+    };
+  });
+}
+
+/**
+ * Sort combos according to the rank-by mode. For growth-pct, combos with no previous
+ * cost (new spend) rank above all others.
+ */
+function rankCombos(combos: ServiceRegionCombo[], rankBy: CostRankBy): ServiceRegionCombo[] {
+  switch (rankBy) {
+    case 'growth':
+      return combos.sort((a, b) => (b.costChange || 0) - (a.costChange || 0));
+    case 'growth-pct':
+      return combos.sort((a, b) =>
+        (b.costChangePercent ?? (b.cost > 0 ? Infinity : 0)) - (a.costChangePercent ?? (a.cost > 0 ? Infinity : 0))
+        || (b.costChange || 0) - (a.costChange || 0)
+      );
+    default:
+      return combos.sort((a, b) => b.cost - a.cost);
+  }
+}
+
+/**
+ * Describe a combo's change versus the previous window, e.g. " (+$12.00, +35.2% vs previous window)"
+ */
+export function describeCostChange(combo: ServiceRegionCombo): string {
+  if (combo.costChange === undefined) {
+    return '';
+  }
+  const sign = combo.costChange >= 0 ? '+' : '-';
+  const percent = combo.costChangePercent === undefined
+    ? 'new spend'
+    : `${sign}${Math.abs(combo.costChangePercent).toFixed(1)}%`;
+  return ` (${sign}$${Math.abs(combo.costChange).toFixed(2)}, ${percent} vs previous window)`;
+}
+
+/**
+ * Get top service-region combinations by cost, or by cost growth versus the previous equivalent window
  */
 export async function getTopServiceRegionCombos(
   topN: number = 10, 
-  awsCredentials: AWSCredentials
+  awsCredentials: AWSCredentials,
+  invocationOptions: InvocationOptions = {},
+  costWindow: CostWindowOptions = {}
 ): Promise<ServiceRegionCombo[]> {
+  const window = resolveCostWindow(costWindow);
+  const { trace, spendScope } = invocationOptions;
+  const startedAt = Date.now();
+  let inputParams: Record<string, unknown> | undefined;
+
   try {
     console.log('Fetching AWS cost per service per region data...');
     
@@ -71,29 +289,53 @@ export async function getTopServiceRegionCombos(
       hasSessionToken: !!awsCredentials.sessionToken
     });
 
-    const inputParams = {
-      granularity: 'MONTHLY',
-      lookBack: 1,
+    inputParams = {
+      granularity: window.granularity,
+      lookBack: window.lookBack,
       groupBy: ['SERVICE']
     };
 
     console.log('Calling awsCostPerServicePerRegion tool...', JSON.stringify(inputParams, null, 2));
     // Call the awsCostPerServicePerRegion tool
-    const costData = await invoke('awsCostPerServicePerRegion', inputParams, {
+    const costData = await invokeTool('awsCostPerServicePerRegion', inputParams, {
       credentials: credentials,
       region: awsCredentials.region || 'us-east-1'
-    });
+    }, invocationOptions);
 
     // Parse and return top combinations
-    const serviceRegionCombos = parseCostData(costData);
+    let serviceRegionCombos = parseCostData(costData);
+
+    if (window.current && window.previous) {
+      serviceRegionCombos = compareWindows(withKnownPeriods(serviceRegionCombos), window.current, window.previous);
+    } else if (window.current) {
+      serviceRegionCombos = [...aggregateCombos(withKnownPeriods(serviceRegionCombos), window.current).values()];
+    }
     
-    // Sort by cost (descending) and return top N
-    return serviceRegionCombos
-      .sort((a, b) => b.cost - a.cost)
+    // Rank (by cost, descending, unless a growth mode is selected) and return top N
+    const topCombos = rankCombos(serviceRegionCombos, window.rankBy)
       .slice(0, topN);
+    trace?.record({
+      type: 'tool-call',
+      ...spendScope,
+      toolName: 'awsCostPerServicePerRegion',
+      params: inputParams,
+      durationMs: Date.now() - startedAt,
+      status: 'ok',
+      summary: `${serviceRegionCombos.length} service-region combinations, top ${topCombos.length} selected`
+    });
+    return topCombos;
   } catch (error) {
     console.error('Error fetching cost data:', error);
     const errorMessage = error instanceof Error ? error.message : String(error);
+    trace?.record({
+      type: 'tool-call',
+      ...spendScope,
+      toolName: 'awsCostPerServicePerRegion',
+      params: inputParams,
+      durationMs: Date.now() - startedAt,
+      status: 'failed',
+      error: errorMessage
+    });
     throw new Error(`Failed to fetch service-region combinations: ${errorMessage}`);
   }
 }
\ No newline at end of file
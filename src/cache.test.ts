@@ -0,0 +1,119 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+
+const invoke = jest.fn(async (_toolName: string, params: unknown) => ({ summary: 'usage', params }));
+const getCallerIdentity = jest.fn(async (): Promise<{ Account?: string }> => ({ Account: '123456789012' }));
+
+jest.unstable_mockModule('@ddegtyarev/aws-tools', () => ({ invoke, tools: [] }));
+jest.unstable_mockModule('@aws-sdk/client-sts', () => ({
+  STSClient: class {
+    send() {
+      return getCallerIdentity();
+    }
+  },
+  GetCallerIdentityCommand: class {}
+}));
+
+const { cacheKey, createToolCache, clearCache, listCacheEntries, parseDuration } = await import('./cache.js');
+const { invokeTool } = await import('./invocation.js');
+
+function credentials(accessKeyId: string) {
+  return { credentials: { accessKeyId, secretAccessKey: 'secret' }, region: 'us-east-1' };
+}
+
+describe('parseDuration', () => {
+  it('parses seconds and unit suffixes', () => {
+    expect(parseDuration('90')).toBe(90);
+    expect(parseDuration('30m')).toBe(1800);
+    expect(parseDuration('6h')).toBe(21600);
+    expect(parseDuration('1d')).toBe(86400);
+    expect(() => parseDuration('soon')).toThrow(/Invalid duration/);
+  });
+});
+
+describe('cacheKey', () => {
+  it('does not depend on the order of param keys', () => {
+    expect(cacheKey('awsGetCostAndUsage', { lookBack: 3, granularity: 'DAILY' }, '123456789012', 'us-east-1'))
+      .toBe(cacheKey('awsGetCostAndUsage', { granularity: 'DAILY', lookBack: 3 }, '123456789012', 'us-east-1'));
+  });
+
+  it('differs per tool, params, account and region', () => {
+    const key = cacheKey('awsGetCostAndUsage', { lookBack: 3 }, '123456789012', 'us-east-1');
+
+    expect(cacheKey('awsCloudWatchGetMetrics', { lookBack: 3 }, '123456789012', 'us-east-1')).not.toBe(key);
+    expect(cacheKey('awsGetCostAndUsage', { lookBack: 6 }, '123456789012', 'us-east-1')).not.toBe(key);
+    expect(cacheKey('awsGetCostAndUsage', { lookBack: 3 }, '210987654321', 'us-east-1')).not.toBe(key);
+    expect(cacheKey('awsGetCostAndUsage', { lookBack: 3 }, '123456789012', 'eu-west-1')).not.toBe(key);
+  });
+});
+
+describe('tool cache', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'cache-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    invoke.mockClear();
+    getCallerIdentity.mockClear();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(directory);
+  });
+
+  it('serves stored results until they expire', async () => {
+    const cache = createToolCache({ directory, ttlSeconds: 3600 });
+    await cache.set('awsGetCostAndUsage', { lookBack: 3 }, '123456789012', 'us-east-1', { summary: 'usage' });
+
+    expect(await cache.get('awsGetCostAndUsage', { lookBack: 3 }, '123456789012', 'us-east-1')).toEqual({ summary: 'usage' });
+    expect(await cache.get('awsGetCostAndUsage', { lookBack: 6 }, '123456789012', 'us-east-1')).toBeUndefined();
+
+    const expiredCache = createToolCache({ directory, ttlSeconds: 0 });
+    expect(await expiredCache.get('awsGetCostAndUsage', { lookBack: 3 }, '123456789012', 'us-east-1')).toBeUndefined();
+
+    expect(cache.stats()).toEqual({ hits: 1, misses: 1, expired: 0, writes: 1 });
+    expect(expiredCache.stats()).toEqual({ hits: 0, misses: 1, expired: 1, writes: 0 });
+  });
+
+  it('shares entries between access keys of the same account', async () => {
+    const cache = createToolCache({ directory, ttlSeconds: 3600 });
+
+    await invokeTool('awsGetCostAndUsage', { lookBack: 3 }, credentials('ASIAFIRSTSESSION'), { cache });
+    await invokeTool('awsGetCostAndUsage', { lookBack: 3 }, credentials('ASIASECONDSESSION'), { cache });
+
+    expect(invoke).toHaveBeenCalledTimes(1);
+    expect(cache.stats().hits).toBe(1);
+    expect((await listCacheEntries(directory)).map(entry => entry.account)).toEqual(['123456789012']);
+  });
+
+  it('caches per access key when STS cannot tell the account', async () => {
+    getCallerIdentity.mockRejectedValue(new Error('AccessDenied'));
+    const cache = createToolCache({ directory, ttlSeconds: 3600 });
+
+    await invokeTool('awsGetCostAndUsage', { lookBack: 3 }, credentials('AKIAUNKNOWNFIRST'), { cache });
+    await invokeTool('awsGetCostAndUsage', { lookBack: 3 }, credentials('AKIAUNKNOWNSECOND'), { cache });
+
+    expect(invoke).toHaveBeenCalledTimes(2);
+    const accounts = (await listCacheEntries(directory)).map(entry => entry.account);
+    expect(accounts).toHaveLength(2);
+    expect(accounts.every(account => account.startsWith('key-') && !account.includes('AKIA'))).toBe(true);
+  });
+
+  it('clears unreadable entries by their file name', async () => {
+    const cache = createToolCache({ directory, ttlSeconds: 3600 });
+    await cache.set('awsGetCostAndUsage', { lookBack: 3 }, '123456789012', 'us-east-1', { summary: 'usage' });
+    await fs.writeFile(path.join(directory, 'awsCloudWatchGetMetrics-0123456789abcdef.json'), '{ truncated');
+
+    expect(await clearCache(directory, { expiredOnly: true })).toBe(1);
+    expect(await fs.pathExists(path.join(directory, 'awsCloudWatchGetMetrics-0123456789abcdef.json'))).toBe(false);
+
+    await fs.writeFile(path.join(directory, 'awsCloudWatchGetMetrics-0123456789abcdef.json'), '{ truncated');
+    expect(await clearCache(directory, { toolName: 'awsGetCostAndUsage' })).toBe(1);
+    expect(await clearCache(directory, { toolName: 'awsCloudWatchGetMetrics' })).toBe(1);
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+});
@@ -0,0 +1,167 @@
+import fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { stableStringify } from './invocation.js';
+import { CacheConfig, CacheEntry, CacheStats, ToolCache } from './types.js';
+
+export const DEFAULT_CACHE_DIR = path.join(os.homedir(), '.aws-cost-analyzer', 'cache');
+
+/** Cost Explorer data is refreshed a few times a day, so an hour old result is still current */
+export const DEFAULT_CACHE_TTL_SECONDS = 3600;
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+
+/**
+ * Parse a duration such as `90`, `30m`, `6h` or `1d` into seconds
+ */
+export function parseDuration(value: string): number {
+  const match = /^(\d+)\s*([smhd])?$/i.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid duration "${value}", expected seconds or a number with s, m, h or d`);
+  }
+  return parseInt(match[1], 10) * DURATION_UNITS[(match[2] || 's').toLowerCase()];
+}
+
+/**
+ * Build the content address of a tool invocation: tool name, normalised params, account and region
+ */
+export function cacheKey(toolName: string, params: unknown, account: string, region: string): string {
+  return createHash('sha256')
+    .update(stableStringify({ toolName, params, account, region }))
+    .digest('hex')
+    .substring(0, 32);
+}
+
+function entryPath(directory: string, toolName: string, key: string): string {
+  return path.join(directory, `${toolName}-${key}.json`);
+}
+
+/**
+ * Create a cache of tool results in a directory shared across executions.
+ * Counts hits, misses, expired entries and writes for the stats printed after a run.
+ */
+export function createToolCache(config: CacheConfig): ToolCache {
+  const stats: CacheStats = { hits: 0, misses: 0, expired: 0, writes: 0 };
+
+  return {
+    async get(toolName, params, account, region) {
+      const key = cacheKey(toolName, params, account, region);
+      const filePath = entryPath(config.directory, toolName, key);
+
+      const entry: CacheEntry | undefined = await fs.readJson(filePath).catch(() => undefined);
+      if (!entry) {
+        stats.misses++;
+        return undefined;
+      }
+      // The TTL of this run applies too, so a shorter TTL never serves older results
+      const now = Date.now();
+      if (new Date(entry.expiresAt).getTime() <= now || new Date(entry.cachedAt).getTime() + config.ttlSeconds * 1000 <= now) {
+        stats.expired++;
+        stats.misses++;
+        return undefined;
+      }
+
+      stats.hits++;
+      console.log(`🗃️  Cache hit for ${toolName} (cached ${entry.cachedAt})`);
+      return entry.result;
+    },
+
+    async set(toolName, params, account, region, result) {
+      const key = cacheKey(toolName, params, account, region);
+      const cachedAt = new Date();
+      const entry: CacheEntry = {
+        key,
+        toolName,
+        params,
+        account,
+        region,
+        result,
+        cachedAt: cachedAt.toISOString(),
+        expiresAt: new Date(cachedAt.getTime() + config.ttlSeconds * 1000).toISOString()
+      };
+
+      try {
+        await fs.ensureDir(config.directory);
+        await fs.writeJson(entryPath(config.directory, toolName, key), entry);
+        stats.writes++;
+      } catch (error) {
+        // A cache that cannot be written only costs the next run a call
+        console.warn(`⚠️  Failed to cache ${toolName} result: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    },
+
+    stats: () => ({ ...stats })
+  };
+}
+
+/**
+ * List the entries of a cache directory, oldest first
+ */
+export async function listCacheEntries(directory: string = DEFAULT_CACHE_DIR): Promise<(Omit<CacheEntry, 'result'> & { size: number })[]> {
+  if (!await fs.pathExists(directory)) {
+    return [];
+  }
+
+  const entries: (Omit<CacheEntry, 'result'> & { size: number })[] = [];
+  const files = (await fs.readdir(directory)).filter(file => file.endsWith('.json'));
+  for (const file of files) {
+    const filePath = path.join(directory, file);
+    try {
+      const entry: CacheEntry = await fs.readJson(filePath);
+      entries.push({
+        key: entry.key,
+        toolName: entry.toolName,
+        params: entry.params,
+        account: entry.account,
+        region: entry.region,
+        cachedAt: entry.cachedAt,
+        expiresAt: entry.expiresAt,
+        size: (await fs.stat(filePath)).size
+      });
+    } catch {
+      console.warn(`⚠️  Skipping unreadable cache entry: ${filePath}`);
+    }
+  }
+
+  return entries.sort((a, b) => a.cachedAt.localeCompare(b.cachedAt));
+}
+
+/**
+ * Remove cache entries, all of them or only the expired ones or those of one tool.
+ * Unreadable entries are never served, so they count as expired and are matched to a
+ * tool by their file name. Returns the number of entries removed.
+ */
+export async function clearCache(
+  directory: string = DEFAULT_CACHE_DIR,
+  options: { expiredOnly?: boolean; toolName?: string } = {}
+): Promise<number> {
+  if (!await fs.pathExists(directory)) {
+    return 0;
+  }
+
+  const now = Date.now();
+  let removed = 0;
+  const files = (await fs.readdir(directory)).filter(file => file.endsWith('.json'));
+  for (const file of files) {
+    const filePath = path.join(directory, file);
+    const entry: CacheEntry | undefined = await fs.readJson(filePath).catch(() => undefined);
+    const toolName = entry?.toolName ?? file.substring(0, file.lastIndexOf('-'));
+    const expired = !entry || new Date(entry.expiresAt).getTime() <= now;
+
+    if ((!options.expiredOnly || expired) && (!options.toolName || toolName === options.toolName)) {
+      await fs.remove(filePath);
+      removed++;
+    }
+  }
+  return removed;
+}
+
+/**
+ * Describe cache stats in one line
+ */
+export function formatCacheStats(stats: CacheStats): string {
+  const lookups = stats.hits + stats.misses;
+  const hitRate = lookups > 0 ? Math.round((stats.hits / lookups) * 100) : 0;
+  return `${stats.hits} hits, ${stats.misses} misses (${stats.expired} expired), ${stats.writes} writes, ${hitRate}% hit rate`;
+}
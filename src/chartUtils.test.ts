@@ -0,0 +1,181 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import type { ChartFallback, ChartFormat } from './types.js';
+
+const PNG_BYTES = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+const SVG_CHART = '<svg xmlns="http://www.w3.org/2000/svg"></svg>';
+
+// The canvas renderer needs native bindings, so the Vega view is replaced by one that
+// returns fixed renderings
+const toCanvas = jest.fn(async () => ({ toBuffer: () => PNG_BYTES }));
+const toSVG = jest.fn(async () => SVG_CHART);
+jest.unstable_mockModule('vega', () => ({
+  parse: (spec: unknown) => spec,
+  View: class {
+    toCanvas = toCanvas;
+    toSVG = toSVG;
+  }
+}));
+jest.unstable_mockModule('vega-lite', () => ({
+  compile: (spec: unknown) => ({ spec })
+}));
+
+const invoke = jest.fn<(toolName: string, params: unknown) => Promise<unknown>>();
+jest.unstable_mockModule('@ddegtyarev/aws-tools', () => ({
+  invoke,
+  tools: [{
+    name: 'awsGetCostAndUsage',
+    description: 'Cost and usage of a service',
+    inputSchema: { type: 'object', properties: { lookBack: { type: 'number' } } }
+  }]
+}));
+
+const { renderChart, validateChartSpec, formatDatapointsTable } = await import('./chartUtils.js');
+const { createTools } = await import('./tools.js');
+const { createProviderModel } = await import('./providers.js');
+
+const datapoints = [
+  { timestamp: '2026-09-01', dimensions: { 'USE1-Lambda-GB-Second': 1200, 'USE1-Request': 30 } },
+  { timestamp: '2026-09-02', dimensions: { 'USE1-Lambda-GB-Second': 1500.5, 'USE1-Request': 35 } }
+];
+
+const lineChart = {
+  mark: 'line',
+  data: { values: [{ date: '2026-09-01', cost: 12.5 }, { date: '2026-09-02', cost: 14 }] },
+  encoding: {
+    x: { field: 'date', type: 'temporal' },
+    y: { field: 'cost', type: 'quantitative' }
+  }
+};
+
+describe('validateChartSpec', () => {
+  it('accepts single and layered specs whose fields are in the data', () => {
+    expect(validateChartSpec(lineChart)).toEqual([]);
+    expect(validateChartSpec({
+      data: lineChart.data,
+      encoding: { x: lineChart.encoding.x },
+      layer: [{ mark: 'line', encoding: { y: lineChart.encoding.y } }, { mark: 'point' }]
+    })).toEqual([]);
+  });
+
+  it('reports missing marks and data, missing fields and values of the wrong type', () => {
+    expect(validateChartSpec({
+      data: { values: [{ date: 'yesterday', cost: 'n/a' }, { date: '2026-09-02', cost: 14 }] },
+      encoding: {
+        x: { field: 'date', type: 'temporal' },
+        y: { field: 'cost', type: 'quantitative' },
+        color: { field: 'service', type: 'nominal' }
+      }
+    })).toEqual([
+      'missing mark',
+      'encoding.x.field "date" is temporal but has 1 values that are not dates, e.g. "yesterday"',
+      'encoding.y.field "cost" is quantitative but has 1 non-numeric values, e.g. "n/a"',
+      'encoding.color.field "service" is missing from the data'
+    ]);
+    expect(validateChartSpec({ layer: [{ mark: 'bar' }, { mark: 'line', data: { values: [] } }] }))
+      .toEqual(['layer[0]: missing data', 'layer[1]: data.values is empty']);
+    expect(validateChartSpec('line chart')).toEqual(['The chart specification must be an object']);
+  });
+});
+
+describe('formatDatapointsTable', () => {
+  it('pivots time series into a row per time and a column per series', () => {
+    expect(formatDatapointsTable(datapoints)).toBe([
+      '| Time | USE1-Lambda-GB-Second | USE1-Request |',
+      '|---|---|---|',
+      '| 2026-09-01 | 1,200 | 30 |',
+      '| 2026-09-02 | 1,500.5 | 35 |'
+    ].join('\n'));
+  });
+
+  it('lists other datapoints with their fields as columns', () => {
+    expect(formatDatapointsTable([{ name: 'a|b', tags: { team: 'data' } }, { name: 'c' }])).toBe([
+      '| name | tags |',
+      '|---|---|',
+      '| a\\|b | {"team":"data"} |',
+      '| c |  |'
+    ].join('\n'));
+    expect(formatDatapointsTable([])).toBe('_No datapoints were returned._');
+  });
+});
+
+describe('renderChart', () => {
+  let outputDir: string;
+
+  beforeEach(async () => {
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'chart-'));
+    toCanvas.mockClear();
+    toSVG.mockClear();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(outputDir);
+  });
+
+  const filesOf = async (format: ChartFormat) => {
+    const chart = await renderChart(lineChart, `cost-${format}`, outputDir, format);
+    return {
+      embed: path.basename(chart.embedPath),
+      files: (await fs.readdir(outputDir)).filter(file => file.startsWith(`cost-${format}.`)).sort()
+    };
+  };
+
+  it('writes the files of the chart format next to the specification', async () => {
+    expect(await filesOf('png')).toEqual({ embed: 'cost-png.png', files: ['cost-png.png', 'cost-png.vl.json'] });
+    expect(await filesOf('svg')).toEqual({ embed: 'cost-svg.svg', files: ['cost-svg.svg', 'cost-svg.vl.json'] });
+    expect(await filesOf('both')).toEqual({ embed: 'cost-both.svg', files: ['cost-both.png', 'cost-both.svg', 'cost-both.vl.json'] });
+    expect(await filesOf('interactive')).toEqual({ embed: 'cost-interactive.png', files: ['cost-interactive.png', 'cost-interactive.vl.json'] });
+    expect(toSVG).toHaveBeenCalledTimes(2);
+  });
+
+  it('always returns a PNG rendering for chart analysis', async () => {
+    const chart = await renderChart(lineChart, 'cost', outputDir, 'svg');
+
+    expect(chart.png).toEqual(PNG_BYTES);
+    expect(chart.pngPath).toBeUndefined();
+    expect(await fs.readJson(chart.specPath)).toEqual(lineChart);
+    expect(await fs.readFile(chart.embedPath, 'utf8')).toBe(SVG_CHART);
+  });
+});
+
+describe('chart fallback', () => {
+  let outputDir: string;
+
+  beforeEach(async () => {
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'chart-fallback-'));
+    toCanvas.mockClear();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(outputDir);
+  });
+
+  it('replaces an invalid chart with a table of the datapoints', async () => {
+    invoke.mockResolvedValue({
+      summary: 'GB-seconds per day',
+      datapoints,
+      chart: { ...lineChart, encoding: { x: { field: 'day', type: 'temporal' }, y: lineChart.encoding.y } }
+    });
+    const scriptPath = path.join(outputDir, 'mock-script.json');
+    await fs.writeJson(scriptPath, ['The chart shows steady usage.']);
+    const model = createProviderModel({ provider: 'mock', scriptPath });
+    const chartFallbacks: ChartFallback[] = [];
+    const tools = createTools(['awsGetCostAndUsage'], { accessKeyId: 'id', secretAccessKey: 'secret' }, 'us-east-1', outputDir, model, 'execution', 'AWS Lambda', { chartFallbacks });
+
+    const result = await tools.awsGetCostAndUsage.execute?.({ lookBack: 3 }, { toolCallId: 'call-1', messages: [] });
+
+    const problems = ['encoding.x.field "day" is missing from the data'];
+    expect(result).toMatchObject({ summary: 'GB-seconds per day', chartProblems: problems, dataTable: formatDatapointsTable(datapoints) });
+    expect(result).not.toHaveProperty('chartPath');
+    expect(toCanvas).not.toHaveBeenCalled();
+    expect(await fs.readFile(result.dataTablePath, 'utf8')).toBe(`# awsGetCostAndUsage\n\n${formatDatapointsTable(datapoints)}\n`);
+    expect(chartFallbacks).toEqual([expect.objectContaining({ toolName: 'awsGetCostAndUsage', problems, tablePath: result.dataTablePath })]);
+  });
+});
@@ -2,6 +2,8 @@
 
 import fs from 'fs';
 import * as path from 'path';
+import { ChartFormat, RenderedChart } from './types.js';
+import { extractTimeSeries } from './anomalies.js';
 
 // Note: These imports are optional and only needed if chart generation is used
 // They're not included in the main dependencies to keep the package lightweight
@@ -156,4 +158,231 @@ export async function generateSVGChart(chartSpec: any, filename: string, outputD
     console.log('Chart specification:', JSON.stringify(chartSpec, null, 2));
     throw error;
   }
-} 
\ No newline at end of file
+}
+
+/** Supported chart output formats */
+export const CHART_FORMATS: ChartFormat[] = ['png', 'svg', 'both', 'interactive'];
+
+/**
+ * Renders a Vega-Lite chart in the requested output format and saves the original
+ * specification next to it as `<filename>.vl.json`
+ * @param chartSpec - The Vega-Lite chart specification
+ * @param filename - Base filename without extension
+ * @param outputDir - Directory to save the files (default: current directory)
+ * @param format - Chart output format (default: png)
+ * @returns Paths of the written files, the file to embed in markdown and a PNG rendering
+ */
+export async function renderChart(
+  chartSpec: unknown,
+  filename: string,
+  outputDir: string = '.',
+  format: ChartFormat = 'png'
+): Promise<RenderedChart> {
+  await loadVegaLibraries();
+
+  try {
+    // Compile Vega-Lite to Vega specification
+    const vegaSpec = vegaLite.compile(chartSpec).spec;
+
+    // Ensure output directory exists
+    if (!fs.existsSync(outputDir)) {
+      fs.mkdirSync(outputDir, { recursive: true });
+    }
+
+    const specPath = path.join(outputDir, `${filename}.vl.json`);
+    fs.writeFileSync(specPath, JSON.stringify(chartSpec, null, 2));
+
+    // The PNG rendering is always needed for chart analysis, even when not saved
+    const canvasView = new vega.View(vega.parse(vegaSpec), { renderer: 'none' });
+    const canvas = await canvasView.toCanvas();
+    const png: Buffer = canvas.toBuffer('image/png');
+
+    let pngPath: string | undefined;
+    if (format !== 'svg') {
+      pngPath = path.join(outputDir, `${filename}.png`);
+      fs.writeFileSync(pngPath, png);
+      console.log(`PNG file created successfully at ${pngPath}`);
+    }
+
+    let svgPath: string | undefined;
+    if (format === 'svg' || format === 'both') {
+      const view = new vega.View(vega.parse(vegaSpec), { renderer: 'none' });
+      svgPath = path.join(outputDir, `${filename}.svg`);
+      fs.writeFileSync(svgPath, await view.toSVG());
+      console.log(`SVG file created successfully at ${svgPath}`);
+    }
+
+    return { specPath, pngPath, svgPath, embedPath: (svgPath || pngPath) as string, png };
+  } catch (error) {
+    console.error('Error rendering chart:', error);
+    console.log('Chart specification:', JSON.stringify(chartSpec, null, 2));
+    throw error;
+  }
+}
+
+/** Encoding channels checked against the chart data */
+const FIELD_CHANNELS = ['x', 'y', 'x2', 'y2', 'color', 'fill', 'stroke', 'size', 'shape', 'opacity', 'theta', 'radius', 'text', 'detail', 'row', 'column', 'facet'];
+
+const MAX_TABLE_ROWS = 100;
+const MAX_TABLE_COLUMNS = 12;
+
+/** The parts of a Vega-Lite specification checked before rendering */
+interface ChartSpecUnit {
+  mark?: unknown;
+  data?: { values?: unknown };
+  encoding?: Record<string, { field?: unknown; type?: unknown; aggregate?: unknown } | undefined>;
+  layer?: (ChartSpecUnit | undefined)[];
+}
+
+function isNumeric(value: unknown): boolean {
+  return typeof value === 'number' ? Number.isFinite(value) : typeof value === 'string' && /^\s*-?\d+(\.\d+)?([eE][-+]?\d+)?\s*$/.test(value);
+}
+
+function fieldValue(row: unknown, field: string): unknown {
+  // Vega-Lite reads dotted field names as nested paths unless the dot is escaped
+  return field.split(/(?<!\\)\./).reduce<unknown>(
+    (value, key) => value && typeof value === 'object' ? (value as Record<string, unknown>)[key.replace(/\\\./g, '.')] : undefined,
+    row
+  );
+}
+
+/**
+ * Validate a Vega-Lite chart specification before rendering: a mark, inline data that is
+ * not empty, encoded fields that exist in the data and numeric values for quantitative fields.
+ * Returns a list of problems, empty when the spec looks renderable.
+ */
+export function validateChartSpec(chartSpec: unknown): string[] {
+  if (!chartSpec || typeof chartSpec !== 'object' || Array.isArray(chartSpec)) {
+    return ['The chart specification must be an object'];
+  }
+
+  const problems: string[] = [];
+  const units: { where: string; spec?: ChartSpecUnit; data: ChartSpecUnit['data']; encoding: ChartSpecUnit['encoding'] }[] = [];
+  const spec = chartSpec as ChartSpecUnit & Record<string, unknown>;
+  if (Array.isArray(spec.layer)) {
+    if (spec.layer.length === 0) {
+      problems.push('layer is empty');
+    }
+    const { data, encoding } = spec;
+    spec.layer.forEach((layer, index) => units.push({
+      where: `layer[${index}]`,
+      spec: layer,
+      data: layer?.data || data,
+      encoding: { ...encoding, ...layer?.encoding }
+    }));
+  } else if (['hconcat', 'vconcat', 'concat', 'repeat', 'spec'].some(key => spec[key] !== undefined)) {
+    // Composite views are left to the Vega-Lite compiler
+    return problems;
+  } else {
+    units.push({ where: '', spec, data: spec.data, encoding: spec.encoding });
+  }
+
+  for (const { where, spec: unit, data, encoding } of units) {
+    const at = where ? `${where}: ` : '';
+    if (!unit?.mark) {
+      problems.push(`${at}missing mark`);
+    }
+    if (!data) {
+      problems.push(`${at}missing data`);
+      continue;
+    }
+    // Data loaded from a URL or a named source cannot be checked here
+    if (!Array.isArray(data.values)) {
+      continue;
+    }
+    const rows: unknown[] = data.values;
+    if (rows.length === 0) {
+      problems.push(`${at}data.values is empty`);
+      continue;
+    }
+
+    for (const channel of FIELD_CHANNELS) {
+      const definition = encoding?.[channel];
+      if (!definition || typeof definition.field !== 'string') {
+        continue;
+      }
+      const field = definition.field;
+      const values = rows.map(row => fieldValue(row, field)).filter(value => value !== undefined && value !== null);
+      if (values.length === 0) {
+        problems.push(`${at}encoding.${channel}.field "${definition.field}" is missing from the data`);
+      } else if (definition.type === 'quantitative' && !definition.aggregate) {
+        const nonNumeric = values.filter(value => !isNumeric(value));
+        if (nonNumeric.length > 0) {
+          problems.push(`${at}encoding.${channel}.field "${definition.field}" is quantitative but has ${nonNumeric.length} non-numeric values, e.g. ${JSON.stringify(nonNumeric[0])}`);
+        }
+      } else if (definition.type === 'temporal') {
+        const invalid = values.filter(value => typeof value !== 'number' && isNaN(Date.parse(String(value))));
+        if (invalid.length > 0) {
+          problems.push(`${at}encoding.${channel}.field "${definition.field}" is temporal but has ${invalid.length} values that are not dates, e.g. ${JSON.stringify(invalid[0])}`);
+        }
+      }
+    }
+  }
+
+  return problems;
+}
+
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (typeof value === 'number') {
+    return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  }
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function markdownTable(header: string[], rows: string[][]): string {
+  return [
+    `| ${header.join(' | ')} |`,
+    `|${header.map(() => '---').join('|')}|`,
+    ...rows.map(row => `| ${row.join(' | ')} |`)
+  ].join('\n');
+}
+
+/**
+ * Render tool datapoints as a markdown table, used when a chart cannot be rendered.
+ * Time series are pivoted into one row per time and one column per series; other
+ * datapoints are listed with their fields as columns. Large tables are truncated with a note.
+ */
+export function formatDatapointsTable(datapoints: unknown): string {
+  if (!Array.isArray(datapoints) || datapoints.length === 0) {
+    return '_No datapoints were returned._';
+  }
+
+  const notes: string[] = [];
+  let header: string[];
+  let rows: string[][];
+
+  const series = extractTimeSeries(datapoints);
+  if (series.length > 0) {
+    const shown = series.slice(0, MAX_TABLE_COLUMNS);
+    if (series.length > shown.length) {
+      notes.push(`${series.length - shown.length} more series are in the datapoints file.`);
+    }
+    const times = [...new Set(shown.flatMap(s => s.points.map(point => point.time)))]
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    header = ['Time', ...shown.map(s => formatCell(s.name))];
+    rows = times.map(time => [
+      formatCell(time),
+      ...shown.map(s => formatCell(s.points.find(point => point.time === time)?.value))
+    ]);
+  } else {
+    const objects = datapoints.filter((datapoint): datapoint is Record<string, unknown> => !!datapoint && typeof datapoint === 'object');
+    const keys = [...new Set(objects.flatMap(datapoint => Object.keys(datapoint)))].slice(0, MAX_TABLE_COLUMNS);
+    header = keys.map(formatCell);
+    rows = objects.map(datapoint => keys.map(key => formatCell(datapoint[key])));
+    if (keys.length === 0) {
+      header = ['Value'];
+      rows = datapoints.map(datapoint => [formatCell(datapoint)]);
+    }
+  }
+
+  if (rows.length > MAX_TABLE_ROWS) {
+    notes.push(`Showing the first ${MAX_TABLE_ROWS} of ${rows.length} rows.`);
+    rows = rows.slice(0, MAX_TABLE_ROWS);
+  }
+
+  return `${markdownTable(header, rows)}${notes.length > 0 ? `\n\n_${notes.join(' ')}_` : ''}`;
+}
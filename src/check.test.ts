@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { evaluateThresholds, formatJUnitReport, readThresholdsFile, validateThresholds } from './check.js';
+import type { ServiceRegionCombo } from './types.js';
+
+const combos: ServiceRegionCombo[] = [
+  { service: 'AWS Lambda', region: 'us-east-1', cost: 150, previousCost: 100, currency: 'USD', period: '2026-09-01 to 2026-10-01' },
+  { service: 'AWS Lambda', region: 'eu-west-1', cost: 50, previousCost: 50, currency: 'USD', period: '2026-09-01 to 2026-10-01' },
+  { service: 'Amazon EC2', region: 'us-east-1', cost: 400, previousCost: 0, currency: 'USD', period: '2026-09-01 to 2026-10-01' }
+];
+
+describe('validateThresholds', () => {
+  it('accepts limits for every scope', () => {
+    expect(validateThresholds({
+      total: { maxCost: 1000 },
+      services: { 'AWS Lambda': { maxGrowthPercent: 20 } },
+      regions: { 'us-east-1': { maxCost: 500, maxGrowthPercent: 10 } },
+      combos: [{ service: 'Amazon EC2', region: 'us-east-1', maxCost: 300 }]
+    })).toEqual([]);
+  });
+
+  it('reports unknown keys, invalid limits and missing thresholds', () => {
+    expect(validateThresholds({
+      total: { maxCost: -1, currency: 'USD' },
+      services: [],
+      regions: { 'us-east-1': {} },
+      combos: [{ service: 'Amazon EC2', maxGrowthPercent: '10' }],
+      accounts: {}
+    })).toEqual([
+      'Unknown property "accounts"',
+      'total: unknown property "currency"',
+      'total.maxCost must be a non-negative number',
+      '"services" must be an object keyed by service name',
+      'regions["us-east-1"] needs maxCost or maxGrowthPercent',
+      'combos[0].maxGrowthPercent must be a non-negative number',
+      'combos[0] needs a service and a region'
+    ]);
+    expect(validateThresholds({})).toEqual(['No thresholds defined: add total, services, regions or combos']);
+    expect(validateThresholds([])).toEqual(['Thresholds must be an object']);
+  });
+});
+
+describe('readThresholdsFile', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'thresholds-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(directory);
+  });
+
+  it('reads YAML thresholds and rejects invalid ones', async () => {
+    await fs.writeFile(path.join(directory, 'thresholds.yaml'), 'total:\n  maxCost: 1000\n');
+    await fs.writeJson(path.join(directory, 'invalid.json'), { total: {} });
+
+    expect(await readThresholdsFile(path.join(directory, 'thresholds.yaml'))).toEqual({ total: { maxCost: 1000 } });
+    await expect(readThresholdsFile(path.join(directory, 'invalid.json'))).rejects.toThrow(/Invalid thresholds file .*invalid.json:\n {2}- total needs maxCost or maxGrowthPercent/);
+  });
+});
+
+describe('evaluateThresholds', () => {
+  it('sums costs per scope and compares them with the limits', () => {
+    const report = evaluateThresholds(combos, {
+      total: { maxCost: 500 },
+      services: { 'AWS Lambda': { maxCost: 250, maxGrowthPercent: 20 } },
+      regions: { 'eu-west-1': { maxGrowthPercent: 0 } },
+      combos: [{ service: 'Amazon EC2', region: 'us-east-1', maxGrowthPercent: 10 }]
+    });
+
+    expect(report).toMatchObject({ totalCost: 600, previousTotalCost: 150, failures: 2 });
+    expect(report.checks.map(({ scope, name, limit, actual, status }) => ({ scope, name, limit, actual, status }))).toEqual([
+      { scope: 'total', name: 'Total', limit: 'maxCost', actual: 600, status: 'failed' },
+      { scope: 'service', name: 'AWS Lambda', limit: 'maxCost', actual: 200, status: 'passed' },
+      { scope: 'service', name: 'AWS Lambda', limit: 'maxGrowthPercent', actual: expect.closeTo(33.33, 2), status: 'failed' },
+      { scope: 'region', name: 'eu-west-1', limit: 'maxGrowthPercent', actual: 0, status: 'passed' },
+      { scope: 'combo', name: 'Amazon EC2 in us-east-1', limit: 'maxGrowthPercent', actual: undefined, status: 'skipped' }
+    ]);
+  });
+
+  it('treats services without spend as zero cost', () => {
+    const report = evaluateThresholds(combos, { services: { 'Amazon S3': { maxCost: 0 } } });
+
+    expect(report.checks).toEqual([expect.objectContaining({ cost: 0, status: 'passed', message: 'Amazon S3 cost $0.00 is within the limit of $0.00' })]);
+  });
+});
+
+describe('formatJUnitReport', () => {
+  it('writes a test suite per scope with failures and skipped checks', () => {
+    const report = evaluateThresholds(combos, {
+      total: { maxCost: 500 },
+      combos: [{ service: 'Amazon EC2', region: 'us-east-1', maxGrowthPercent: 10 }]
+    });
+
+    const xml = formatJUnitReport(report);
+
+    expect(xml).toContain('<testsuites name="aws-cost-analyzer check" tests="2" failures="1" skipped="1">');
+    expect(xml).toContain('<testsuite name="Total" tests="1" failures="1" skipped="0"');
+    expect(xml).toContain('<failure message="Total cost $600.00 exceeds the limit of $500.00" type="maxCost">');
+    expect(xml).toContain('<testcase classname="aws-cost-analyzer.combo" name="Amazon EC2 in us-east-1: maxGrowthPercent">');
+    expect(xml).toContain('<skipped message="Amazon EC2 in us-east-1 had no spend in the previous window, so its growth cannot be checked"/>');
+  });
+});
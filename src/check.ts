@@ -0,0 +1,282 @@
+import fs from 'fs-extra';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { getTopServiceRegionCombos } from './aws-service.js';
+import {
+  AWSCredentials, CheckReport, CheckResultFormat, CostThreshold, CostWindowOptions, InvocationOptions,
+  ServiceRegionCombo, ThresholdCheck, Thresholds, ThresholdScope
+} from './types.js';
+
+export const CHECK_RESULT_FORMATS: CheckResultFormat[] = ['junit', 'json'];
+
+const THRESHOLDS_KEYS = ['total', 'services', 'regions', 'combos'];
+const LIMIT_KEYS: (keyof CostThreshold)[] = ['maxCost', 'maxGrowthPercent'];
+
+const SCOPE_LABELS: Record<ThresholdScope, string> = {
+  total: 'Total',
+  service: 'Services',
+  region: 'Regions',
+  combo: 'Service-region combinations'
+};
+
+function validateLimits(where: string, threshold: unknown, extraKeys: string[] = []): string[] {
+  if (!threshold || typeof threshold !== 'object' || Array.isArray(threshold)) {
+    return [`${where} must be an object with maxCost or maxGrowthPercent`];
+  }
+
+  const errors: string[] = [];
+  Object.keys(threshold)
+    .filter(key => !(LIMIT_KEYS as string[]).includes(key) && !extraKeys.includes(key))
+    .forEach(key => errors.push(`${where}: unknown property "${key}"`));
+  const limits = threshold as Record<string, unknown>;
+  for (const key of LIMIT_KEYS) {
+    const limit = limits[key];
+    if (limit !== undefined && (typeof limit !== 'number' || limit < 0)) {
+      errors.push(`${where}.${key} must be a non-negative number`);
+    }
+  }
+  if (limits.maxCost === undefined && limits.maxGrowthPercent === undefined) {
+    errors.push(`${where} needs maxCost or maxGrowthPercent`);
+  }
+  return errors;
+}
+
+/**
+ * Validate thresholds read from a file. Returns a list of problems, empty when valid.
+ */
+export function validateThresholds(thresholds: unknown): string[] {
+  if (!thresholds || typeof thresholds !== 'object' || Array.isArray(thresholds)) {
+    return ['Thresholds must be an object'];
+  }
+
+  const errors: string[] = [];
+  Object.keys(thresholds)
+    .filter(key => !THRESHOLDS_KEYS.includes(key))
+    .forEach(key => errors.push(`Unknown property "${key}"`));
+
+  const { total, combos, ...scoped } = thresholds as Record<string, unknown>;
+  if (total !== undefined) {
+    errors.push(...validateLimits('total', total));
+  }
+  for (const key of ['services', 'regions']) {
+    const limits = scoped[key];
+    if (limits === undefined) {
+      continue;
+    }
+    if (!limits || typeof limits !== 'object' || Array.isArray(limits)) {
+      errors.push(`"${key}" must be an object keyed by ${key === 'services' ? 'service name' : 'region'}`);
+      continue;
+    }
+    for (const [name, threshold] of Object.entries(limits)) {
+      errors.push(...validateLimits(`${key}["${name}"]`, threshold));
+    }
+  }
+  if (combos !== undefined) {
+    if (!Array.isArray(combos)) {
+      errors.push('"combos" must be an array of { service, region, maxCost, maxGrowthPercent }');
+    } else {
+      combos.forEach((entry: unknown, index: number) => {
+        const where = `combos[${index}]`;
+        errors.push(...validateLimits(where, entry, ['service', 'region']));
+        const combo = entry as Record<string, unknown> | null | undefined;
+        if (combo && (typeof combo.service !== 'string' || typeof combo.region !== 'string')) {
+          errors.push(`${where} needs a service and a region`);
+        }
+      });
+    }
+  }
+
+  if (errors.length === 0 && !total && !scoped.services && !scoped.regions && !combos) {
+    errors.push('No thresholds defined: add total, services, regions or combos');
+  }
+  return errors;
+}
+
+/**
+ * Read and validate a JSON or YAML thresholds file
+ */
+export async function readThresholdsFile(filePath: string): Promise<Thresholds> {
+  const fullPath = path.resolve(filePath);
+  if (!await fs.pathExists(fullPath)) {
+    throw new Error(`Thresholds file not found: ${fullPath}`);
+  }
+
+  let thresholds: unknown;
+  try {
+    const content = await fs.readFile(fullPath, 'utf8');
+    thresholds = /\.ya?ml$/i.test(fullPath) ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to parse thresholds file ${fullPath}: ${errorMessage}`);
+  }
+
+  const errors = validateThresholds(thresholds);
+  if (errors.length > 0) {
+    throw new Error(`Invalid thresholds file ${fullPath}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  return thresholds as Thresholds;
+}
+
+function sumCosts(combos: ServiceRegionCombo[]): { cost: number; previousCost: number } {
+  return combos.reduce(
+    (sum, combo) => ({ cost: sum.cost + combo.cost, previousCost: sum.previousCost + (combo.previousCost || 0) }),
+    { cost: 0, previousCost: 0 }
+  );
+}
+
+function checkLimits(scope: ThresholdScope, name: string, threshold: CostThreshold, combos: ServiceRegionCombo[]): ThresholdCheck[] {
+  const { cost, previousCost } = sumCosts(combos);
+  const checks: ThresholdCheck[] = [];
+
+  if (threshold.maxCost !== undefined) {
+    const failed = cost > threshold.maxCost;
+    checks.push({
+      scope,
+      name,
+      limit: 'maxCost',
+      threshold: threshold.maxCost,
+      cost,
+      previousCost,
+      actual: cost,
+      status: failed ? 'failed' : 'passed',
+      message: `${name} cost $${cost.toFixed(2)} ${failed ? 'exceeds' : 'is within'} the limit of $${threshold.maxCost.toFixed(2)}`
+    });
+  }
+
+  if (threshold.maxGrowthPercent !== undefined) {
+    if (previousCost <= 0) {
+      checks.push({
+        scope,
+        name,
+        limit: 'maxGrowthPercent',
+        threshold: threshold.maxGrowthPercent,
+        cost,
+        previousCost,
+        status: 'skipped',
+        message: `${name} had no spend in the previous window, so its growth cannot be checked`
+      });
+    } else {
+      const growth = (cost - previousCost) / previousCost * 100;
+      const failed = growth > threshold.maxGrowthPercent;
+      checks.push({
+        scope,
+        name,
+        limit: 'maxGrowthPercent',
+        threshold: threshold.maxGrowthPercent,
+        cost,
+        previousCost,
+        actual: growth,
+        status: failed ? 'failed' : 'passed',
+        message: `${name} grew ${growth.toFixed(1)}% ($${previousCost.toFixed(2)} → $${cost.toFixed(2)}), ${failed ? 'above' : 'within'} the limit of ${threshold.maxGrowthPercent}%`
+      });
+    }
+  }
+
+  return checks;
+}
+
+/**
+ * Evaluate thresholds against service-region combos with their previous window costs.
+ * Services, regions and combos without spend count as zero cost.
+ */
+export function evaluateThresholds(
+  combos: ServiceRegionCombo[],
+  thresholds: Thresholds,
+  costWindow: CostWindowOptions = {}
+): CheckReport {
+  const checks: ThresholdCheck[] = [];
+
+  if (thresholds.total) {
+    checks.push(...checkLimits('total', 'Total', thresholds.total, combos));
+  }
+  for (const [service, threshold] of Object.entries(thresholds.services || {})) {
+    checks.push(...checkLimits('service', service, threshold, combos.filter(combo => combo.service === service)));
+  }
+  for (const [region, threshold] of Object.entries(thresholds.regions || {})) {
+    checks.push(...checkLimits('region', region, threshold, combos.filter(combo => combo.region === region)));
+  }
+  for (const threshold of thresholds.combos || []) {
+    const matching = combos.filter(combo => combo.service === threshold.service && combo.region === threshold.region);
+    checks.push(...checkLimits('combo', `${threshold.service} in ${threshold.region}`, threshold, matching));
+  }
+
+  const totals = sumCosts(combos);
+  return {
+    generatedAt: new Date().toISOString(),
+    costWindow,
+    totalCost: totals.cost,
+    previousTotalCost: totals.previousCost,
+    checks,
+    failures: checks.filter(check => check.status === 'failed').length
+  };
+}
+
+/**
+ * Fetch the costs of all service-region combinations and evaluate the thresholds against
+ * them, without any LLM calls. The current window is always compared with the previous one,
+ * so growth limits can be checked.
+ */
+export async function checkThresholds(
+  thresholds: Thresholds,
+  credentials: AWSCredentials,
+  invocationOptions: InvocationOptions = {},
+  costWindow: CostWindowOptions = {}
+): Promise<CheckReport> {
+  const window: CostWindowOptions = { ...costWindow, rankBy: 'growth' };
+  const combos = await getTopServiceRegionCombos(Number.MAX_SAFE_INTEGER, credentials, invocationOptions, window);
+  return evaluateThresholds(combos, thresholds, window);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Render a check report as JUnit XML, one test suite per threshold scope and one test case per limit
+ */
+export function formatJUnitReport(report: CheckReport): string {
+  const count = (checks: ThresholdCheck[], status: ThresholdCheck['status']) => checks.filter(check => check.status === status).length;
+  const scopes = (Object.keys(SCOPE_LABELS) as ThresholdScope[])
+    .map(scope => ({ scope, checks: report.checks.filter(check => check.scope === scope) }))
+    .filter(({ checks }) => checks.length > 0);
+
+  const suites = scopes.map(({ scope, checks }) => {
+    const cases = checks.map(check => {
+      const name = escapeXml(`${check.name}: ${check.limit}`);
+      const body = check.status === 'failed'
+        ? `\n      <failure message="${escapeXml(check.message)}" type="${check.limit}">${escapeXml(check.message)}</failure>\n    `
+        : check.status === 'skipped'
+          ? `\n      <skipped message="${escapeXml(check.message)}"/>\n    `
+          : '';
+      return `    <testcase classname="aws-cost-analyzer.${scope}" name="${name}">${body}</testcase>`;
+    });
+    return `  <testsuite name="${escapeXml(SCOPE_LABELS[scope])}" tests="${checks.length}" failures="${count(checks, 'failed')}" skipped="${count(checks, 'skipped')}" timestamp="${report.generatedAt}">
+${cases.join('\n')}
+  </testsuite>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="aws-cost-analyzer check" tests="${report.checks.length}" failures="${report.failures}" skipped="${count(report.checks, 'skipped')}">
+${suites.join('\n')}
+</testsuites>
+`;
+}
+
+/**
+ * Write a check report as JUnit XML or JSON
+ */
+export async function writeCheckResult(report: CheckReport, outputPath: string, format: CheckResultFormat = 'junit'): Promise<string> {
+  const fullPath = path.resolve(outputPath);
+  await fs.ensureDir(path.dirname(fullPath));
+  if (format === 'json') {
+    await fs.writeJson(fullPath, report, { spaces: 2 });
+  } else {
+    await fs.writeFile(fullPath, formatJUnitReport(report), 'utf8');
+  }
+  return fullPath;
+}
@@ -1,64 +1,545 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, CommanderError, InvalidArgumentError, OptionValues } from 'commander';
 import chalk from 'chalk';
-import ora from 'ora';
 import * as path from 'path';
-import { loadCredentials, createExampleCredentialsFile } from './config.js';
-import { analyze, executeAnalysisStep, generateReportFromExisting } from './analyzer.js';
-import { generateReport, generateSummaryReport } from './report-generator.js';
-import { createModel } from './llm.js';
-import { ReportConfig } from './types.js';
-import { generateStepReport } from './report-generator.js';
+import { loadCredentials, loadModelCredentials, loadReplayCredentials, loadAccountTargets, createExampleCredentialsFile } from './config.js';
+import { analyze, analyzeAccounts, executeAnalysisStep, generateStepFindings, generateReportFromExisting, createPlan } from './analyzer.js';
+import { generateReport, generateSummaryReport, ACCOUNTS_DIR } from './report-generator.js';
+import { createModel, DEFAULT_GENERATION_SETTINGS } from './llm.js';
+import { listProviders, resolveModelConfig } from './providers.js';
+import { resolveRecordingConfig } from './invocation.js';
+import {
+  ReportConfig, ModelConfig, LLMProviderName, CostGranularity, CostRankBy, CostWindowOptions, ChartFormat, ToolGuardrails,
+  CacheConfig, InvocationOptions, NotificationConfig, WebhookConfig, GenerationSettings, ProjectConfig, PromptName, PromptSet,
+  AWSCredentials
+} from './types.js';
+import { resolveCostWindow } from './aws-service.js';
+import { writeAnomalyReport, DEFAULT_ANOMALY_OPTIONS, ANOMALIES_FILE } from './anomalies.js';
+import { loadRules } from './rules.js';
+import { DEFAULT_RETRY_OPTIONS } from './retry.js';
+import { readManifest } from './manifest.js';
+import { readPlanFile, writePlanFile } from './plan.js';
+import { exportHtmlReport, STANDALONE_REPORT_FILE } from './html-export.js';
+import { loadExecutionSnapshot, diffExecutions, writeExecutionDiff, DEFAULT_MIN_CHANGE_PERCENT } from './diff.js';
+import { generateStepReport, findingsPathFor } from './report-generator.js';
+import { configureOutput, createSpinner, printResult, exitWithError, isJsonOutput, EXIT_CODES } from './output.js';
+import { SPEND_FILE } from './spend.js';
+import { checkThresholds, readThresholdsFile, writeCheckResult, CHECK_RESULT_FORMATS } from './check.js';
+import { inferWebhookType, notifyExecution, readNotificationConfig } from './notify.js';
+import { CHART_FORMATS } from './chartUtils.js';
+import { createTracer, instrumentModel, readTrace, filterTraceEvents, formatTraceTimeline } from './trace.js';
+import { DEFAULT_GUARDRAILS, readGuardrailsFile } from './guardrails.js';
+import {
+  createToolCache, listCacheEntries, clearCache, formatCacheStats, parseDuration, DEFAULT_CACHE_DIR, DEFAULT_CACHE_TTL_SECONDS
+} from './cache.js';
+import {
+  loadConfigLayers, mergeConfigLayers, configSources, configOptionValues, readConfigFile, defaultConfig, formatConfig,
+  findProjectConfigFile, PROJECT_CONFIG_FILES
+} from './project-config.js';
+import { resolvePrompts, PROMPT_PACKS, PROMPT_TEMPLATES, DEFAULT_PROMPT_PACK } from './prompts.js';
+import { loadPlaybooks, validatePlaybook } from './playbooks.js';
 import fs from 'fs-extra';
 import { ulid } from 'ulid';
 
 const program = new Command();
 
+/**
+ * Add LLM provider selection options to a command
+ */
+function addModelOptions(command: Command): Command {
+  return command
+    .option('--provider <provider>', `LLM provider (${listProviders().join(', ')})`)
+    .option('--model <modelId>', 'Model ID to use with the selected provider')
+    .option('--model-region <region>', 'Region for the Bedrock provider')
+    .option('--base-url <url>', 'Base URL for the openai-compatible provider')
+    .option('--api-key <key>', 'API key for the openai-compatible provider')
+    .option('--mock-script <path>', 'Response script for the mock provider')
+    .option('--max-steps <number>', `Maximum tool-call round trips of a step analysis (default: ${DEFAULT_GENERATION_SETTINGS.maxSteps})`)
+    .option('--max-tokens <number>', `Maximum output tokens of a step analysis and of the report (default: ${DEFAULT_GENERATION_SETTINGS.maxTokens})`)
+    .option('--plan-max-tokens <number>', `Maximum output tokens of the analysis plan (default: ${DEFAULT_GENERATION_SETTINGS.planMaxTokens})`)
+    .option('--findings-max-tokens <number>', `Maximum output tokens of the findings of a step (default: ${DEFAULT_GENERATION_SETTINGS.findingsMaxTokens})`)
+    .option('--chart-max-tokens <number>', `Maximum output tokens of a chart analysis (default: ${DEFAULT_GENERATION_SETTINGS.chartMaxTokens})`)
+    .option('--temperature <number>', 'Sampling temperature of the LLM calls (default: the default of each call)')
+    .option('--prompt-pack <name>', `Prompt pack: ${PROMPT_PACKS.map(pack => pack.name).join(', ')} (default: ${DEFAULT_PROMPT_PACK})`)
+    .option('--prompts-dir <path>', 'Directory of <template>.md files overriding templates of the prompt pack, see list-prompts');
+}
+
+/**
+ * Build the LLM generation settings from command options
+ */
+function generationFromOptions(options: OptionValues): GenerationSettings {
+  return {
+    maxSteps: options.maxSteps !== undefined ? parsePositiveInteger(options.maxSteps, 'Max steps') : undefined,
+    maxTokens: options.maxTokens !== undefined ? parsePositiveInteger(options.maxTokens, 'Max tokens') : undefined,
+    planMaxTokens: options.planMaxTokens !== undefined ? parsePositiveInteger(options.planMaxTokens, 'Plan max tokens') : undefined,
+    findingsMaxTokens: options.findingsMaxTokens !== undefined ? parsePositiveInteger(options.findingsMaxTokens, 'Findings max tokens') : undefined,
+    chartMaxTokens: options.chartMaxTokens !== undefined ? parsePositiveInteger(options.chartMaxTokens, 'Chart max tokens') : undefined,
+    temperature: options.temperature !== undefined ? parseNonNegativeNumber(options.temperature, 'Temperature') : undefined
+  };
+}
+
+/**
+ * Resolve the prompt templates from the prompt pack and prompts directory options
+ */
+async function promptsFromOptions(options: OptionValues): Promise<PromptSet> {
+  return resolvePrompts({ pack: options.promptPack, directory: options.promptsDir }).catch(error => {
+    throw new InvalidArgumentError(error instanceof Error ? error.message : String(error));
+  });
+}
+
+/**
+ * Add AWS credential options to a command
+ */
+function addCredentialOptions(command: Command, credentialsFlags: string = '-c, --credentials <path>'): Command {
+  return command
+    .option(credentialsFlags, 'Path to AWS credentials file in .aws-creds.json format')
+    .option('-p, --profile <profile>', 'Named AWS profile from ~/.aws/credentials or ~/.aws/config');
+}
+
+/**
+ * Load the AWS credentials of a command. Replays run without AWS access, so only the region is resolved.
+ */
+function credentialsFromOptions(options: OptionValues, replayExecutionId?: string): Promise<AWSCredentials> {
+  return replayExecutionId
+    ? loadReplayCredentials(options.credentials, options.profile)
+    : loadCredentials(options.credentials, options.profile);
+}
+
+/**
+ * Add cost window options to a command
+ */
+function addCostWindowOptions(command: Command): Command {
+  return command
+    .option('--from <date>', 'Start of the cost window (YYYY-MM-DD, inclusive)')
+    .option('--to <date>', 'End of the cost window (YYYY-MM-DD, exclusive, default: today)')
+    .option('--granularity <granularity>', 'Cost granularity: DAILY or MONTHLY', 'MONTHLY')
+    .option('--rank-by <mode>', 'Rank combinations by cost, growth (absolute increase) or growth-pct (percentage increase) versus the previous equivalent window', 'cost');
+}
+
+/**
+ * Add spend limit and token price options to a command
+ */
+function addSpendOptions(command: Command): Command {
+  return command
+    .option('--max-llm-cost <usd>', 'Stop the analysis once the estimated LLM cost reaches this amount in USD')
+    .option('--max-api-calls <number>', 'Stop the analysis once this many AWS API calls were made')
+    .option('--input-price <usd>', 'LLM input token price in USD per million tokens (default: built-in price for the model)')
+    .option('--output-price <usd>', 'LLM output token price in USD per million tokens (default: built-in price for the model)');
+}
+
+/**
+ * Build the spend limits and token prices from command options
+ */
+function spendFromOptions(options: OptionValues): Pick<ReportConfig, 'spendLimits' | 'pricing'> {
+  return {
+    spendLimits: {
+      maxLLMCost: options.maxLlmCost !== undefined ? parseNonNegativeNumber(options.maxLlmCost, 'Max LLM cost') : undefined,
+      maxApiCalls: options.maxApiCalls !== undefined ? parsePositiveInteger(options.maxApiCalls, 'Max API calls') : undefined
+    },
+    pricing: {
+      inputPerMillion: options.inputPrice !== undefined ? parseNonNegativeNumber(options.inputPrice, 'Input price') : undefined,
+      outputPerMillion: options.outputPrice !== undefined ? parseNonNegativeNumber(options.outputPrice, 'Output price') : undefined
+    }
+  };
+}
+
+/**
+ * Add tool-call guardrail options to a command
+ */
+function addGuardrailOptions(command: Command): Command {
+  return command
+    .option('--guardrails <path>', 'JSON or YAML file with tool-call guardrails (call budgets, allow/deny lists, param constraints)')
+    .option('--max-calls-per-tool <number>', `Maximum calls of each tool within a step (default: ${DEFAULT_GUARDRAILS.maxCallsPerTool})`)
+    .option('--max-calls-per-step <number>', `Maximum tool calls within a step (default: ${DEFAULT_GUARDRAILS.maxCallsPerStep})`)
+    .option('--allow-tools <list>', 'Comma-separated aws-tools that may be called; all others are refused')
+    .option('--deny-tools <list>', 'Comma-separated aws-tools that may not be called')
+    .option('--no-dedupe', 'Call tools again when called with identical params within a step');
+}
+
+/**
+ * Build the tool-call guardrails from the defaults, the guardrails file and command options,
+ * in increasing precedence
+ */
+async function guardrailsFromOptions(options: OptionValues): Promise<ToolGuardrails> {
+  const fromFile = options.guardrails
+    ? await readGuardrailsFile(options.guardrails).catch(error => {
+      throw new InvalidArgumentError(error instanceof Error ? error.message : String(error));
+    })
+    : {};
+  const toolList = (value: string) => value.split(',').map(name => name.trim()).filter(Boolean);
+
+  return {
+    ...DEFAULT_GUARDRAILS,
+    ...fromFile,
+    ...(options.maxCallsPerTool !== undefined && { maxCallsPerTool: parsePositiveInteger(options.maxCallsPerTool, 'Max calls per tool') }),
+    ...(options.maxCallsPerStep !== undefined && { maxCallsPerStep: parsePositiveInteger(options.maxCallsPerStep, 'Max calls per step') }),
+    ...(options.allowTools !== undefined && { allow: toolList(options.allowTools) }),
+    ...(options.denyTools !== undefined && { deny: [...(fromFile.deny || []), ...toolList(options.denyTools)] }),
+    ...(options.dedupe === false && { dedupe: false })
+  };
+}
+
+/**
+ * Add tool result cache options to a command
+ */
+function addCacheOptions(command: Command): Command {
+  return command
+    .option('--no-cache', 'Always call AWS instead of serving tool results from the cache')
+    .option('--cache-ttl <duration>', 'How long cached tool results stay fresh, in seconds or with s, m, h or d', `${DEFAULT_CACHE_TTL_SECONDS}s`)
+    .option('--cache-dir <path>', 'Directory of the tool result cache', DEFAULT_CACHE_DIR);
+}
+
+/**
+ * Build the tool result cache configuration from command options
+ */
+function cacheFromOptions(options: OptionValues): CacheConfig | undefined {
+  if (options.cache === false) {
+    return undefined;
+  }
+  return { directory: path.resolve(options.cacheDir), ttlSeconds: asUsageError(() => parseDuration(options.cacheTtl)) };
+}
+
+/**
+ * Add webhook notification options to a command
+ */
+function addNotificationOptions(command: Command): Command {
+  return command
+    .option('--webhooks <path>', 'JSON or YAML file with the webhooks to notify (Slack, Teams or generic JSON) and their payload templates')
+    .option('--webhook <url>', 'Webhook to notify, repeatable; Slack and Teams URLs get their payloads, others generic JSON', (url: string, urls: string[]) => [...urls, url], [])
+    .option('--report-base-url <url>', 'Base URL the execution directories are published under, to link report.md in notifications');
+}
+
+/**
+ * Build the notification configuration from the webhooks file and command options,
+ * or nothing when no webhook is configured
+ */
+async function notificationsFromOptions(options: OptionValues): Promise<NotificationConfig | undefined> {
+  const fromFile: Partial<NotificationConfig> = options.webhooks
+    ? await readNotificationConfig(options.webhooks).catch(error => {
+      throw new InvalidArgumentError(error instanceof Error ? error.message : String(error));
+    })
+    : {};
+  const urlWebhooks: WebhookConfig[] = options.webhook.map((url: string) => ({ type: asUsageError(() => inferWebhookType(url)), url }));
+  const webhooks = [...(fromFile.webhooks || []), ...urlWebhooks];
+  if (webhooks.length === 0) {
+    return undefined;
+  }
+  return { ...fromFile, webhooks, reportBaseUrl: options.reportBaseUrl || fromFile.reportBaseUrl };
+}
+
+/**
+ * Build the cost window from command options, failing fast on invalid values
+ */
+function costWindowFromOptions(options: OptionValues): CostWindowOptions {
+  const costWindow: CostWindowOptions = {
+    from: options.from,
+    to: options.to,
+    granularity: options.granularity.toUpperCase() as CostGranularity,
+    rankBy: options.rankBy as CostRankBy
+  };
+  asUsageError(() => resolveCostWindow(costWindow));
+  return costWindow;
+}
+
+/**
+ * Run option validation from other modules, reporting its errors as usage errors
+ */
+function asUsageError<T>(validate: () => T): T {
+  try {
+    return validate();
+  } catch (error) {
+    throw new InvalidArgumentError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Parse the chart output format option
+ */
+function parseChartFormat(value: string): ChartFormat {
+  if (!CHART_FORMATS.includes(value as ChartFormat)) {
+    throw new InvalidArgumentError(`Chart format must be one of: ${CHART_FORMATS.join(', ')}`);
+  }
+  return value as ChartFormat;
+}
+
+/**
+ * Parse a positive integer option
+ */
+function parsePositiveInteger(value: string, label: string): number {
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed) || parsed <= 0) {
+    throw new InvalidArgumentError(`${label} must be a positive integer`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse a non-negative number option
+ */
+function parseNonNegativeNumber(value: string, label: string): number {
+  const parsed = Number(value);
+  if (value.trim() === '' || isNaN(parsed) || parsed < 0) {
+    throw new InvalidArgumentError(`${label} must be a non-negative number`);
+  }
+  return parsed;
+}
+
+/**
+ * Print where the reports of an execution were saved and how many steps succeeded
+ */
+function printAnalysisSummary(results: [string, string][], outputDir: string, executionId: string): void {
+  console.log(chalk.green('\n✅ Analysis completed successfully!'));
+  console.log(chalk.gray(`Reports saved to: ${path.join(outputDir, executionId)}`));
+  console.log(chalk.gray(`Comprehensive report: ${path.join(outputDir, executionId, 'report.md')}`));
+  
+  // Show quick stats
+  const successfulAnalyses = results.filter(([_, content]) => !content.includes('Analysis Failed')).length;
+
+  console.log(chalk.blue('\n📊 Analysis Summary:'));
+  console.log(chalk.gray(`  Successful analyses: ${successfulAnalyses}/${results.length}`));
+}
+
+/**
+ * Describe the steps of an execution, or of one account of a multi-account execution,
+ * from its manifest
+ */
+async function stepResults(executionPath: string) {
+  const manifest = await readManifest(executionPath);
+  return {
+    status: manifest?.status,
+    error: manifest?.error,
+    steps: (manifest?.steps || []).map(entry => {
+      const reportPath = entry.reportPath && path.join(executionPath, entry.reportPath);
+      return {
+        index: entry.index,
+        title: entry.step.title,
+        service: entry.step.service,
+        region: entry.step.region,
+        tools: entry.step.useTools,
+        status: entry.status,
+        attempts: entry.attempts,
+        reportPath,
+        findingsPath: reportPath && findingsPathFor(reportPath),
+        error: entry.error
+      };
+    })
+  };
+}
+
+/**
+ * Notify the configured webhooks, then print the result of an analysis run and set the
+ * exit code: partial when steps failed or a spend limit stopped the run
+ */
+async function printExecutionResult(
+  command: string,
+  outputDir: string,
+  executionId: string,
+  accounts?: string[],
+  notifications?: NotificationConfig
+): Promise<void> {
+  const executionPath = path.resolve(outputDir, executionId);
+  const notified = notifications && await notifyExecution(executionPath, notifications).catch(error => {
+    console.warn(chalk.yellow(`⚠️  Failed to send notifications: ${error instanceof Error ? error.message : String(error)}`));
+    return undefined;
+  });
+  const reportPath = path.join(executionPath, 'report.md');
+  const spendPath = path.join(executionPath, SPEND_FILE);
+  const spend = await fs.pathExists(spendPath) ? (await fs.readJson(spendPath)).totals : undefined;
+
+  const execution = accounts
+    ? {
+      accounts: await Promise.all(accounts.map(async account => ({
+        account,
+        ...await stepResults(path.join(executionPath, ACCOUNTS_DIR, account))
+      })))
+    }
+    : await stepResults(executionPath);
+  const runs = 'accounts' in execution ? execution.accounts : [execution];
+  const partial = runs.some(run => run.status === 'stopped' || run.status === 'failed' || run.steps.some(step => step.status === 'failed'));
+
+  printResult(command, {
+    executionId,
+    executionPath,
+    reportPath: await fs.pathExists(reportPath) ? reportPath : undefined,
+    partial,
+    ...execution,
+    spend,
+    notifications: notified
+  }, [reportPath]);
+
+  if (partial) {
+    process.exitCode = EXIT_CODES.partial;
+  }
+}
+
+/**
+ * Build the model configuration from command options
+ */
+function modelConfigFromOptions(options: OptionValues): ModelConfig {
+  return resolveModelConfig({
+    provider: options.provider as LLMProviderName | undefined,
+    modelId: options.model,
+    region: options.modelRegion,
+    baseURL: options.baseUrl,
+    apiKey: options.apiKey,
+    scriptPath: options.mockScript,
+    profile: options.profile
+  });
+}
+
+/**
+ * Use the configuration as the values of the options of a command that were not given on the command line
+ */
+function applyConfig(command: Command, config: ProjectConfig): void {
+  const commandName = command.parent === program ? command.name() : `${command.parent?.name()} ${command.name()}`;
+  const attributes = command.options.map(option => option.attributeName());
+  for (const [attribute, value] of Object.entries(configOptionValues(config, commandName))) {
+    const source = command.getOptionValueSource(attribute);
+    if (attributes.includes(attribute) && source !== 'cli' && source !== 'env') {
+      command.setOptionValueWithSource(attribute, value, 'config');
+    }
+  }
+}
+
+/**
+ * Load the configuration files and environment variables before a command runs
+ */
+async function loadCommandConfig(actionCommand: Command): Promise<void> {
+  configureOutput(program.opts());
+  // The config commands report on the configuration, so a broken file must not stop them
+  if (actionCommand.parent?.name() === 'config') {
+    return;
+  }
+  try {
+    const layers = await loadConfigLayers({ configPath: program.opts().config });
+    applyConfig(actionCommand, mergeConfigLayers(layers.filter(layer => layer.source !== 'defaults')));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    exitWithError(actionCommand.name(), new InvalidArgumentError(message));
+  }
+}
+
 program
   .name('aws-cost-analyzer')
   .description('AI-powered AWS cost analysis tool with chart generation')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('--json', 'Print a single JSON document with the result on stdout, and all other output on stderr')
+  .option('--quiet', 'Print only errors, and the result of the command: a report path, or the JSON document with --json')
+  .option('--config <path>', `Project configuration file (default: the nearest ${PROJECT_CONFIG_FILES.join(', ')})`)
+  .exitOverride()
+  .hook('preAction', (_program, actionCommand) => loadCommandConfig(actionCommand));
 
-program
-  .command('analyze')
+addNotificationOptions(addCacheOptions(addGuardrailOptions(addSpendOptions(addCostWindowOptions(addModelOptions(addCredentialOptions(program.command('analyze'))))))))
   .description('Analyze AWS costs and generate a detailed report')
-  .option('-c, --credentials <path>', 'Path to AWS credentials file', '.aws-creds.json')
   .option('-o, --output <path>', 'Output path for the markdown report', './output/aws-cost-report.md')
   .option('-n, --top <number>', 'Number of top service-region combinations to analyze', '10')
   .option('--no-charts', 'Disable chart generation')
+  .option('--chart-format <format>', `Chart output: ${CHART_FORMATS.join(', ')}`, 'png')
   .option('--summary-only', 'Generate only a summary report')
+  .option('--record', 'Record aws-tools invocation results into the execution directory')
+  .option('--replay <executionId>', 'Serve aws-tools results recorded by a previous execution instead of calling AWS')
+  .option('--replay-fallback', 'With --replay, serve the latest recording of the same tool and region when no recording matches the params')
+  .option('--accounts <list>', 'Comma-separated AWS profiles or credentials files to analyze together under one execution')
+  .option('--rules-dir <path>', 'Directory of JavaScript modules with additional recommendation rules')
+  .option('--no-playbooks', 'Plan all steps with the LLM instead of building the steps of well-known services from their playbooks')
+  .option('--playbooks-dir <path>', 'Directory of JSON or YAML playbooks adding to or replacing the built-in playbooks')
+  .option('--concurrency <number>', 'Number of analysis steps to execute in parallel', '1')
+  .option('--max-attempts <number>', 'Maximum attempts for throttled AWS and LLM calls', String(DEFAULT_RETRY_OPTIONS.maxAttempts))
+  .option('--resume <executionId>', 'Resume an interrupted execution: skip completed steps, retry failed ones and recompile the report')
   .action(async (options) => {
-    const spinner = ora('Initializing AWS Cost Analyzer...').start();
+    const spinner = createSpinner('Initializing AWS Cost Analyzer...').start();
     
     try {
-      // Load AWS credentials
-      spinner.text = 'Loading AWS credentials...';
-      const credentials = await loadCredentials(options.credentials);
-      spinner.succeed('AWS credentials loaded');
-
       // Parse options
-      const topN = parseInt(options.top, 10);
-      if (isNaN(topN) || topN <= 0) {
-        throw new Error('Top number must be a positive integer');
-      }
+      const topN = parsePositiveInteger(options.top, 'Top number');
+      const concurrency = parsePositiveInteger(options.concurrency, 'Concurrency');
+      const maxAttempts = parsePositiveInteger(options.maxAttempts, 'Max attempts');
 
       const reportConfig: ReportConfig = {
         outputPath: path.resolve(options.output),
         includeCharts: options.charts !== false,
-        topN
+        topN,
+        record: options.record === true,
+        replayExecutionId: options.replay,
+        replayFallback: options.replayFallback === true,
+        model: modelConfigFromOptions(options),
+        // Fails fast on invalid window options
+        costWindow: costWindowFromOptions(options),
+        rulesDir: options.rulesDir,
+        playbooks: options.playbooks !== false,
+        playbooksDir: options.playbooksDir,
+        concurrency,
+        retry: { ...DEFAULT_RETRY_OPTIONS, maxAttempts },
+        resume: options.resume !== undefined,
+        chartFormat: parseChartFormat(options.chartFormat),
+        guardrails: await guardrailsFromOptions(options),
+        cache: cacheFromOptions(options),
+        generation: generationFromOptions(options),
+        prompts: await promptsFromOptions(options),
+        ...spendFromOptions(options)
       };
+      const notifications = await notificationsFromOptions(options);
 
       // Create analyzer and run analysis
       const outputDir = path.dirname(reportConfig.outputPath);
-      // Load credentials
-      const awsCredentials = await loadCredentials();
-      const executionId = ulid();
-      console.log(chalk.green('✔ AWS credentials loaded'));
+      const executionId = options.resume || ulid();
+
+      if (options.resume) {
+        const executionPath = path.join(outputDir, options.resume);
+        if (!await fs.pathExists(executionPath)) {
+          throw new Error(`Execution directory not found: ${executionPath}`);
+        }
+        // Keep recording or replaying tool invocations the way the original run did
+        const manifest = await readManifest(executionPath);
+        if (!manifest && !options.accounts) {
+          throw new Error(`No manifest found in ${executionPath}, the execution cannot be resumed`);
+        }
+        if (manifest?.accounts && !options.accounts) {
+          throw new Error(`Execution ${options.resume} analyzed the accounts ${manifest.accounts.join(', ')}: pass --accounts again to resume it`);
+        }
+        if (manifest && !options.record && !options.replay) {
+          reportConfig.record = manifest.config.record;
+          reportConfig.replayExecutionId = manifest.config.replayExecutionId;
+          reportConfig.replayFallback = manifest.config.replayFallback;
+        }
+        // The saved plan may name playbooks from the original run's playbooks directory
+        reportConfig.playbooksDir = reportConfig.playbooksDir ?? manifest?.config.playbooksDir;
+      }
+
+      if (options.accounts) {
+        spinner.text = 'Loading AWS credentials for all accounts...';
+        const accountNames = options.accounts.split(',').map((a: string) => a.trim()).filter(Boolean);
+        const accounts = await loadAccountTargets(accountNames, reportConfig.replayExecutionId !== undefined);
+        spinner.succeed(`AWS credentials loaded for ${accounts.length} accounts`);
+
+        console.log(chalk.blue(`\n🔍 Starting analysis of top ${topN} service-region combinations in ${accounts.length} accounts...\n`));
+
+        const analyses = await analyzeAccounts(reportConfig, outputDir, accounts, executionId);
+        await printExecutionResult('analyze', outputDir, executionId, accounts.map(account => account.name), notifications);
+
+        console.log(chalk.green('\n✅ Multi-account analysis completed!'));
+        console.log(chalk.gray(`Reports saved to: ${path.join(outputDir, executionId)}`));
+        console.log(chalk.gray(`Organisation report: ${path.join(outputDir, executionId, 'report.md')}`));
+
+        console.log(chalk.blue('\n📊 Analysis Summary:'));
+        analyses.forEach(analysis => {
+          const successful = analysis.results.filter(([_, content]) => !content.includes('Analysis Failed')).length;
+          const status = analysis.error ? chalk.red(`failed: ${analysis.error}`) : `${successful}/${analysis.results.length} successful analyses`;
+          console.log(chalk.gray(`  ${analysis.account}: ${status}`));
+        });
+        return;
+      }
+
+      // Load AWS credentials
+      spinner.text = 'Loading AWS credentials...';
+      const credentials = await credentialsFromOptions(options, reportConfig.replayExecutionId);
+      spinner.succeed(`AWS credentials loaded from ${credentials.source}`);
       
       console.log(chalk.blue(`\n🔍 Starting analysis of top ${topN} service-region combinations...\n`));
       
-      const results = await analyze(reportConfig, outputDir, awsCredentials, executionId);
+      const results = await analyze(reportConfig, outputDir, credentials, executionId);
+      await printExecutionResult('analyze', outputDir, executionId, undefined, notifications);
 
       if (results.length === 0) {
         console.log(chalk.yellow('No cost data found to analyze'));
@@ -67,47 +548,147 @@ program
 
       // The analyze function now handles report compilation internally
       // Just show summary of what was completed
-      console.log(chalk.green('\n✅ Analysis completed successfully!'));
-      console.log(chalk.gray(`Reports saved to: ${path.join(outputDir, executionId)}`));
-      console.log(chalk.gray(`Comprehensive report: ${path.join(outputDir, executionId, 'report.md')}`));
-      
-      // Show quick stats
-      const successfulAnalyses = results.filter(([_, content]) => !content.includes('Analysis Failed')).length;
+      printAnalysisSummary(results, outputDir, executionId);
+
+    } catch (error) {
+      exitWithError('analyze', error, spinner, 'Analysis failed');
+    }
+  });
+
+addCacheOptions(addCostWindowOptions(addModelOptions(addCredentialOptions(program.command('plan')))))
+  .description('Plan the analysis and write the plan to a JSON or YAML file for review before execute-plan')
+  .option('-o, --output <path>', 'Plan file to write (.json, .yaml or .yml)', './plan.yaml')
+  .option('-n, --top <number>', 'Number of top service-region combinations to plan for', '10')
+  .option('--no-playbooks', 'Plan all steps with the LLM instead of building the steps of well-known services from their playbooks')
+  .option('--playbooks-dir <path>', 'Directory of JSON or YAML playbooks adding to or replacing the built-in playbooks')
+  .option('--max-attempts <number>', 'Maximum attempts for throttled AWS and LLM calls', String(DEFAULT_RETRY_OPTIONS.maxAttempts))
+  .action(async (options) => {
+    const spinner = createSpinner('Initializing planning...').start();
 
-      console.log(chalk.blue('\n📊 Analysis Summary:'));
-      console.log(chalk.gray(`  Successful analyses: ${successfulAnalyses}/${results.length}`));
+    try {
+      const reportConfig: ReportConfig = {
+        outputPath: path.resolve(options.output),
+        includeCharts: true,
+        topN: parsePositiveInteger(options.top, 'Top number'),
+        model: modelConfigFromOptions(options),
+        costWindow: costWindowFromOptions(options),
+        retry: { ...DEFAULT_RETRY_OPTIONS, maxAttempts: parsePositiveInteger(options.maxAttempts, 'Max attempts') },
+        cache: cacheFromOptions(options),
+        generation: generationFromOptions(options),
+        prompts: await promptsFromOptions(options),
+        playbooks: options.playbooks !== false,
+        playbooksDir: options.playbooksDir
+      };
+
+      spinner.text = 'Loading AWS credentials...';
+      const credentials = await loadCredentials(options.credentials, options.profile);
+      spinner.succeed(`AWS credentials loaded from ${credentials.source}`);
+
+      const plan = await createPlan(reportConfig, credentials);
+      const planPath = await writePlanFile(reportConfig.outputPath, plan);
+
+      console.log(chalk.blue('\nPlanned analysis steps:'));
+      plan.steps.forEach((step, index) => {
+        console.log(chalk.gray(`${index + 1}. ${step.title} - ${step.service} (${step.region}): ${step.useTools.join(', ')}`));
+      });
+      console.log(chalk.green(`\n✅ Plan written to: ${planPath}`));
+      console.log(chalk.gray(`Review or edit the steps, then run: aws-cost-analyzer execute-plan ${path.relative(process.cwd(), planPath)}`));
+      printResult('plan', { planPath, ...plan }, [planPath]);
 
     } catch (error) {
-      spinner.fail('Analysis failed');
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error(chalk.red(`Error: ${errorMessage}`));
-      process.exit(1);
+      exitWithError('plan', error, spinner, 'Failed to plan analysis');
     }
   });
 
-program
-  .command('analyze-step')
+addNotificationOptions(addCacheOptions(addGuardrailOptions(addSpendOptions(addModelOptions(addCredentialOptions(program.command('execute-plan <file>')))))))
+  .description('Execute the steps of a JSON or YAML plan file and compile the report')
+  .option('-o, --output <path>', 'Output path for the markdown report', './output/aws-cost-report.md')
+  .option('--record', 'Record aws-tools invocation results into the execution directory')
+  .option('--replay <executionId>', 'Serve aws-tools results recorded by a previous execution instead of calling AWS')
+  .option('--replay-fallback', 'With --replay, serve the latest recording of the same tool and region when no recording matches the params')
+  .option('--rules-dir <path>', 'Directory of JavaScript modules with additional recommendation rules')
+  .option('--playbooks-dir <path>', 'Directory of JSON or YAML playbooks adding to or replacing the built-in playbooks')
+  .option('--concurrency <number>', 'Number of analysis steps to execute in parallel', '1')
+  .option('--max-attempts <number>', 'Maximum attempts for throttled AWS and LLM calls', String(DEFAULT_RETRY_OPTIONS.maxAttempts))
+  .option('--chart-format <format>', `Chart output: ${CHART_FORMATS.join(', ')}`, 'png')
+  .action(async (file, options) => {
+    const spinner = createSpinner('Reading plan file...').start();
+
+    try {
+      const plan = await readPlanFile(file, await loadPlaybooks(options.playbooksDir));
+      spinner.succeed(`Plan file is valid: ${plan.steps.length} steps`);
+
+      const reportConfig: ReportConfig = {
+        outputPath: path.resolve(options.output),
+        includeCharts: true,
+        topN: plan.serviceRegionCombos?.length || plan.steps.length,
+        record: options.record === true,
+        replayExecutionId: options.replay,
+        replayFallback: options.replayFallback === true,
+        model: modelConfigFromOptions(options),
+        costWindow: plan.costWindow,
+        rulesDir: options.rulesDir,
+        playbooksDir: options.playbooksDir,
+        concurrency: parsePositiveInteger(options.concurrency, 'Concurrency'),
+        retry: { ...DEFAULT_RETRY_OPTIONS, maxAttempts: parsePositiveInteger(options.maxAttempts, 'Max attempts') },
+        plan,
+        chartFormat: parseChartFormat(options.chartFormat),
+        guardrails: await guardrailsFromOptions(options),
+        cache: cacheFromOptions(options),
+        generation: generationFromOptions(options),
+        prompts: await promptsFromOptions(options),
+        ...spendFromOptions(options)
+      };
+      const notifications = await notificationsFromOptions(options);
+
+      spinner.start('Loading AWS credentials...');
+      const credentials = await credentialsFromOptions(options, reportConfig.replayExecutionId);
+      spinner.succeed(`AWS credentials loaded from ${credentials.source}`);
+
+      const outputDir = path.dirname(reportConfig.outputPath);
+      const executionId = ulid();
+      console.log(chalk.blue(`\n🔍 Executing ${plan.steps.length} planned steps...\n`));
+
+      const results = await analyze(reportConfig, outputDir, credentials, executionId);
+      await printExecutionResult('execute-plan', outputDir, executionId, undefined, notifications);
+      if (results.length === 0) {
+        console.log(chalk.yellow('No cost data found to analyze'));
+        return;
+      }
+
+      printAnalysisSummary(results, outputDir, executionId);
+
+    } catch (error) {
+      exitWithError('execute-plan', error, spinner, 'Failed to execute plan');
+    }
+  });
+
+addCacheOptions(addGuardrailOptions(addModelOptions(addCredentialOptions(program.command('analyze-step'), '--credentials <path>'))))
   .description('Analyze a specific service-region combination with specified tools')
   .option('-s, --service <service>', 'AWS service name', '')
   .option('-r, --region <region>', 'AWS region', 'us-east-1')
   .option('-c, --cost <cost>', 'Service cost', '0')
   .option('-t, --tools <tools>', 'Comma-separated list of tools to use', 'awsGetCostAndUsage')
   .option('-o, --output <path>', 'Output path for the markdown report', './output/step-analysis.md')
+  .option('--record', 'Record aws-tools invocation results into the execution directory')
+  .option('--replay <executionId>', 'Serve aws-tools results recorded by a previous execution instead of calling AWS')
+  .option('--replay-fallback', 'With --replay, serve the latest recording of the same tool and region when no recording matches the params')
+  .option('--chart-format <format>', `Chart output: ${CHART_FORMATS.join(', ')}`, 'png')
   .action(async (options) => {
-    const spinner = ora('Initializing step analysis...').start();
+    const spinner = createSpinner('Initializing step analysis...').start();
     
     try {
       // Load AWS credentials
       spinner.text = 'Loading AWS credentials...';
-      const credentials = await loadCredentials(options.credentials || '.aws-creds.json');
-      spinner.succeed('AWS credentials loaded');
+      const credentials = await credentialsFromOptions(options, options.replay);
+      spinner.succeed(`AWS credentials loaded from ${credentials.source}`);
 
       // Parse tools
       const tools = options.tools.split(',').map((t: string) => t.trim());
       const cost = parseFloat(options.cost) || 0;
 
       if (!options.service) {
-        throw new Error('Service name is required. Use -s or --service to specify.');
+        throw new InvalidArgumentError('Service name is required. Use -s or --service to specify.');
       }
 
       // Create analysis step
@@ -124,19 +705,33 @@ program
 
       // Create analyzer and run step analysis
       const outputDir = path.dirname(options.output);
-      const model = createModel();
+      const model = createModel(modelConfigFromOptions(options));
       const executionId = ulid();
+      const cacheConfig = cacheFromOptions(options);
+      const invocationOptions: InvocationOptions = {
+        recording: resolveRecordingConfig(outputDir, executionId, options.record === true, options.replay, undefined, options.replayFallback === true),
+        cache: cacheConfig && createToolCache(cacheConfig),
+        trace: createTracer(path.join(outputDir, executionId)),
+        spendScope: { phase: 'analysis', step: step.title },
+        chartFormat: parseChartFormat(options.chartFormat),
+        guardrails: await guardrailsFromOptions(options),
+        generation: generationFromOptions(options),
+        prompts: await promptsFromOptions(options)
+      };
       
-      const result = await executeAnalysisStep(step, outputDir, model, credentials, executionId);
+      const result = await executeAnalysisStep(step, outputDir, model, credentials, executionId, invocationOptions);
 
       // Generate report for this step in the structured directory  
       const sanitizedService = step.service.replace(/\s+/g, '_');
       const serviceRegion = `${sanitizedService}-${step.region}`;
       
       const reportPath = await generateStepReport(result, outputDir, executionId, serviceRegion);
+      const findingsModel = instrumentModel(model, invocationOptions, { phase: 'analysis', step: step.title });
+      const findings = await generateStepFindings(step, result, findingsModel, outputDir, executionId, serviceRegion, undefined, invocationOptions);
 
       console.log(chalk.green('\n✅ Step analysis completed successfully!'));
       console.log(chalk.gray(`Report: ${reportPath}`));
+      console.log(chalk.gray(`Findings: ${findings.insights.length} insights, ${findings.recommendations.length} recommendations`));
       
       // Show quick stats
       const successfulAnalysis = result && !result.includes('Analysis failed');
@@ -149,12 +744,89 @@ program
       console.log(chalk.gray(`  Tools used: ${tools.join(', ')}`));
       console.log(chalk.gray(`  Analysis successful: ${successfulAnalysis ? 'Yes' : 'No'}`));
       console.log(chalk.gray(`  Charts generated: ${chartsGenerated}`));
+      if (invocationOptions.cache) {
+        console.log(chalk.gray(`  Tool cache: ${formatCacheStats(invocationOptions.cache.stats())}`));
+      }
+
+      printResult('analyze-step', {
+        executionId,
+        step,
+        reportPath: path.resolve(reportPath),
+        findingsPath: path.resolve(findingsPathFor(reportPath)),
+        status: findings.status,
+        insights: findings.insights.length,
+        recommendations: findings.recommendations.length,
+        error: findings.error,
+        cache: invocationOptions.cache?.stats()
+      }, [path.resolve(reportPath)]);
+      if (findings.status === 'failed') {
+        process.exitCode = EXIT_CODES.partial;
+      }
 
     } catch (error) {
-      spinner.fail('Step analysis failed');
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error(chalk.red(`Error: ${errorMessage}`));
-      process.exit(1);
+      exitWithError('analyze-step', error, spinner, 'Step analysis failed');
+    }
+  });
+
+const cacheCommand = program
+  .command('cache')
+  .description('Inspect and clear the cache of aws-tools results');
+
+cacheCommand
+  .command('list')
+  .description('List cached tool results')
+  .option('--cache-dir <path>', 'Directory of the tool result cache', DEFAULT_CACHE_DIR)
+  .option('-t, --tool <name>', 'Only list results of this tool')
+  .action(async (options) => {
+    try {
+      const now = Date.now();
+      const entries = (await listCacheEntries(path.resolve(options.cacheDir)))
+        .filter(entry => !options.tool || entry.toolName === options.tool);
+
+      printResult('cache list', {
+        directory: path.resolve(options.cacheDir),
+        entries: entries.map(entry => ({ ...entry, expired: new Date(entry.expiresAt).getTime() <= now }))
+      });
+      if (entries.length === 0) {
+        console.log(chalk.yellow(`No cached tool results in ${path.resolve(options.cacheDir)}`));
+        return;
+      }
+
+      console.log(chalk.blue(`Cached tool results in ${path.resolve(options.cacheDir)}:\n`));
+      entries.forEach(entry => {
+        const expired = new Date(entry.expiresAt).getTime() <= now;
+        const status = expired ? chalk.red('expired') : chalk.green(`expires ${entry.expiresAt}`);
+        console.log(`  ${entry.toolName} ${chalk.gray(`${entry.region}, account ${entry.account}, ${(entry.size / 1024).toFixed(1)} KB`)}`);
+        console.log(chalk.gray(`    params: ${JSON.stringify(entry.params)}`));
+        console.log(`    cached ${entry.cachedAt}, ${status}`);
+      });
+
+      const expiredCount = entries.filter(entry => new Date(entry.expiresAt).getTime() <= now).length;
+      const totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+      console.log(chalk.green(`\nTotal: ${entries.length} results (${expiredCount} expired), ${(totalSize / 1024).toFixed(1)} KB`));
+
+    } catch (error) {
+      exitWithError('cache list', error);
+    }
+  });
+
+cacheCommand
+  .command('clear')
+  .description('Remove cached tool results')
+  .option('--cache-dir <path>', 'Directory of the tool result cache', DEFAULT_CACHE_DIR)
+  .option('-t, --tool <name>', 'Only remove results of this tool')
+  .option('--expired', 'Only remove expired results')
+  .action(async (options) => {
+    try {
+      const removed = await clearCache(path.resolve(options.cacheDir), {
+        expiredOnly: options.expired === true,
+        toolName: options.tool
+      });
+      console.log(chalk.green(`✅ Removed ${removed} cached tool results`));
+      printResult('cache clear', { directory: path.resolve(options.cacheDir), removed });
+
+    } catch (error) {
+      exitWithError('cache clear', error);
     }
   });
 
@@ -167,33 +839,36 @@ program
       await createExampleCredentialsFile(options.output);
       console.log(chalk.green('✅ Example credentials file created'));
       console.log(chalk.yellow('⚠️  Please update the file with your actual AWS credentials'));
+      printResult('init', { path: path.resolve(options.output) }, [path.resolve(options.output)]);
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error(chalk.red(`Error: ${errorMessage}`));
-      process.exit(1);
+      exitWithError('init', error);
     }
   });
 
-program
-  .command('validate')
+addCredentialOptions(program.command('validate'))
   .description('Validate AWS credentials and connection')
-  .option('-c, --credentials <path>', 'Path to AWS credentials file', '.aws-creds.json')
   .action(async (options) => {
-    const spinner = ora('Validating AWS credentials...').start();
+    const spinner = createSpinner('Validating AWS credentials...').start();
     
     try {
-      const credentials = await loadCredentials(options.credentials);
+      const credentials = await loadCredentials(options.credentials, options.profile);
       spinner.succeed('AWS credentials are valid');
       
       console.log(chalk.blue('Credentials info:'));
+      console.log(chalk.gray(`  Source: ${credentials.source}`));
       console.log(chalk.gray(`  Region: ${credentials.region}`));
       console.log(chalk.gray(`  Access Key ID: ${credentials.accessKeyId.substring(0, 8)}...`));
+      console.log(chalk.gray(`  Temporary credentials: ${credentials.sessionToken ? 'Yes' : 'No'}`));
+      printResult('validate', {
+        valid: true,
+        source: credentials.source,
+        region: credentials.region,
+        accessKeyId: `${credentials.accessKeyId.substring(0, 8)}...`,
+        temporary: !!credentials.sessionToken
+      });
       
     } catch (error) {
-      spinner.fail('Validation failed');
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error(chalk.red(`Error: ${errorMessage}`));
-      process.exit(1);
+      exitWithError('validate', error, spinner, 'Validation failed');
     }
   });
 
@@ -212,48 +887,497 @@ program
       });
       
       console.log(chalk.green(`Total: ${tools.length} tools available`));
+      printResult('list-tools', {
+        tools: tools.map(tool => ({ name: tool.name, description: tool.description, inputSchema: tool.inputSchema }))
+      }, tools.map(tool => tool.name));
       
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error(chalk.red(`Error: ${errorMessage}`));
-      process.exit(1);
+      exitWithError('list-tools', error);
     }
   });
 
 program
-  .command('generate-report')
+  .command('list-rules')
+  .description('List the recommendation rules, including custom rules from a rules directory')
+  .option('--rules-dir <path>', 'Directory of JavaScript modules with additional recommendation rules')
+  .action(async (options) => {
+    try {
+      const rules = await loadRules(options.rulesDir);
+
+      console.log(chalk.blue('Recommendation Rules:\n'));
+
+      rules.forEach((rule, index) => {
+        console.log(chalk.gray(`${index + 1}. ${rule.id} - ${rule.title}`));
+        console.log(chalk.gray(`   ${rule.description}`));
+        console.log(chalk.gray(`   Services: ${rule.services ? rule.services.join(', ') : 'all'}`));
+        console.log('');
+      });
+
+      console.log(chalk.green(`Total: ${rules.length} rules available`));
+      printResult('list-rules', {
+        rules: rules.map(rule => ({ id: rule.id, title: rule.title, description: rule.description, services: rule.services }))
+      }, rules.map(rule => rule.id));
+
+    } catch (error) {
+      exitWithError('list-rules', error);
+    }
+  });
+
+program
+  .command('list-playbooks')
+  .description('List the service playbooks that build the analysis steps of well-known services')
+  .option('--playbooks-dir <path>', 'Directory of JSON or YAML playbooks adding to or replacing the built-in playbooks')
+  .action(async (options) => {
+    try {
+      const playbooks = await loadPlaybooks(options.playbooksDir);
+
+      console.log(chalk.blue('Service Playbooks:\n'));
+
+      playbooks.forEach((playbook, index) => {
+        console.log(chalk.gray(`${index + 1}. ${playbook.id} - ${playbook.title}`));
+        console.log(chalk.gray(`   Services: ${playbook.services.join(', ')}`));
+        console.log(chalk.gray(`   Tools: ${playbook.tools.join(', ')}`));
+        Object.entries(playbook.toolPresets || {}).forEach(([toolName, params]) => {
+          console.log(chalk.gray(`   Presets of ${toolName}: ${JSON.stringify(params)}`));
+        });
+        playbook.checklist.forEach(item => console.log(chalk.gray(`   - ${item}`)));
+        // Presets of params the installed aws-tools no longer declare are not applied
+        validatePlaybook(playbook).forEach(problem => console.log(chalk.yellow(`   ⚠️  ${problem}`)));
+        console.log('');
+      });
+
+      console.log(chalk.green(`Total: ${playbooks.length} playbooks available`));
+      printResult('list-playbooks', { playbooks }, playbooks.map(playbook => playbook.id));
+
+    } catch (error) {
+      exitWithError('list-playbooks', error);
+    }
+  });
+
+program
+  .command('list-prompts')
+  .description('List the prompt packs and the prompt templates with their variables and versions')
+  .option('--prompt-pack <name>', `Prompt pack to resolve the templates of (default: ${DEFAULT_PROMPT_PACK})`)
+  .option('--prompts-dir <path>', 'Directory of <template>.md files overriding templates of the prompt pack')
+  .option('--show <template>', 'Print the text of a template')
+  .action(async (options) => {
+    try {
+      const prompts = await promptsFromOptions(options);
+      if (options.show !== undefined && !(options.show in PROMPT_TEMPLATES)) {
+        throw new InvalidArgumentError(`Unknown prompt template: ${options.show}. Templates: ${Object.keys(PROMPT_TEMPLATES).join(', ')}`);
+      }
+
+      const templates = (Object.keys(PROMPT_TEMPLATES) as PromptName[]).map(name => ({
+        name,
+        description: PROMPT_TEMPLATES[name].description,
+        variables: PROMPT_TEMPLATES[name].variables,
+        required: PROMPT_TEMPLATES[name].required,
+        version: prompts.templates[name].version,
+        source: prompts.templates[name].source
+      }));
+
+      if (options.show) {
+        const template = prompts.templates[options.show as PromptName];
+        printResult('list-prompts', { pack: prompts.pack, template: { name: options.show, ...template } }, [template.text]);
+        console.log(template.text);
+        return;
+      }
+
+      console.log(chalk.blue('Prompt Packs:\n'));
+      PROMPT_PACKS.forEach(pack => {
+        const marker = pack.name === prompts.pack ? chalk.green(' (selected)') : '';
+        console.log(chalk.gray(`  ${pack.name}@${pack.version}${marker} - ${pack.description}`));
+      });
+
+      console.log(chalk.blue(`\nPrompt Templates${prompts.directory ? ` (overrides from ${prompts.directory})` : ''}:\n`));
+      templates.forEach((template, index) => {
+        console.log(chalk.gray(`${index + 1}. ${template.name} [${template.version}] - ${template.description}`));
+        Object.entries(template.variables).forEach(([variable, description]) => {
+          const required = template.required.includes(variable) ? ' (required)' : '';
+          console.log(chalk.gray(`   {{${variable}}}${required}: ${description}`));
+        });
+        console.log('');
+      });
+
+      printResult('list-prompts', {
+        pack: prompts.pack,
+        packs: PROMPT_PACKS.map(pack => ({ name: pack.name, version: pack.version, description: pack.description })),
+        templates
+      }, templates.map(template => `${template.name} ${template.version}`));
+
+    } catch (error) {
+      exitWithError('list-prompts', error);
+    }
+  });
+
+addModelOptions(addCredentialOptions(program.command('generate-report')))
   .description('Generate comprehensive report from existing analysis files')
   .requiredOption('-e, --execution-id <id>', 'Execution ID to generate report for')
   .option('-o, --output-dir <path>', 'Output directory', './output')
   .action(async (options) => {
-    const spinner = ora('Generating comprehensive report...').start();
+    const spinner = createSpinner('Generating comprehensive report...').start();
     
     try {
-      // Load AWS credentials for LLM access
+      // Load AWS credentials for LLM access through Bedrock; other providers need none
+      const modelConfig = modelConfigFromOptions(options);
       spinner.text = 'Loading AWS credentials...';
-      const credentials = await loadCredentials();
-      spinner.succeed('AWS credentials loaded');
+      const credentials = await loadModelCredentials(modelConfig, options.credentials, options.profile);
+      if (credentials) {
+        spinner.succeed(`AWS credentials loaded from ${credentials.source}`);
+      }
 
       // Generate report from existing analysis files
       spinner.text = 'Reading existing analysis files...';
-      const reportPath = await generateReportFromExisting(options.executionId, options.outputDir, credentials);
+      const reportPath = await generateReportFromExisting(
+        options.executionId,
+        options.outputDir,
+        credentials,
+        modelConfig,
+        generationFromOptions(options),
+        await promptsFromOptions(options)
+      );
       
       spinner.succeed('Comprehensive report generated');
       console.log(chalk.green(`\n✅ Report generated: ${reportPath}`));
+      printResult('generate-report', { executionId: options.executionId, reportPath: path.resolve(reportPath) }, [path.resolve(reportPath)]);
       
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      spinner.fail(`Failed to generate report: ${errorMessage}`);
-      console.error(chalk.red(`Error: ${errorMessage}`));
-      process.exit(1);
+      exitWithError('generate-report', error, spinner, 'Failed to generate report');
+    }
+  });
+
+program
+  .command('export-html')
+  .description('Export report.md and the step reports it links to as one self-contained HTML file')
+  .requiredOption('-e, --execution-id <id>', 'Execution ID to export')
+  .option('-o, --output-dir <path>', 'Output directory', './output')
+  .option('-f, --file <path>', `HTML file to write (default: <output-dir>/<execution-id>/${STANDALONE_REPORT_FILE})`)
+  .option('--interactive', 'Render charts as interactive Vega charts with tooltips (default for executions run with --chart-format interactive)')
+  .action(async (options) => {
+    const spinner = createSpinner('Exporting HTML report...').start();
+
+    try {
+      const executionPath = path.join(options.outputDir, options.executionId);
+      if (!await fs.pathExists(executionPath)) {
+        throw new Error(`Execution directory not found: ${executionPath}`);
+      }
+
+      const manifest = await readManifest(executionPath);
+      const htmlPath = await exportHtmlReport(executionPath, options.file, {
+        interactive: options.interactive ?? manifest?.config.chartFormat === 'interactive'
+      });
+      spinner.succeed('HTML report exported');
+      console.log(chalk.green(`\n✅ Report exported: ${htmlPath}`));
+      printResult('export-html', { executionId: options.executionId, htmlPath: path.resolve(htmlPath) }, [path.resolve(htmlPath)]);
+
+    } catch (error) {
+      exitWithError('export-html', error, spinner, 'Failed to export HTML report');
+    }
+  });
+
+program
+  .command('diff <executionA> <executionB>')
+  .description('Compare the cost drivers, planned steps and recommendations of two executions')
+  .option('-o, --output-dir <path>', 'Output directory', './output')
+  .option('-f, --file <path>', 'Markdown file to write, with a JSON file of the same name (default: <output-dir>/diff-<executionA>-<executionB>.md)')
+  .option('--min-change <percent>', 'Minimum cost change for a combination to count as grown or shrunk, in percent', String(DEFAULT_MIN_CHANGE_PERCENT))
+  .action(async (executionA, executionB, options) => {
+    const spinner = createSpinner('Comparing executions...').start();
+
+    try {
+      const minChange = parseFloat(options.minChange);
+      if (isNaN(minChange) || minChange < 0) {
+        throw new InvalidArgumentError('Minimum change must be a non-negative number');
+      }
+
+      const snapshotA = await loadExecutionSnapshot(path.join(options.outputDir, executionA));
+      const snapshotB = await loadExecutionSnapshot(path.join(options.outputDir, executionB));
+      const diff = diffExecutions(snapshotA, snapshotB, minChange);
+      const { markdownPath, jsonPath } = await writeExecutionDiff(
+        diff,
+        options.file || path.join(options.outputDir, `diff-${executionA}-${executionB}.md`)
+      );
+      spinner.succeed(`Compared ${snapshotA.serviceRegionCombos.length} and ${snapshotB.serviceRegionCombos.length} service-region combinations`);
+
+      const { totals } = diff;
+      console.log(chalk.blue('\n📈 Cost drivers:'));
+      (['new', 'grown', 'shrunk', 'disappeared'] as const).forEach(change => {
+        const drivers = diff.costDrivers.filter(driver => driver.change === change);
+        const color = change === 'new' || change === 'grown' ? chalk.red : chalk.green;
+        drivers.forEach(driver => {
+          const location = [driver.account, driver.service, driver.region].filter(Boolean).join(' / ');
+          const percent = driver.deltaPercent !== undefined ? ` (${driver.deltaPercent >= 0 ? '+' : ''}${driver.deltaPercent.toFixed(1)}%)` : '';
+          console.log(color(`  ${change.padEnd(11)} ${location}: $${(driver.costA ?? 0).toFixed(2)} → $${(driver.costB ?? 0).toFixed(2)}${percent}`));
+        });
+      });
+      console.log(chalk.gray(`  Total: $${totals.costA.toFixed(2)} → $${totals.costB.toFixed(2)}`));
+      console.log(chalk.gray(`  Step changes: ${diff.steps.length}${diff.recommendations ? `, recommendation changes: ${diff.recommendations.length}` : ''}`));
+      console.log(chalk.green(`\n✅ Diff written to: ${markdownPath}`));
+      console.log(chalk.gray(`JSON: ${jsonPath}`));
+      printResult('diff', { markdownPath: path.resolve(markdownPath), jsonPath: path.resolve(jsonPath), diff }, [path.resolve(markdownPath)]);
+
+    } catch (error) {
+      exitWithError('diff', error, spinner, 'Failed to compare executions');
+    }
+  });
+
+program
+  .command('trace <executionId>')
+  .description('Show the timeline of an execution from its trace: LLM calls, tool calls and errors per step')
+  .option('-o, --output-dir <path>', 'Output directory', './output')
+  .option('-t, --tool <name>', 'Only show calls of this tool')
+  .option('-s, --step <step>', 'Only show the step with this number or with this text in its title')
+  .option('-a, --account <name>', 'Only show this account of a multi-account execution')
+  .option('--full', 'Show full prompts, responses and tool result summaries')
+  .action(async (executionId, options) => {
+    try {
+      const events = await readTrace(path.join(options.outputDir, executionId));
+      const filtered = filterTraceEvents(events, {
+        toolName: options.tool,
+        step: options.step,
+        account: options.account
+      });
+      const timeline = formatTraceTimeline(filtered, { full: options.full === true });
+      printResult('trace', { executionId, events: filtered }, filtered.length > 0 ? [timeline] : []);
+      if (filtered.length === 0) {
+        console.log(chalk.yellow(`No trace events match in execution ${executionId} (${events.length} events in total)`));
+        return;
+      }
+
+      console.log(chalk.blue(`🧭 Trace of execution ${executionId}\n`));
+      console.log(timeline);
+
+      const toolCalls = filtered.filter(event => event.type === 'tool-call').length;
+      const llmCalls = filtered.filter(event => event.type === 'llm-call').length;
+      const errors = filtered.filter(event => event.error).length;
+      console.log(chalk.gray(`\n${filtered.length} events: ${llmCalls} LLM calls, ${toolCalls} tool calls, ${errors} errors`));
+
+    } catch (error) {
+      exitWithError('trace', error);
+    }
+  });
+
+program
+  .command('detect-anomalies')
+  .description('Scan the saved tool datapoints of an execution for cost and usage anomalies')
+  .requiredOption('-e, --execution-id <id>', 'Execution ID to scan')
+  .option('-o, --output-dir <path>', 'Output directory', './output')
+  .option('--z-threshold <number>', 'Minimum absolute z-score for spikes and drops', String(DEFAULT_ANOMALY_OPTIONS.zThreshold))
+  .option('--window <number>', 'Number of preceding points in the rolling baseline', String(DEFAULT_ANOMALY_OPTIONS.windowSize))
+  .option('--min-change <percent>', 'Minimum change versus the baseline, in percent', String(DEFAULT_ANOMALY_OPTIONS.minRelativeChange * 100))
+  .action(async (options) => {
+    const spinner = createSpinner('Detecting anomalies...').start();
+
+    try {
+      const executionPath = path.join(options.outputDir, options.executionId);
+      if (!await fs.pathExists(executionPath)) {
+        throw new Error(`Execution directory not found: ${executionPath}`);
+      }
+
+      const zThreshold = parseFloat(options.zThreshold);
+      const windowSize = parseInt(options.window, 10);
+      const minChange = parseFloat(options.minChange);
+      if (isNaN(zThreshold) || zThreshold <= 0 || isNaN(windowSize) || windowSize <= 1 || isNaN(minChange) || minChange < 0) {
+        throw new InvalidArgumentError('Thresholds must be positive numbers and the window at least 2');
+      }
+
+      const report = await writeAnomalyReport(executionPath, {
+        zThreshold,
+        windowSize,
+        minRelativeChange: minChange / 100
+      });
+      spinner.succeed(`Scanned ${report.seriesScanned} series in ${report.filesScanned} datapoint files`);
+      const anomaliesPath = path.resolve(executionPath, ANOMALIES_FILE);
+      printResult('detect-anomalies', { executionId: options.executionId, anomaliesPath, ...report }, [anomaliesPath]);
+
+      if (report.anomalies.length === 0) {
+        console.log(chalk.green('\n✅ No anomalies detected'));
+        return;
+      }
+
+      console.log(chalk.blue(`\n🔎 ${report.anomalies.length} anomalies detected:`));
+      report.anomalies.forEach(anomaly => {
+        const color = anomaly.severity === 'high' ? chalk.red : anomaly.severity === 'medium' ? chalk.yellow : chalk.gray;
+        const location = [anomaly.source.account, anomaly.source.serviceRegion, anomaly.source.tool].filter(Boolean).join(' / ');
+        const change = anomaly.changePercent !== undefined ? ` (${anomaly.changePercent >= 0 ? '+' : ''}${anomaly.changePercent.toFixed(1)}%)` : '';
+        console.log(color(`  ${anomaly.id} [${anomaly.severity}] ${anomaly.type} in ${location}: ${anomaly.series} at ${anomaly.timestamp} = ${anomaly.value.toFixed(2)} vs ${anomaly.baseline.toFixed(2)}${change}`));
+      });
+      console.log(chalk.gray(`\nAnomalies file: ${anomaliesPath}`));
+
+    } catch (error) {
+      exitWithError('detect-anomalies', error, spinner, 'Failed to detect anomalies');
+    }
+  });
+
+addCacheOptions(addCredentialOptions(program.command('check')))
+  .description('Check costs against budget thresholds without any LLM calls, for CI pipelines')
+  .requiredOption('-t, --thresholds <path>', 'JSON or YAML file with cost and growth limits per service, region, service-region combination and in total')
+  .option('-o, --output <path>', 'Result file (default: ./output/cost-check.xml, or .json with --format json)')
+  .option('-f, --format <format>', `Result file format: ${CHECK_RESULT_FORMATS.join(', ')}`, 'junit')
+  .option('--from <date>', 'Start of the cost window (YYYY-MM-DD, inclusive)')
+  .option('--to <date>', 'End of the cost window (YYYY-MM-DD, exclusive, default: today)')
+  .option('--granularity <granularity>', 'Cost granularity: DAILY or MONTHLY', 'MONTHLY')
+  .action(async (options) => {
+    const spinner = createSpinner('Loading thresholds...').start();
+
+    try {
+      if (!CHECK_RESULT_FORMATS.includes(options.format)) {
+        throw new InvalidArgumentError(`Result format must be one of: ${CHECK_RESULT_FORMATS.join(', ')}`);
+      }
+      const thresholds = await readThresholdsFile(options.thresholds).catch(error => {
+        throw new InvalidArgumentError(error instanceof Error ? error.message : String(error));
+      });
+      // Growth limits need the previous window, so it is always compared
+      const costWindow = costWindowFromOptions({ ...options, rankBy: 'growth' });
+      const cacheConfig = cacheFromOptions(options);
+
+      spinner.text = 'Loading AWS credentials...';
+      const credentials = await loadCredentials(options.credentials, options.profile);
+      spinner.text = 'Fetching costs...';
+      const report = await checkThresholds(thresholds, credentials, {
+        cache: cacheConfig && createToolCache(cacheConfig)
+      }, costWindow);
+      const outputPath = await writeCheckResult(
+        report,
+        options.output || `./output/cost-check.${options.format === 'json' ? 'json' : 'xml'}`,
+        options.format
+      );
+      spinner.succeed(`Checked ${report.checks.length} limits against $${report.totalCost.toFixed(2)} of spend`);
+
+      printResult('check', { passed: report.failures === 0, outputPath, ...report }, report.checks
+        .filter(check => check.status === 'failed')
+        .map(check => check.message));
+      if (report.failures > 0) {
+        process.exitCode = EXIT_CODES.thresholdsBreached;
+      }
+
+      report.checks.forEach(check => {
+        const color = check.status === 'failed' ? chalk.red : check.status === 'skipped' ? chalk.yellow : chalk.gray;
+        const icon = check.status === 'failed' ? '❌' : check.status === 'skipped' ? '⏭️ ' : '✅';
+        console.log(color(`  ${icon} [${check.scope}] ${check.message}`));
+      });
+      if (report.failures > 0) {
+        console.log(chalk.red(`\n🚨 ${report.failures} of ${report.checks.length} limits breached`));
+      } else {
+        console.log(chalk.green('\n✅ All limits respected'));
+      }
+      console.log(chalk.gray(`Result file: ${outputPath}`));
+
+    } catch (error) {
+      exitWithError('check', error, spinner, 'Cost check failed');
+    }
+  });
+
+addNotificationOptions(program.command('notify'))
+  .description('Post the summary of an existing execution to webhooks')
+  .requiredOption('-e, --execution-id <id>', 'Execution ID to notify about')
+  .option('-o, --output-dir <path>', 'Output directory', './output')
+  .action(async (options) => {
+    try {
+      const notifications = await notificationsFromOptions(options);
+      if (!notifications) {
+        throw new InvalidArgumentError('No webhooks configured: use --webhooks or --webhook');
+      }
+      const executionPath = path.resolve(options.outputDir, options.executionId);
+      if (!await fs.pathExists(executionPath)) {
+        throw new Error(`Execution directory not found: ${executionPath}`);
+      }
+
+      const results = await notifyExecution(executionPath, notifications);
+      const failed = results.filter(result => !result.ok);
+      printResult('notify', { executionId: options.executionId, results }, failed.map(result => `${result.webhook}: ${result.error}`));
+      if (failed.length > 0) {
+        console.error(chalk.red(`❌ ${failed.length} of ${results.length} webhooks could not be notified`));
+        process.exitCode = EXIT_CODES.failure;
+        return;
+      }
+      console.log(chalk.green(`\n✅ Notified ${results.length} webhooks`));
+
+    } catch (error) {
+      exitWithError('notify', error);
+    }
+  });
+
+const configCommand = program
+  .command('config')
+  .description('Show, validate and create configuration files');
+
+configCommand
+  .command('show')
+  .description('Show the effective configuration: defaults, overridden by the user config, the project config and environment variables')
+  .option('--sources', 'Show the layer each setting comes from')
+  .action(async (options) => {
+    try {
+      const layers = await loadConfigLayers({ configPath: program.opts().config });
+      const config = mergeConfigLayers(layers);
+      const sources = configSources(layers);
+
+      printResult('config show', {
+        config,
+        layers: layers.map(layer => ({ source: layer.source, origin: layer.origin })),
+        sources
+      });
+
+      console.log(chalk.blue('Configuration layers (later layers take precedence, command-line options over all):'));
+      layers.forEach(layer => console.log(chalk.gray(`  ${layer.source}${layer.origin ? `: ${layer.origin}` : ''}`)));
+      console.log('');
+      if (options.sources) {
+        Object.entries(sources).forEach(([key, source]) => {
+          const value = key.split('.').reduce<unknown>((current, part) => (current as Record<string, unknown> | undefined)?.[part], config);
+          console.log(`  ${key} = ${JSON.stringify(value)} ${chalk.gray(`(${source})`)}`);
+        });
+      } else {
+        console.log(formatConfig(config));
+      }
+
+    } catch (error) {
+      exitWithError('config show', error);
+    }
+  });
+
+configCommand
+  .command('validate [file]')
+  .description('Validate a configuration file (default: the --config file or the nearest project configuration file)')
+  .action(async (file) => {
+    try {
+      const configPath = file || program.opts().config || await findProjectConfigFile();
+      if (!configPath) {
+        throw new InvalidArgumentError(`No configuration file found: create one with "config init" or pass a path`);
+      }
+      await readConfigFile(configPath);
+      console.log(chalk.green(`✅ Configuration file is valid: ${path.resolve(configPath)}`));
+      printResult('config validate', { path: path.resolve(configPath), valid: true }, [path.resolve(configPath)]);
+
+    } catch (error) {
+      exitWithError('config validate', error);
+    }
+  });
+
+configCommand
+  .command('init')
+  .description('Create a project configuration file with the default settings')
+  .option('-o, --output <path>', 'Path of the configuration file, YAML for .yaml or .yml', PROJECT_CONFIG_FILES[0])
+  .option('--force', 'Overwrite an existing file')
+  .action(async (options) => {
+    try {
+      const outputPath = path.resolve(options.output);
+      if (await fs.pathExists(outputPath) && !options.force) {
+        throw new Error(`Configuration file already exists: ${outputPath} (use --force to overwrite)`);
+      }
+      await fs.writeFile(outputPath, formatConfig(defaultConfig({ includeLocal: false }), outputPath), 'utf8');
+      console.log(chalk.green(`✅ Configuration file created: ${outputPath}`));
+      printResult('config init', { path: outputPath }, [outputPath]);
+
+    } catch (error) {
+      exitWithError('config init', error);
     }
   });
 
 // Handle unknown commands
 program.on('command:*', () => {
-  console.error(chalk.red('Invalid command: %s'), program.args.join(' '));
-  console.log(chalk.yellow('See --help for a list of available commands.'));
-  process.exit(1);
+  configureOutput(program.opts());
+  console.error(chalk.yellow('See --help for a list of available commands.'));
+  exitWithError(program.args[0], new InvalidArgumentError(`Invalid command: ${program.args.join(' ')}`));
 });
 
 // Show help if no command provided
@@ -268,8 +1392,24 @@ if (!process.argv.slice(2).length) {
   console.log(chalk.gray('  aws-cost-analyzer analyze-step -s "Amazon S3" -r "us-west-2" -c "150.50" -t "awsGetCostAndUsage"'));
   console.log(chalk.blue('\nReport generation:'));
   console.log(chalk.gray('  aws-cost-analyzer generate-report -e "01K1JNBJM58W2ZP9FEDH8SAM13"  # Generate report from existing analysis'));
+  console.log(chalk.gray('  aws-cost-analyzer export-html -e "01K1JNBJM58W2ZP9FEDH8SAM13"      # Export a single-file HTML report'));
+  console.log(chalk.gray('  aws-cost-analyzer diff 01K1JNBJM58W2ZP9FEDH8SAM13 01K3QZ7W9X2M4B8N6C5D1E0F2G    # Compare two executions'));
   console.log(chalk.blue('\nUtility commands:'));
   console.log(chalk.gray('  aws-cost-analyzer list-tools       # List all available AWS tools'));
+  console.log(chalk.gray('  aws-cost-analyzer list-rules       # List all recommendation rules'));
+  console.log(chalk.gray('  aws-cost-analyzer list-playbooks   # List the service playbooks'));
 }
 
-program.parse(process.argv); 
\ No newline at end of file
+try {
+  await program.parseAsync(process.argv);
+} catch (error) {
+  // Commander has printed its own message for invalid options and arguments, and for help and version
+  if (!(error instanceof CommanderError)) {
+    throw error;
+  }
+  configureOutput(program.opts());
+  if (error.exitCode !== 0 && isJsonOutput()) {
+    exitWithError(program.args[0] || program.name(), new InvalidArgumentError(error.message.replace(/^error: /, '')));
+  }
+  process.exit(error.exitCode === 0 ? EXIT_CODES.success : EXIT_CODES.usage);
+} 
\ No newline at end of file
@@ -1,11 +1,106 @@
 import fs from 'fs-extra';
 import * as path from 'path';
-import { AWSCredentials, AWSCredentialsFile } from './types.js';
+import { fromIni, fromNodeProviderChain } from '@aws-sdk/credential-providers';
+import { STSClient, GetCallerIdentityCommand } from '@aws-sdk/client-sts';
+import { getProfileName, loadSharedConfigFiles } from '@smithy/shared-ini-file-loader';
+import { AWSCredentials, AWSCredentialsFile, AccountTarget, ModelConfig } from './types.js';
+
+const DEFAULT_CREDENTIALS_FILE = '.aws-creds.json';
+const DEFAULT_REGION = 'us-east-1';
+
+/**
+ * Load AWS credentials.
+ *
+ * Resolution order:
+ * 1. A named profile from ~/.aws/credentials and ~/.aws/config, when `profile` is given
+ * 2. The `.aws-creds.json` style file at `credentialsPath`, when given or present at the default location
+ * 3. The standard AWS provider chain (environment variables, AWS_PROFILE or default profile,
+ *    credential_process, SSO, web identity, instance metadata)
+ *
+ * Profiles support `credential_process` and role assumption (`role_arn` with `source_profile`
+ * or `credential_source`).
+ */
+export async function loadCredentials(credentialsPath?: string, profile?: string): Promise<AWSCredentials> {
+  if (profile) {
+    return loadCredentialsFromChain(profile);
+  }
+
+  if (credentialsPath || await fs.pathExists(path.resolve(DEFAULT_CREDENTIALS_FILE))) {
+    return loadCredentialsFile(credentialsPath || DEFAULT_CREDENTIALS_FILE);
+  }
+
+  return loadCredentialsFromChain();
+}
+
+/**
+ * Load the AWS credentials an LLM provider needs. Only Bedrock authenticates with AWS,
+ * so the other providers run without any credentials.
+ */
+export async function loadModelCredentials(modelConfig: ModelConfig, credentialsPath?: string, profile?: string): Promise<AWSCredentials | undefined> {
+  return modelConfig.provider === 'bedrock' ? loadCredentials(credentialsPath, profile) : undefined;
+}
+
+/**
+ * Stand-in credentials for replaying recorded invocations without AWS access. Only the
+ * region is resolved, from the credentials file or profile loadCredentials would use,
+ * so the replayed cost data call matches the recorded one.
+ */
+export async function loadReplayCredentials(credentialsPath?: string, profile?: string): Promise<AWSCredentials> {
+  let region: string | undefined;
+  if (!profile && (credentialsPath || await fs.pathExists(path.resolve(DEFAULT_CREDENTIALS_FILE)))) {
+    const credentialsData: AWSCredentialsFile | undefined = await fs.readJson(path.resolve(credentialsPath || DEFAULT_CREDENTIALS_FILE))
+      .catch(() => undefined);
+    region = credentialsData?.region;
+  }
+
+  return {
+    accessKeyId: '',
+    secretAccessKey: '',
+    region: region || await resolveRegion(profile),
+    source: 'recorded invocations (no AWS access)'
+  };
+}
+
+/**
+ * Resolve credentials through the AWS SDK provider chain, optionally for a named profile
+ */
+async function loadCredentialsFromChain(profile?: string): Promise<AWSCredentials> {
+  try {
+    const provider = profile ? fromIni({ profile }) : fromNodeProviderChain();
+    const identity = await provider();
+
+    return {
+      accessKeyId: identity.accessKeyId,
+      secretAccessKey: identity.secretAccessKey,
+      sessionToken: identity.sessionToken,
+      region: await resolveRegion(profile),
+      source: profile ? `profile ${profile}` : 'AWS provider chain'
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const target = profile ? `profile "${profile}"` : 'the AWS provider chain';
+    throw new Error(`Failed to load AWS credentials from ${target}: ${errorMessage}`);
+  }
+}
 
 /**
- * Load AWS credentials from .aws-creds.json file
+ * Resolve the region from the environment or the profile's config, defaulting to us-east-1
  */
-export async function loadCredentials(credentialsPath: string = '.aws-creds.json'): Promise<AWSCredentials> {
+async function resolveRegion(profile?: string): Promise<string> {
+  const envRegion = process.env.AWS_REGION || process.env.AWS_DEFAULT_REGION;
+  if (envRegion) {
+    return envRegion;
+  }
+
+  const { configFile, credentialsFile } = await loadSharedConfigFiles();
+  const profileName = getProfileName({ profile });
+  return configFile[profileName]?.region || credentialsFile[profileName]?.region || DEFAULT_REGION;
+}
+
+/**
+ * Load AWS credentials from a .aws-creds.json file
+ */
+async function loadCredentialsFile(credentialsPath: string): Promise<AWSCredentials> {
   try {
     const fullPath = path.resolve(credentialsPath);
     
@@ -21,13 +116,14 @@ export async function loadCredentials(credentialsPath: string = '.aws-creds.json
     }
 
     // Use region from the file or default to us-east-1
-    const region = credentialsData.region || 'us-east-1';
+    const region = credentialsData.region || DEFAULT_REGION;
 
     const credentials: AWSCredentials = {
       accessKeyId: credentialsData.Credentials.AccessKeyId,
       secretAccessKey: credentialsData.Credentials.SecretAccessKey,
       sessionToken: credentialsData.Credentials.SessionToken,
-      region
+      region,
+      source: fullPath
     };
 
     return credentials;
@@ -37,6 +133,50 @@ export async function loadCredentials(credentialsPath: string = '.aws-creds.json
   }
 }
 
+/**
+ * Resolve the ID of the AWS account a set of credentials belongs to, with STS GetCallerIdentity
+ */
+export async function resolveAccountId(credentials: Pick<AWSCredentials, 'accessKeyId' | 'secretAccessKey' | 'sessionToken' | 'region'>): Promise<string> {
+  const client = new STSClient({
+    region: credentials.region || DEFAULT_REGION,
+    credentials: {
+      accessKeyId: credentials.accessKeyId,
+      secretAccessKey: credentials.secretAccessKey,
+      sessionToken: credentials.sessionToken
+    }
+  });
+  const identity = await client.send(new GetCallerIdentityCommand({}));
+  if (!identity.Account) {
+    throw new Error('STS GetCallerIdentity returned no account ID');
+  }
+  return identity.Account;
+}
+
+/**
+ * Load credentials for each account of a multi-account analysis. Each entry is either
+ * a path to a .aws-creds.json style file or the name of an AWS profile; the account is
+ * named after the profile or the file name without extension. When replaying, only the
+ * regions are resolved.
+ */
+export async function loadAccountTargets(accounts: string[], replay: boolean = false): Promise<AccountTarget[]> {
+  const targets: AccountTarget[] = [];
+
+  for (const account of accounts) {
+    const isFile = account.endsWith('.json') || await fs.pathExists(path.resolve(account));
+    const name = (isFile ? path.basename(account, path.extname(account)) : account).replace(/[^\w.-]+/g, '_');
+
+    if (targets.some(target => target.name === name)) {
+      throw new Error(`Duplicate account name: ${name}`);
+    }
+
+    const load = replay ? loadReplayCredentials : loadCredentials;
+    const credentials = isFile ? await load(account) : await load(undefined, account);
+    targets.push({ name, credentials });
+  }
+
+  return targets;
+}
+
 /**
  * Create an example credentials file
  */
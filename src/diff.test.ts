@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { diffExecutions, formatDiffReport, loadExecutionSnapshot } from './diff.js';
+import { createManifest, writeManifest } from './manifest.js';
+import { RECOMMENDATIONS_FILE } from './rules.js';
+import type { AnalysisStep, Recommendation, ServiceRegionCombo } from './types.js';
+
+function combo(service: string, cost: number): ServiceRegionCombo {
+  return { service, region: 'us-east-1', cost, currency: 'USD', period: '2026-09-01' };
+}
+
+function step(service: string, title: string, useTools: string[] = ['awsGetCostAndUsage']): AnalysisStep {
+  return { service, region: 'us-east-1', title, useTools };
+}
+
+function recommendation(ruleId: string, service: string, estimatedMonthlySavings: number): Recommendation {
+  return {
+    ruleId,
+    title: ruleId,
+    service,
+    region: 'us-east-1',
+    severity: 'medium',
+    estimatedMonthlySavings,
+    summary: `${ruleId} for ${service}`,
+    evidence: [],
+    datapoints: []
+  };
+}
+
+describe('diffExecutions', () => {
+  let outputDir: string;
+
+  const writeExecution = async (executionId: string, combos: ServiceRegionCombo[], steps: AnalysisStep[], recommendations: Recommendation[]) => {
+    const executionPath = path.join(outputDir, executionId);
+    const manifest = createManifest(executionId, { outputPath: 'report.md', includeCharts: false, topN: 3 });
+    await writeManifest(executionPath, {
+      ...manifest,
+      status: 'completed',
+      serviceRegionCombos: combos,
+      steps: steps.map((entry, index) => ({ index, step: entry, status: 'completed', attempts: 1 }))
+    });
+    await fs.writeJson(path.join(executionPath, RECOMMENDATIONS_FILE), {
+      generatedAt: manifest.createdAt,
+      rules: [],
+      totalEstimatedMonthlySavings: 0,
+      recommendations
+    });
+    return executionPath;
+  };
+
+  beforeAll(async () => {
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'diff-'));
+    await writeExecution('august',
+      [combo('AWS Lambda', 100), combo('Amazon EC2', 500), combo('Amazon S3', 50), combo('Amazon RDS', 200)],
+      [step('AWS Lambda', 'Lambda compute'), step('Amazon EC2', 'EC2 instances'), step('Amazon S3', 'S3 storage')],
+      [recommendation('nat-gateway-data-processing', 'EC2 - Other', 300), recommendation('s3-storage-class-mix', 'Amazon S3', 20)]
+    );
+    await writeExecution('september',
+      [combo('AWS Lambda', 150), combo('Amazon EC2', 400), combo('Amazon RDS', 202), combo('Amazon DynamoDB', 80)],
+      [step('AWS Lambda', 'Lambda compute', ['awsGetCostAndUsage', 'awsCloudWatchGetMetrics']), step('Amazon EC2', 'EC2 instances'), step('Amazon DynamoDB', 'DynamoDB capacity')],
+      [recommendation('nat-gateway-data-processing', 'EC2 - Other', 450), recommendation('lambda-gb-second-trend', 'AWS Lambda', 60)]
+    );
+  });
+
+  afterAll(async () => {
+    await fs.remove(outputDir);
+  });
+
+  it('reports new, grown, shrunk, disappeared and unchanged cost drivers', async () => {
+    const diff = diffExecutions(
+      await loadExecutionSnapshot(path.join(outputDir, 'august')),
+      await loadExecutionSnapshot(path.join(outputDir, 'september'))
+    );
+
+    expect(diff.totals).toMatchObject({ costA: 850, costB: 832, delta: -18 });
+    expect(diff.costDrivers.map(({ change, service, delta }) => ({ change, service, delta }))).toEqual([
+      { change: 'new', service: 'Amazon DynamoDB', delta: 80 },
+      { change: 'grown', service: 'AWS Lambda', delta: 50 },
+      { change: 'shrunk', service: 'Amazon EC2', delta: -100 },
+      { change: 'disappeared', service: 'Amazon S3', delta: -50 },
+      { change: 'unchanged', service: 'Amazon RDS', delta: 2 }
+    ]);
+  });
+
+  it('reports added, removed and changed steps and recommendations', async () => {
+    const diff = diffExecutions(
+      await loadExecutionSnapshot(path.join(outputDir, 'august')),
+      await loadExecutionSnapshot(path.join(outputDir, 'september'))
+    );
+
+    expect(diff.steps).toEqual([
+      expect.objectContaining({ change: 'changed', service: 'AWS Lambda', toolsAdded: ['awsCloudWatchGetMetrics'], toolsRemoved: [] }),
+      expect.objectContaining({ change: 'removed', service: 'Amazon S3', titleA: 'S3 storage' }),
+      expect.objectContaining({ change: 'added', service: 'Amazon DynamoDB', titleB: 'DynamoDB capacity' })
+    ]);
+    expect(diff.recommendations).toEqual([
+      expect.objectContaining({ change: 'changed', ruleId: 'nat-gateway-data-processing', savingsA: 300, savingsB: 450 }),
+      expect.objectContaining({ change: 'resolved', ruleId: 's3-storage-class-mix', savingsA: 20, savingsB: undefined }),
+      expect.objectContaining({ change: 'new', ruleId: 'lambda-gb-second-trend', savingsB: 60 })
+    ]);
+
+    const report = formatDiffReport(diff);
+    expect(report).toContain('| Amazon DynamoDB / us-east-1 | - | $80.00 | +$80.00 |');
+    expect(report).toContain('| Amazon EC2 / us-east-1 | $500.00 | $400.00 | -$100.00 (-20.0%) |');
+  });
+
+  it('fails for missing executions and executions without a manifest', async () => {
+    await fs.ensureDir(path.join(outputDir, 'legacy'));
+
+    await expect(loadExecutionSnapshot(path.join(outputDir, 'missing'))).rejects.toThrow(/Execution directory not found/);
+    await expect(loadExecutionSnapshot(path.join(outputDir, 'legacy'))).rejects.toThrow(/No manifest found in .*legacy/);
+  });
+});
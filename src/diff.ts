@@ -0,0 +1,310 @@
+import fs from 'fs-extra';
+import * as path from 'path';
+import { readManifest } from './manifest.js';
+import { readRecommendations } from './rules.js';
+import { ACCOUNTS_DIR } from './report-generator.js';
+import {
+  CostDriverChange, CostDriverDelta, CostWindowOptions, ExecutionDiff, ExecutionSnapshot, RecommendationDelta,
+  ServiceRegionCombo, StepDelta
+} from './types.js';
+
+/** Cost changes below this percentage are reported as unchanged */
+export const DEFAULT_MIN_CHANGE_PERCENT = 5;
+
+const CHANGE_ORDER: CostDriverChange[] = ['new', 'grown', 'shrunk', 'disappeared', 'unchanged'];
+
+function driverKey(item: { account?: string; service: string; region: string }): string {
+  return [item.account || '', item.service, item.region].join('|');
+}
+
+function formatCost(value: number | undefined): string {
+  return value === undefined ? '-' : `$${value.toFixed(2)}`;
+}
+
+function formatDelta(value: number, percent?: number): string {
+  const sign = value >= 0 ? '+' : '-';
+  return `${sign}$${Math.abs(value).toFixed(2)}${percent !== undefined ? ` (${percent >= 0 ? '+' : ''}${percent.toFixed(1)}%)` : ''}`;
+}
+
+function formatWindow(costWindow?: CostWindowOptions): string {
+  if (!costWindow || (!costWindow.from && !costWindow.to)) {
+    return `default window${costWindow?.granularity ? `, ${costWindow.granularity}` : ''}`;
+  }
+  return `${costWindow.from || '...'} to ${costWindow.to || 'today'}${costWindow.granularity ? `, ${costWindow.granularity}` : ''}`;
+}
+
+function location(item: { account?: string; service: string; region: string }): string {
+  return [item.account, item.service, item.region].filter(Boolean).join(' / ');
+}
+
+/**
+ * Load the service-region combinations, planned steps and recommendations saved by an
+ * execution. Multi-account executions are read from their per-account manifests.
+ */
+export async function loadExecutionSnapshot(executionPath: string): Promise<ExecutionSnapshot> {
+  if (!await fs.pathExists(executionPath)) {
+    throw new Error(`Execution directory not found: ${executionPath}`);
+  }
+
+  const sources = [{ directory: executionPath, account: undefined as string | undefined }];
+  const accountsPath = path.join(executionPath, ACCOUNTS_DIR);
+  const accounts = (await readManifest(executionPath))?.accounts
+    ?? (await fs.pathExists(accountsPath) ? await fs.readdir(accountsPath) : []);
+  sources.push(...accounts.map(account => ({ directory: path.join(accountsPath, account), account })));
+
+  const snapshot: ExecutionSnapshot = {
+    executionId: path.basename(executionPath),
+    serviceRegionCombos: [],
+    steps: []
+  };
+  let manifestsFound = 0;
+
+  for (const { directory, account } of sources) {
+    const manifest = await readManifest(directory);
+    if (!manifest) {
+      continue;
+    }
+    manifestsFound++;
+    snapshot.createdAt = snapshot.createdAt || manifest.createdAt;
+    snapshot.costWindow = snapshot.costWindow || manifest.config.costWindow;
+    snapshot.topN = snapshot.topN || manifest.config.topN;
+    snapshot.serviceRegionCombos.push(...(manifest.serviceRegionCombos || []).map(combo => ({ ...combo, account: combo.account || account })));
+    const steps = manifest.plan?.steps || manifest.steps.map(entry => entry.step);
+    snapshot.steps.push(...steps.map(step => ({ ...step, account })));
+  }
+
+  if (manifestsFound === 0) {
+    throw new Error(`No manifest found in ${executionPath}, only executions run with a manifest can be compared`);
+  }
+
+  snapshot.recommendations = await readRecommendations(executionPath);
+  return snapshot;
+}
+
+function diffCostDrivers(combosA: ServiceRegionCombo[], combosB: ServiceRegionCombo[], minChangePercent: number): CostDriverDelta[] {
+  const byKeyA = new Map(combosA.map(combo => [driverKey(combo), combo]));
+  const byKeyB = new Map(combosB.map(combo => [driverKey(combo), combo]));
+  const keys = [...new Set([...byKeyA.keys(), ...byKeyB.keys()])];
+
+  const deltas = keys.map((key): CostDriverDelta => {
+    const a = byKeyA.get(key);
+    const b = byKeyB.get(key);
+    const combo = (b || a) as ServiceRegionCombo;
+    const costA = a?.cost;
+    const costB = b?.cost;
+    const delta = (costB || 0) - (costA || 0);
+    const deltaPercent = costA && costB !== undefined ? (delta / costA) * 100 : undefined;
+
+    let change: CostDriverChange;
+    if (!a) {
+      change = 'new';
+    } else if (!b) {
+      change = 'disappeared';
+    } else if (deltaPercent !== undefined ? Math.abs(deltaPercent) < minChangePercent : delta === 0) {
+      change = 'unchanged';
+    } else {
+      change = delta > 0 ? 'grown' : 'shrunk';
+    }
+
+    return {
+      change,
+      service: combo.service,
+      region: combo.region,
+      account: combo.account,
+      costA,
+      costB,
+      delta,
+      deltaPercent,
+      currency: combo.currency
+    };
+  });
+
+  return deltas.sort((x, y) =>
+    CHANGE_ORDER.indexOf(x.change) - CHANGE_ORDER.indexOf(y.change) || Math.abs(y.delta) - Math.abs(x.delta)
+  );
+}
+
+function diffSteps(stepsA: ExecutionSnapshot['steps'], stepsB: ExecutionSnapshot['steps']): StepDelta[] {
+  const group = (steps: ExecutionSnapshot['steps']) => {
+    const grouped = new Map<string, { titles: string[]; tools: Set<string>; step: ExecutionSnapshot['steps'][number] }>();
+    steps.forEach(step => {
+      const key = driverKey(step);
+      const entry = grouped.get(key) || { titles: [], tools: new Set<string>(), step };
+      entry.titles.push(step.title);
+      step.useTools.forEach(tool => entry.tools.add(tool));
+      grouped.set(key, entry);
+    });
+    return grouped;
+  };
+
+  const groupedA = group(stepsA);
+  const groupedB = group(stepsB);
+  const deltas: StepDelta[] = [];
+
+  for (const key of new Set([...groupedA.keys(), ...groupedB.keys()])) {
+    const a = groupedA.get(key);
+    const b = groupedB.get(key);
+    const { step } = (b || a) as NonNullable<typeof a>;
+    const toolsAdded = b ? [...b.tools].filter(tool => !a?.tools.has(tool)) : [];
+    const toolsRemoved = a ? [...a.tools].filter(tool => !b?.tools.has(tool)) : [];
+    const titleA = a?.titles.join('; ');
+    const titleB = b?.titles.join('; ');
+
+    if (a && b && toolsAdded.length === 0 && toolsRemoved.length === 0 && titleA === titleB) {
+      continue;
+    }
+    deltas.push({
+      change: !a ? 'added' : !b ? 'removed' : 'changed',
+      service: step.service,
+      region: step.region,
+      account: step.account,
+      titleA,
+      titleB,
+      toolsAdded,
+      toolsRemoved
+    });
+  }
+
+  return deltas;
+}
+
+function diffRecommendations(snapshotA: ExecutionSnapshot, snapshotB: ExecutionSnapshot): RecommendationDelta[] | undefined {
+  if (!snapshotA.recommendations || !snapshotB.recommendations) {
+    return undefined;
+  }
+
+  const key = (recommendation: { ruleId: string; account?: string; service: string; region: string }) =>
+    `${recommendation.ruleId}|${driverKey(recommendation)}`;
+  const byKeyA = new Map(snapshotA.recommendations.recommendations.map(recommendation => [key(recommendation), recommendation]));
+  const byKeyB = new Map(snapshotB.recommendations.recommendations.map(recommendation => [key(recommendation), recommendation]));
+  const deltas: RecommendationDelta[] = [];
+
+  for (const recommendationKey of new Set([...byKeyA.keys(), ...byKeyB.keys()])) {
+    const a = byKeyA.get(recommendationKey);
+    const b = byKeyB.get(recommendationKey);
+    if (a && b && Math.abs(a.estimatedMonthlySavings - b.estimatedMonthlySavings) < 0.01) {
+      continue;
+    }
+    const recommendation = (b || a) as NonNullable<typeof a>;
+    deltas.push({
+      change: !a ? 'new' : !b ? 'resolved' : 'changed',
+      ruleId: recommendation.ruleId,
+      service: recommendation.service,
+      region: recommendation.region,
+      account: recommendation.account,
+      savingsA: a?.estimatedMonthlySavings,
+      savingsB: b?.estimatedMonthlySavings,
+      summary: recommendation.summary
+    });
+  }
+
+  return deltas;
+}
+
+/**
+ * Compare two execution snapshots: cost drivers that are new, grew, shrank or disappeared,
+ * changes to the planned steps and, when both executions have them, rule-based recommendations
+ */
+export function diffExecutions(
+  snapshotA: ExecutionSnapshot,
+  snapshotB: ExecutionSnapshot,
+  minChangePercent: number = DEFAULT_MIN_CHANGE_PERCENT
+): ExecutionDiff {
+  const describe = (snapshot: ExecutionSnapshot) => ({
+    executionId: snapshot.executionId,
+    createdAt: snapshot.createdAt,
+    costWindow: snapshot.costWindow,
+    topN: snapshot.topN
+  });
+  const costA = snapshotA.serviceRegionCombos.reduce((sum, combo) => sum + combo.cost, 0);
+  const costB = snapshotB.serviceRegionCombos.reduce((sum, combo) => sum + combo.cost, 0);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    executionA: describe(snapshotA),
+    executionB: describe(snapshotB),
+    minChangePercent,
+    totals: {
+      costA,
+      costB,
+      delta: costB - costA,
+      deltaPercent: costA > 0 ? ((costB - costA) / costA) * 100 : undefined
+    },
+    costDrivers: diffCostDrivers(snapshotA.serviceRegionCombos, snapshotB.serviceRegionCombos, minChangePercent),
+    steps: diffSteps(snapshotA.steps, snapshotB.steps),
+    recommendations: diffRecommendations(snapshotA, snapshotB)
+  };
+}
+
+/**
+ * Render an execution diff as a markdown report
+ */
+export function formatDiffReport(diff: ExecutionDiff): string {
+  const { executionA, executionB, totals } = diff;
+  const drivers = (change: CostDriverChange) => diff.costDrivers.filter(driver => driver.change === change);
+  const sections: string[] = [];
+
+  sections.push(`# Execution Diff
+
+**Execution A**: ${executionA.executionId}${executionA.createdAt ? ` (${executionA.createdAt})` : ''}, ${formatWindow(executionA.costWindow)}
+**Execution B**: ${executionB.executionId}${executionB.createdAt ? ` (${executionB.createdAt})` : ''}, ${formatWindow(executionB.costWindow)}
+
+## Summary
+
+| | Execution A | Execution B | Change |
+|--|-------------|-------------|--------|
+| Cost of analyzed combinations | ${formatCost(totals.costA)} | ${formatCost(totals.costB)} | ${formatDelta(totals.delta, totals.deltaPercent)} |
+
+${CHANGE_ORDER.map(change => `- **${change.charAt(0).toUpperCase()}${change.slice(1)}**: ${drivers(change).length}`).join('\n')}
+
+Only the top service-region combinations of each execution${executionA.topN === executionB.topN ? ` (top ${executionA.topN})` : ` (top ${executionA.topN ?? '?'} and top ${executionB.topN ?? '?'})`} are compared, so a disappeared cost driver may have dropped out of the top rather than to zero. Changes below ${diff.minChangePercent}% count as unchanged.
+`);
+
+  for (const change of CHANGE_ORDER.filter(change => change !== 'unchanged')) {
+    const rows = drivers(change);
+    if (rows.length === 0) {
+      continue;
+    }
+    sections.push(`## ${change.charAt(0).toUpperCase()}${change.slice(1)} Cost Drivers
+
+| Service / Region | Cost A | Cost B | Change |
+|------------------|--------|--------|--------|
+${rows.map(row => `| ${location(row)} | ${formatCost(row.costA)} | ${formatCost(row.costB)} | ${formatDelta(row.delta, row.deltaPercent)} |`).join('\n')}
+`);
+  }
+
+  sections.push(`## Planned Steps
+
+${diff.steps.length === 0 ? 'The planned steps are the same in both executions.\n' : `| Change | Service / Region | Title A | Title B | Tools Added | Tools Removed |
+|--------|------------------|---------|---------|-------------|---------------|
+${diff.steps.map(step => `| ${step.change} | ${location(step)} | ${step.titleA || '-'} | ${step.titleB || '-'} | ${step.toolsAdded.join(', ') || '-'} | ${step.toolsRemoved.join(', ') || '-'} |`).join('\n')}
+`}`);
+
+  if (!diff.recommendations) {
+    sections.push(`## Rule-Based Recommendations
+
+Not compared: \`recommendations.json\` is missing from at least one of the executions.
+`);
+  } else {
+    sections.push(`## Rule-Based Recommendations
+
+${diff.recommendations.length === 0 ? 'The rule-based recommendations are the same in both executions.\n' : `| Change | Rule | Service / Region | Savings A | Savings B | Summary |
+|--------|------|------------------|-----------|-----------|---------|
+${diff.recommendations.map(recommendation => `| ${recommendation.change} | ${recommendation.ruleId} | ${location(recommendation)} | ${formatCost(recommendation.savingsA)} | ${formatCost(recommendation.savingsB)} | ${recommendation.summary} |`).join('\n')}
+`}`);
+  }
+
+  return sections.join('\n');
+}
+
+/**
+ * Write an execution diff as markdown and as JSON with the same base name
+ */
+export async function writeExecutionDiff(diff: ExecutionDiff, markdownPath: string): Promise<{ markdownPath: string; jsonPath: string }> {
+  const fullPath = path.resolve(markdownPath);
+  const jsonPath = fullPath.replace(/(\.md)?$/, '.json');
+  await fs.ensureDir(path.dirname(fullPath));
+  await fs.writeFile(fullPath, formatDiffReport(diff), 'utf8');
+  await fs.writeJson(jsonPath, diff, { spaces: 2 });
+  return { markdownPath: fullPath, jsonPath };
+}
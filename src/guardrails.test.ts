@@ -0,0 +1,81 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { checkParamConstraints, createStepGuard, isToolAllowed, validateGuardrails } from './guardrails.js';
+
+describe('createStepGuard', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('serves identical calls from the first result', async () => {
+    const guard = createStepGuard({ dedupe: true });
+    const call = jest.fn(async () => ({ summary: 'usage' }));
+
+    await guard.run('awsGetCostAndUsage', { lookBack: 3 }, call);
+    const repeated = await guard.run('awsGetCostAndUsage', { lookBack: 3 }, call);
+
+    expect(call).toHaveBeenCalledTimes(1);
+    expect(repeated).toMatchObject({ summary: 'usage', guardrail: { rule: 'duplicate' } });
+  });
+
+  it('counts repeated calls toward the step budget', async () => {
+    const guard = createStepGuard({ maxCallsPerStep: 3, dedupe: true });
+    const call = jest.fn(async () => ({ summary: 'usage' }));
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await guard.run('awsGetCostAndUsage', { lookBack: 3 }, call);
+    }
+
+    expect(call).toHaveBeenCalledTimes(1);
+    expect(guard.violations.map(entry => entry.rule)).toEqual(['duplicate', 'duplicate', 'max-calls-per-step', 'max-calls-per-step']);
+  });
+
+  it('stops a tool at its own budget', async () => {
+    const guard = createStepGuard({ maxCallsPerTool: 1 });
+    const call = jest.fn(async () => ({ summary: 'usage' }));
+
+    await guard.run('awsGetCostAndUsage', { lookBack: 3 }, call);
+    const stopped = await guard.run('awsGetCostAndUsage', { lookBack: 6 }, call);
+    await guard.run('awsCloudWatchGetMetrics', { lookBack: 3 }, call);
+
+    expect(call).toHaveBeenCalledTimes(2);
+    expect(stopped).toMatchObject({ guardrail: { rule: 'max-calls-per-tool', toolName: 'awsGetCostAndUsage' } });
+  });
+
+  it('rejects denied tools and params outside the constraints without calling them', async () => {
+    const guard = createStepGuard({ deny: ['awsCloudWatchGetMetrics'], paramConstraints: { lookBack: { max: 12 } } });
+    const call = jest.fn(async () => ({ summary: 'usage' }));
+
+    await guard.run('awsCloudWatchGetMetrics', {}, call);
+    await guard.run('awsGetCostAndUsage', { lookBack: 24 }, call);
+
+    expect(call).not.toHaveBeenCalled();
+    expect(guard.violations.map(entry => entry.rule)).toEqual(['denied', 'param-constraint']);
+  });
+});
+
+describe('guardrail rules', () => {
+  it('apply the denylist over the allowlist', () => {
+    expect(isToolAllowed('awsGetCostAndUsage', { allow: ['awsGetCostAndUsage'], deny: ['awsGetCostAndUsage'] })).toBe(false);
+    expect(isToolAllowed('awsCloudWatchGetMetrics', { allow: ['awsGetCostAndUsage'] })).toBe(false);
+    expect(isToolAllowed('awsCloudWatchGetMetrics', { allow: [] })).toBe(true);
+  });
+
+  it('apply tool-specific constraints on top of those on the param name', () => {
+    const guardrails = { paramConstraints: { lookBack: { max: 12 }, 'awsGetCostAndUsage.lookBack': { max: 6 } } };
+
+    expect(checkParamConstraints('awsCloudWatchGetMetrics', { lookBack: 9 }, guardrails)).toEqual([]);
+    expect(checkParamConstraints('awsGetCostAndUsage', { lookBack: 9 }, guardrails)).toEqual(['lookBack = 9 exceeds the maximum of 6']);
+  });
+
+  it('report invalid guardrails files', () => {
+    expect(validateGuardrails({ maxCallsPerStep: 0, dedupe: 'yes', extra: 1 })).toEqual([
+      'Unknown property "extra"',
+      '"maxCallsPerStep" must be a positive integer',
+      '"dedupe" must be true or false'
+    ]);
+  });
+});
@@ -0,0 +1,220 @@
+import fs from 'fs-extra';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { stableStringify } from './invocation.js';
+import { GuardrailViolation, ParamConstraint, ToolGuardrails } from './types.js';
+
+export const DEFAULT_GUARDRAILS: ToolGuardrails = {
+  maxCallsPerTool: 10,
+  maxCallsPerStep: 25,
+  dedupe: true
+};
+
+const GUARDRAIL_KEYS = ['maxCallsPerTool', 'maxCallsPerStep', 'dedupe', 'allow', 'deny', 'paramConstraints'];
+const CONSTRAINT_KEYS = ['min', 'max', 'enum'];
+
+/**
+ * Whether a tool may be called under the allowlist and denylist
+ */
+export function isToolAllowed(toolName: string, guardrails: ToolGuardrails = {}): boolean {
+  if (guardrails.deny?.includes(toolName)) {
+    return false;
+  }
+  return !guardrails.allow || guardrails.allow.length === 0 || guardrails.allow.includes(toolName);
+}
+
+function checkConstraint(name: string, value: unknown, constraint: ParamConstraint): string | undefined {
+  if (constraint.enum && !constraint.enum.includes(value as string | number | boolean)) {
+    return `${name} = ${JSON.stringify(value)} is not one of ${constraint.enum.map(allowed => JSON.stringify(allowed)).join(', ')}`;
+  }
+  if (typeof value === 'number') {
+    if (constraint.max !== undefined && value > constraint.max) {
+      return `${name} = ${value} exceeds the maximum of ${constraint.max}`;
+    }
+    if (constraint.min !== undefined && value < constraint.min) {
+      return `${name} = ${value} is below the minimum of ${constraint.min}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check tool params against the param constraints. Tool-specific constraints
+ * (`<tool>.<param>`) apply on top of constraints on the param name alone.
+ */
+export function checkParamConstraints(toolName: string, params: unknown, guardrails: ToolGuardrails = {}): string[] {
+  const constraints = guardrails.paramConstraints || {};
+  const problems: string[] = [];
+  for (const [name, value] of Object.entries(params || {})) {
+    for (const key of [name, `${toolName}.${name}`]) {
+      const problem = constraints[key] && checkConstraint(name, value, constraints[key]);
+      if (problem) {
+        problems.push(problem);
+      }
+    }
+  }
+  return problems;
+}
+
+/**
+ * Create the guard of one step. Each call is checked against the allowlist and denylist,
+ * the param constraints and the call budgets; identical calls are served from the first
+ * call's result and count toward the step budget. Violations are collected so they can be reported with the step.
+ */
+export function createStepGuard(guardrails: ToolGuardrails = DEFAULT_GUARDRAILS, violations: GuardrailViolation[] = []) {
+  const callsPerTool = new Map<string, number>();
+  const previousCalls = new Map<string, Promise<unknown>>();
+  let calls = 0;
+
+  const violation = (rule: GuardrailViolation['rule'], toolName: string, params: unknown, message: string) => {
+    const entry: GuardrailViolation = { rule, toolName, params, message };
+    violations.push(entry);
+    console.warn(`🚧 Guardrail ${rule}: ${message}`);
+    return { summary: `Guardrail violation (${rule}): ${message}`, guardrail: entry };
+  };
+
+  return {
+    violations,
+
+    /**
+     * Run a tool call under the guardrails, returning a violation result instead of
+     * calling the tool when a guardrail is hit
+     */
+    async run<T>(toolName: string, params: unknown, call: () => Promise<T>): Promise<T | ReturnType<typeof violation>> {
+      if (!isToolAllowed(toolName, guardrails)) {
+        return violation('denied', toolName, params, `${toolName} is not allowed by the tool allowlist or denylist`);
+      }
+
+      const problems = checkParamConstraints(toolName, params, guardrails);
+      if (problems.length > 0) {
+        return violation('param-constraint', toolName, params, `${toolName} params violate constraints: ${problems.join('; ')}. Retry with params within the limits.`);
+      }
+
+      if (guardrails.maxCallsPerStep !== undefined && calls >= guardrails.maxCallsPerStep) {
+        return violation('max-calls-per-step', toolName, params, `The limit of ${guardrails.maxCallsPerStep} tool calls per step was reached. Write the analysis with the data gathered so far.`);
+      }
+      const toolCalls = callsPerTool.get(toolName) || 0;
+      if (guardrails.maxCallsPerTool !== undefined && toolCalls >= guardrails.maxCallsPerTool) {
+        return violation('max-calls-per-tool', toolName, params, `The limit of ${guardrails.maxCallsPerTool} calls of ${toolName} per step was reached. Use the data already gathered or another tool.`);
+      }
+
+      // Repeated calls count toward the step budget so a model repeating itself still runs out of calls
+      calls++;
+      const key = stableStringify({ toolName, params });
+      const previous = guardrails.dedupe !== false ? previousCalls.get(key) : undefined;
+      if (previous) {
+        const { guardrail } = violation('duplicate', toolName, params, `${toolName} was already called with the same params in this step; returning the earlier result`);
+        return (previous as Promise<T>).then(result => ({ ...result, guardrail }));
+      }
+
+      callsPerTool.set(toolName, toolCalls + 1);
+      const result = call();
+      previousCalls.set(key, result);
+      return result;
+    }
+  };
+}
+
+/**
+ * Validate guardrails read from a file. Returns a list of problems, empty when valid.
+ */
+export function validateGuardrails(config: unknown): string[] {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return ['Guardrails must be an object'];
+  }
+  const guardrails = config as Record<string, unknown>;
+
+  const errors: string[] = [];
+  Object.keys(guardrails)
+    .filter(key => !GUARDRAIL_KEYS.includes(key))
+    .forEach(key => errors.push(`Unknown property "${key}"`));
+
+  for (const key of ['maxCallsPerTool', 'maxCallsPerStep']) {
+    const limit = guardrails[key];
+    if (limit !== undefined && (typeof limit !== 'number' || !Number.isInteger(limit) || limit <= 0)) {
+      errors.push(`"${key}" must be a positive integer`);
+    }
+  }
+  if (guardrails.dedupe !== undefined && typeof guardrails.dedupe !== 'boolean') {
+    errors.push('"dedupe" must be true or false');
+  }
+  for (const key of ['allow', 'deny']) {
+    const names = guardrails[key];
+    if (names !== undefined && (!Array.isArray(names) || names.some((name: unknown) => typeof name !== 'string'))) {
+      errors.push(`"${key}" must be an array of tool names`);
+    }
+  }
+
+  const { paramConstraints } = guardrails;
+  if (paramConstraints !== undefined) {
+    if (!paramConstraints || typeof paramConstraints !== 'object' || Array.isArray(paramConstraints)) {
+      errors.push('"paramConstraints" must be an object keyed by param name or <tool>.<param>');
+    } else {
+      for (const [name, entry] of Object.entries(paramConstraints)) {
+        const where = `paramConstraints["${name}"]`;
+        if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+          errors.push(`${where} must be an object with min, max or enum`);
+          continue;
+        }
+        const constraint = entry as Record<string, unknown>;
+        Object.keys(constraint)
+          .filter(key => !CONSTRAINT_KEYS.includes(key))
+          .forEach(key => errors.push(`${where}: unknown property "${key}"`));
+        for (const key of ['min', 'max']) {
+          if (constraint[key] !== undefined && typeof constraint[key] !== 'number') {
+            errors.push(`${where}.${key} must be a number`);
+          }
+        }
+        if (constraint.enum !== undefined && !Array.isArray(constraint.enum)) {
+          errors.push(`${where}.enum must be an array`);
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Read and validate a JSON or YAML guardrails file
+ */
+export async function readGuardrailsFile(filePath: string): Promise<ToolGuardrails> {
+  const fullPath = path.resolve(filePath);
+  if (!await fs.pathExists(fullPath)) {
+    throw new Error(`Guardrails file not found: ${fullPath}`);
+  }
+
+  let guardrails: unknown;
+  try {
+    const content = await fs.readFile(fullPath, 'utf8');
+    guardrails = /\.ya?ml$/i.test(fullPath) ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to parse guardrails file ${fullPath}: ${errorMessage}`);
+  }
+
+  const errors = validateGuardrails(guardrails);
+  if (errors.length > 0) {
+    throw new Error(`Invalid guardrails file ${fullPath}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  return guardrails as ToolGuardrails;
+}
+
+/**
+ * Render the guardrail violations of a step as a step report section
+ */
+export function formatGuardrailsSection(violations: GuardrailViolation[]): string {
+  const rows = violations.map(entry =>
+    `| ${entry.rule} | ${entry.toolName} | \`${stableStringify(entry.params).replace(/\|/g, '\\|')}\` | ${entry.message.replace(/\|/g, '\\|')} |`
+  );
+
+  return `## Guardrail Violations
+
+Tool calls stopped or short-circuited by the tool-call guardrails during this step.
+
+| Rule | Tool | Params | Details |
+|------|------|--------|---------|
+${rows.join('\n')}
+`;
+}
@@ -0,0 +1,72 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { exportHtmlReport, STANDALONE_REPORT_FILE } from './html-export.js';
+
+const PNG_BYTES = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const SVG_CHART = '<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10"><rect width="10" height="10"/></svg>';
+
+describe('exportHtmlReport', () => {
+  let executionPath: string;
+
+  beforeEach(async () => {
+    executionPath = await fs.mkdtemp(path.join(os.tmpdir(), 'html-export-'));
+    await fs.writeFile(path.join(executionPath, 'report.md'), `# Cost report
+
+Lambda is the largest driver, see [the Lambda analysis](./AWS_Lambda-us-east-1-analysis.md)
+and [its cost trend](AWS_Lambda-us-east-1-analysis.md#cost-trend).
+`);
+    await fs.writeFile(path.join(executionPath, 'AWS_Lambda-us-east-1-analysis.md'), `# Lambda compute
+
+## Cost trend
+
+![Daily cost](charts/lambda-cost.png)
+
+<img src="charts/lambda-usage.svg" alt="GB-seconds">
+`);
+    await fs.outputFile(path.join(executionPath, 'charts', 'lambda-cost.png'), PNG_BYTES);
+    await fs.outputFile(path.join(executionPath, 'charts', 'lambda-usage.svg'), SVG_CHART);
+    await fs.outputFile(path.join(executionPath, 'accounts', 'staging', 'Amazon_EC2-us-east-1-analysis.md'), '# EC2 instances\n\nNo growth.\n');
+    jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(executionPath);
+  });
+
+  it('inlines the linked step reports and charts into one file without external references', async () => {
+    const htmlPath = await exportHtmlReport(executionPath);
+
+    expect(htmlPath).toBe(path.join(executionPath, STANDALONE_REPORT_FILE));
+    const html = await fs.readFile(htmlPath, 'utf8');
+    const sections = [...html.matchAll(/<section class="report-document" id="([^"]+)">/g)].map(match => match[1]);
+    expect(sections).toEqual(['report', 'doc-aws-lambda-us-east-1-analysis', 'doc-accounts-staging-amazon-ec2-us-east-1-analysis']);
+    expect(html).toContain('href="#doc-aws-lambda-us-east-1-analysis"');
+    expect(html).toContain('href="#doc-aws-lambda-us-east-1-analysis-cost-trend"');
+    expect(html).toContain('id="doc-aws-lambda-us-east-1-analysis-cost-trend"');
+    expect(html).toContain(`src="data:image/png;base64,${PNG_BYTES.toString('base64')}"`);
+    expect(html).toContain(`src="data:image/svg+xml;base64,${Buffer.from(SVG_CHART).toString('base64')}"`);
+    expect([...html.matchAll(/(?:src|href)="([^"]*)"/g)].map(match => match[1]).filter(target => !/^(#|data:)/.test(target))).toEqual([]);
+  });
+
+  it('renders charts with a specification as interactive charts over the inlined image', async () => {
+    await fs.writeJson(path.join(executionPath, 'charts', 'lambda-cost.vl.json'), { mark: 'line', data: { values: [] } });
+    const outputFile = path.join(executionPath, 'export', 'report.html');
+
+    await exportHtmlReport(executionPath, outputFile, { interactive: true });
+
+    const html = await fs.readFile(outputFile, 'utf8');
+    expect(html).toContain('<div class="vega-chart" data-spec="chart-spec-1"><div class="vega-view"></div><img src="data:image/png;base64,');
+    expect(html).toContain('<script type="application/json" id="chart-spec-1">{"mark":"line","data":{"values":[]}}</script>');
+    expect(html).not.toContain('chart-spec-2');
+    expect(html).not.toMatch(/<script[^>]+src=/);
+  });
+
+  it('fails without a report', async () => {
+    await fs.remove(path.join(executionPath, 'report.md'));
+
+    await expect(exportHtmlReport(executionPath)).rejects.toThrow(/No report.md found/);
+  });
+});
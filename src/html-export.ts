@@ -0,0 +1,382 @@
+import fs from 'fs-extra';
+import * as path from 'path';
+import { createRequire } from 'module';
+import { Marked, Tokens } from 'marked';
+import { ACCOUNTS_DIR } from './report-generator.js';
+import { logInfo, logWarning } from './output.js';
+
+export const STANDALONE_REPORT_FILE = 'report-standalone.html';
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp'
+};
+
+/** Browser builds inlined into exports with interactive charts */
+const VEGA_SCRIPTS = ['vega/build/vega.min.js', 'vega-lite/build/vega-lite.min.js'];
+
+/** Headings down to this level are listed in the table of contents */
+const TOC_DEPTH = 3;
+
+interface ExportDocument {
+  filePath: string;
+  id: string;
+  title: string;
+  html: string;
+  headings: { id: string; text: string; depth: number }[];
+}
+
+interface ExportOptions {
+  /** Render charts that have a Vega-Lite specification next to them as interactive charts */
+  interactive?: boolean;
+}
+
+interface InteractiveCharts {
+  specs: string[];
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, '').replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#39;/g, "'");
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'section';
+}
+
+function isExternalUrl(url: string): boolean {
+  return /^([a-z][a-z0-9+.-]*:|\/\/)/i.test(url);
+}
+
+/**
+ * Find the markdown files linked from a document, in order of appearance
+ */
+function findLinkedDocuments(markdown: string, documentDir: string): string[] {
+  const linked: string[] = [];
+  const linkPattern = /(?:\]\(|href=["'])([^)"'\s#]+\.(?:md|html))(?:#[^)"'\s]*)?/g;
+  for (const match of markdown.matchAll(linkPattern)) {
+    if (isExternalUrl(match[1])) {
+      continue;
+    }
+    const target = path.resolve(documentDir, decodeURIComponent(match[1])).replace(/\.html$/, '.md');
+    if (!linked.includes(target)) {
+      linked.push(target);
+    }
+  }
+  return linked;
+}
+
+/**
+ * Find the step reports of an execution, including per-account directories
+ */
+async function findStepReports(executionPath: string): Promise<string[]> {
+  const directories = [executionPath];
+  const accountsPath = path.join(executionPath, ACCOUNTS_DIR);
+  if (await fs.pathExists(accountsPath)) {
+    const accounts = await fs.readdir(accountsPath);
+    directories.push(...accounts.map(account => path.join(accountsPath, account)));
+  }
+
+  const reports: string[] = [];
+  for (const directory of directories) {
+    if (!(await fs.stat(directory)).isDirectory()) {
+      continue;
+    }
+    const files = await fs.readdir(directory);
+    reports.push(...files.filter(file => file.endsWith('-analysis.md')).sort().map(file => path.join(directory, file)));
+  }
+  return reports;
+}
+
+/**
+ * Inline a local image as a data URI, leaving it untouched if it cannot be read
+ */
+async function toDataUri(src: string, documentDir: string, cache: Map<string, string>): Promise<string> {
+  if (src.startsWith('data:') || isExternalUrl(src)) {
+    return src;
+  }
+  const imagePath = path.resolve(documentDir, decodeURIComponent(src));
+  const mimeType = IMAGE_MIME_TYPES[path.extname(imagePath).toLowerCase()];
+  if (!mimeType) {
+    return src;
+  }
+  let dataUri = cache.get(imagePath);
+  if (!dataUri) {
+    if (!await fs.pathExists(imagePath)) {
+      logWarning(`⚠️  Image not found, leaving it linked: ${imagePath}`);
+      return src;
+    }
+    const content = await fs.readFile(imagePath);
+    dataUri = `data:${mimeType};base64,${content.toString('base64')}`;
+    cache.set(imagePath, dataUri);
+  }
+  return dataUri;
+}
+
+/**
+ * Path of the Vega-Lite specification saved next to a chart image, if there is one
+ */
+async function findChartSpec(src: string, documentDir: string): Promise<string | undefined> {
+  if (src.startsWith('data:') || isExternalUrl(src)) {
+    return undefined;
+  }
+  const specPath = path.resolve(documentDir, decodeURIComponent(src)).replace(/\.(png|svg)$/i, '.vl.json');
+  return specPath.endsWith('.vl.json') && await fs.pathExists(specPath) ? specPath : undefined;
+}
+
+/**
+ * Wrap chart images that have a specification next to them in containers rendered
+ * as interactive charts, keeping the image as the fallback
+ */
+async function embedInteractiveCharts(html: string, documentDir: string, charts: InteractiveCharts): Promise<string> {
+  const imageTags = [...new Set([...html.matchAll(/<img\b[^>]*?\ssrc="([^"]*)"[^>]*>/g)].map(match => match[0]))];
+  for (const tag of imageTags) {
+    const src = (tag.match(/\ssrc="([^"]*)"/) as RegExpMatchArray)[1].replace(/&amp;/g, '&');
+    const specPath = await findChartSpec(src, documentDir);
+    if (!specPath) {
+      continue;
+    }
+    const specId = `chart-spec-${charts.specs.length + 1}`;
+    const spec = JSON.stringify(await fs.readJson(specPath)).replace(/<\//g, '<\\/');
+    charts.specs.push(`<script type="application/json" id="${specId}">${spec}</script>`);
+    html = html.split(tag).join(`<div class="vega-chart" data-spec="${specId}"><div class="vega-view"></div>${tag}</div>`);
+  }
+  return html;
+}
+
+/**
+ * Render one markdown document into an HTML section. Heading IDs are prefixed with the
+ * document ID so sections do not clash, and links to other exported documents become
+ * links to their sections.
+ */
+async function renderDocument(
+  filePath: string,
+  id: string,
+  documentIds: Map<string, string>,
+  imageCache: Map<string, string>,
+  charts?: InteractiveCharts
+): Promise<ExportDocument> {
+  const markdown = await fs.readFile(filePath, 'utf8');
+  const documentDir = path.dirname(filePath);
+  const headings: ExportDocument['headings'] = [];
+  const usedIds = new Set<string>();
+
+  const resolveHref = (href: string): string => {
+    if (isExternalUrl(href)) {
+      return href;
+    }
+    if (href.startsWith('#')) {
+      return `#${id}-${slugify(href.slice(1))}`;
+    }
+    const [target, fragment] = href.split('#');
+    const targetPath = path.resolve(documentDir, decodeURIComponent(target)).replace(/\.html$/, '.md');
+    const targetId = documentIds.get(targetPath);
+    if (targetId) {
+      return fragment ? `#${targetId}-${slugify(fragment)}` : `#${targetId}`;
+    }
+    return href;
+  };
+
+  const marked = new Marked({
+    gfm: true,
+    renderer: {
+      heading({ tokens, depth }: Tokens.Heading) {
+        const inner = this.parser.parseInline(tokens);
+        const text = stripTags(inner);
+        let headingId = `${id}-${slugify(text)}`;
+        for (let suffix = 2; usedIds.has(headingId); suffix++) {
+          headingId = `${id}-${slugify(text)}-${suffix}`;
+        }
+        usedIds.add(headingId);
+        headings.push({ id: headingId, text, depth });
+        return `<h${depth} id="${headingId}">${inner}</h${depth}>\n`;
+      }
+    }
+  });
+
+  let html = await marked.parse(markdown);
+
+  // Rewrite links and inline images, including raw HTML written by the LLM
+  html = html.replace(/href="([^"]*)"/g, (_, href: string) => `href="${escapeHtml(resolveHref(href.replace(/&amp;/g, '&')))}"`);
+  if (charts) {
+    html = await embedInteractiveCharts(html, documentDir, charts);
+  }
+  const sources = [...new Set([...html.matchAll(/<img\b[^>]*?\ssrc="([^"]*)"/g)].map(match => match[1]))];
+  for (const src of sources) {
+    const dataUri = await toDataUri(src.replace(/&amp;/g, '&'), documentDir, imageCache);
+    html = html.split(`src="${src}"`).join(`src="${dataUri}"`);
+  }
+
+  const title = headings.find(heading => heading.depth === 1)?.text || path.basename(filePath, '.md');
+  return { filePath, id, title, html, headings };
+}
+
+function renderTableOfContents(documents: ExportDocument[]): string {
+  const items = documents.map(document => {
+    const subheadings = document.headings
+      .filter(heading => heading.depth > 1 && heading.depth <= TOC_DEPTH)
+      .map(heading => `<li class="toc-depth-${heading.depth}"><a href="#${heading.id}">${escapeHtml(heading.text)}</a></li>`)
+      .join('\n');
+    return `<li><a href="#${document.id}">${escapeHtml(document.title)}</a>${subheadings ? `\n<ul>\n${subheadings}\n</ul>` : ''}</li>`;
+  });
+  return `<nav class="toc">\n<h2>Contents</h2>\n<ol>\n${items.join('\n')}\n</ol>\n</nav>`;
+}
+
+const STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 1000px; margin: 0 auto; padding: 2rem 24px; }
+  h1, h2, h3, h4 { color: #1a1a1a; line-height: 1.3; margin: 2rem 0 1rem; }
+  h1 { border-bottom: 3px solid #ed8705; padding-bottom: 0.5rem; }
+  h2 { border-bottom: 1px solid #ddd; padding-bottom: 0.3rem; }
+  a { color: #0b62a4; }
+  img { max-width: 100%; height: auto; }
+  table { border-collapse: collapse; width: 100%; margin: 1rem 0; font-size: 0.9rem; }
+  th, td { border: 1px solid #ddd; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+  th { background: #f6f6f6; }
+  pre { background: #f6f6f6; padding: 1rem; overflow-x: auto; }
+  code { font-family: SFMono-Regular, Consolas, monospace; font-size: 0.9em; }
+  .toc { background: #fafafa; border: 1px solid #eee; padding: 1rem 1.5rem; margin-bottom: 2rem; }
+  .toc h2 { margin-top: 0; border: none; }
+  .toc ul { list-style: none; padding-left: 1rem; }
+  .toc .toc-depth-3 { padding-left: 1rem; font-size: 0.9rem; }
+  section.report-document { border-top: 2px solid #eee; margin-top: 3rem; }
+  section.report-document:first-of-type { border-top: none; margin-top: 0; }
+  .source { color: #888; font-size: 0.8rem; }
+  .vega-chart { margin: 1rem 0; }
+  .vega-chart.rendered img { display: none; }
+  .vega-view svg { max-width: 100%; height: auto; }
+  #vega-tooltip { position: fixed; display: none; background: #fff; border: 1px solid #ccc; padding: 0.3rem 0.5rem; font-size: 0.8rem; white-space: pre; pointer-events: none; z-index: 10; }
+  @media print {
+    body { max-width: none; padding: 0; font-size: 11pt; }
+    a { color: inherit; text-decoration: none; }
+    .toc { page-break-after: always; border: none; background: none; }
+    section.report-document { page-break-before: always; border-top: none; margin-top: 0; }
+    section.report-document:first-of-type { page-break-before: auto; }
+    h1, h2, h3, h4 { page-break-after: avoid; }
+    img, table, pre { page-break-inside: avoid; }
+    pre { white-space: pre-wrap; }
+  }
+`;
+
+/** Renders the interactive charts with tooltips once the page has loaded */
+const INTERACTIVE_CHARTS_SCRIPT = `
+(function () {
+  var tooltip = document.getElementById('vega-tooltip');
+  function showTooltip(handler, event, item, value) {
+    if (value === null || value === undefined || value === '') {
+      tooltip.style.display = 'none';
+      return;
+    }
+    tooltip.textContent = typeof value === 'object'
+      ? Object.keys(value).map(function (key) { return key + ': ' + value[key]; }).join('\\n')
+      : String(value);
+    tooltip.style.left = (event.clientX + 12) + 'px';
+    tooltip.style.top = (event.clientY + 12) + 'px';
+    tooltip.style.display = 'block';
+  }
+  document.querySelectorAll('.vega-chart').forEach(function (container) {
+    try {
+      var spec = JSON.parse(document.getElementById(container.dataset.spec).textContent);
+      var compiled = vegaLite.compile(spec, { config: { mark: { tooltip: true } } }).spec;
+      var view = new vega.View(vega.parse(compiled), { renderer: 'svg', container: container.querySelector('.vega-view'), hover: true });
+      view.tooltip(showTooltip);
+      view.runAsync().then(function () { container.classList.add('rendered'); });
+    } catch (error) {
+      console.error('Could not render interactive chart', error);
+    }
+  });
+})();
+`;
+
+function inlineScript(source: string): string {
+  return `<script>${source.replace(/<\/script/gi, '<\\/script')}</script>`;
+}
+
+/**
+ * Export `report.md` of an execution and the step reports it links to as one
+ * self-contained HTML file, with charts inlined as data URIs, a table of contents
+ * and links between the reports turned into links between their sections.
+ * Step reports that are not linked from `report.md` are appended after the linked ones.
+ * With `interactive`, charts with a Vega-Lite specification next to them are rendered
+ * in the browser with tooltips, falling back to the inlined image.
+ */
+export async function exportHtmlReport(executionPath: string, outputFile?: string, options: ExportOptions = {}): Promise<string> {
+  const reportPath = path.join(executionPath, 'report.md');
+  if (!await fs.pathExists(reportPath)) {
+    throw new Error(`No report.md found in ${executionPath}, run analyze or generate-report first`);
+  }
+
+  try {
+    const reportMarkdown = await fs.readFile(reportPath, 'utf8');
+    const linked = findLinkedDocuments(reportMarkdown, executionPath);
+    const candidates = [...linked, ...await findStepReports(executionPath)];
+    const filePaths = [reportPath];
+    for (const filePath of candidates) {
+      if (!filePaths.includes(filePath) && await fs.pathExists(filePath)) {
+        filePaths.push(filePath);
+      }
+    }
+
+    const ids = filePaths.map((filePath, index) =>
+      index === 0 ? 'report' : `doc-${slugify(path.relative(executionPath, filePath).replace(/\.md$/, ''))}`
+    );
+    const documentIds = new Map(filePaths.map((filePath, index) => [filePath, ids[index]]));
+
+    const imageCache = new Map<string, string>();
+    const charts: InteractiveCharts | undefined = options.interactive ? { specs: [] } : undefined;
+    const documents: ExportDocument[] = [];
+    for (const [index, filePath] of filePaths.entries()) {
+      documents.push(await renderDocument(filePath, ids[index], documentIds, imageCache, charts));
+    }
+
+    let scripts = '';
+    if (charts && charts.specs.length > 0) {
+      const require = createRequire(import.meta.url);
+      const libraries = await Promise.all(VEGA_SCRIPTS.map(script => fs.readFile(require.resolve(script), 'utf8')));
+      scripts = `<div id="vega-tooltip"></div>
+${charts.specs.join('\n')}
+${libraries.map(inlineScript).join('\n')}
+${inlineScript(INTERACTIVE_CHARTS_SCRIPT)}`;
+    }
+
+    const sections = documents.map(document => `<section class="report-document" id="${document.id}">
+<p class="source">${escapeHtml(path.relative(executionPath, document.filePath))}</p>
+${document.html}
+</section>`);
+
+    const html = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(documents[0].title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${renderTableOfContents(documents)}
+${sections.join('\n')}
+${scripts}
+</body>
+</html>
+`;
+
+    const htmlPath = path.resolve(outputFile || path.join(executionPath, STANDALONE_REPORT_FILE));
+    await fs.ensureDir(path.dirname(htmlPath));
+    await fs.writeFile(htmlPath, html, 'utf8');
+    logInfo(`📄 Exported ${documents.length} reports with ${imageCache.size} inlined images${charts ? ` and ${charts.specs.length} interactive charts` : ''} to ${htmlPath}`);
+    return htmlPath;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to export HTML report: ${errorMessage}`);
+  }
+}
@@ -1,10 +1,35 @@
 // Main exports for the AWS Cost Analyzer CLI
-export { analyze, executeAnalysisStep, validateTools, generateReportFromExisting } from './analyzer.js';
-export { generateReport, generateSummaryReport, generateStepReport, generateAnalysisPaths } from './report-generator.js';
-export { getTopServiceRegionCombos } from './aws-service.js';
-export { createModel, planAnalysis, analyzeWithTools } from './llm.js';
-export { loadCredentials, createExampleCredentialsFile } from './config.js';
+export { analyze, analyzeAccounts, createPlan, executeAnalysisStep, generateStepFindings, validateTools, generateReportFromExisting } from './analyzer.js';
+export { generateReport, generateSummaryReport, generateStepReport, generateAnalysisPaths, writeStepFindings, readStepFindings, findingsPathFor } from './report-generator.js';
+export { loadExecutionSnapshot, diffExecutions, formatDiffReport, writeExecutionDiff, DEFAULT_MIN_CHANGE_PERCENT } from './diff.js';
+export { exportHtmlReport, STANDALONE_REPORT_FILE } from './html-export.js';
+export { getTopServiceRegionCombos, resolveCostWindow } from './aws-service.js';
+export { invokeTool, resolveRecordingConfig } from './invocation.js';
+export { createToolCache, listCacheEntries, clearCache, formatCacheStats, cacheKey, parseDuration, DEFAULT_CACHE_DIR, DEFAULT_CACHE_TTL_SECONDS } from './cache.js';
+export { createStepGuard, isToolAllowed, checkParamConstraints, validateGuardrails, readGuardrailsFile, formatGuardrailsSection, DEFAULT_GUARDRAILS } from './guardrails.js';
+export { readManifest, writeManifest, MANIFEST_FILE } from './manifest.js';
+export { readPlanFile, writePlanFile, validatePlan, PLAN_SCHEMA } from './plan.js';
+export { createTracer, instrumentModel, readTrace, filterTraceEvents, formatTraceTimeline, formatDuration, TRACE_FILE } from './trace.js';
+export { checkThresholds, evaluateThresholds, readThresholdsFile, validateThresholds, writeCheckResult, formatJUnitReport, CHECK_RESULT_FORMATS } from './check.js';
+export { notifyExecution, buildNotificationSummary, buildWebhookPayload, renderTemplate, postWebhook, readNotificationConfig, validateNotificationConfig, inferWebhookType, WEBHOOK_TYPES } from './notify.js';
+export { configureOutput, createSpinner, printResult, exitWithError, exitCodeFor, isJsonOutput, logInfo, logWarning, EXIT_CODES, JSON_OUTPUT_VERSION } from './output.js';
+export { createSpendTracker, resolveModelPricing, formatSpendSection, SpendLimitError, SPEND_FILE } from './spend.js';
+export { withRetry, isThrottlingError, retryMiddleware, DEFAULT_RETRY_OPTIONS, SDK_MAX_RETRIES } from './retry.js';
+export { createModel, planAnalysis, analyzeWithTools, extractFindings } from './llm.js';
+export {
+  resolvePrompts, promptSetForPack, getPromptPack, loadPromptsDirectory, validatePromptTemplate, missingPromptVariables, renderPrompt, promptVersions,
+  PROMPT_PACKS, PROMPT_TEMPLATES, DEFAULT_PROMPT_PACK
+} from './prompts.js';
+export { createProviderModel, resolveModelConfig, listProviders, DEFAULT_MODEL_CONFIG } from './providers.js';
+export { loadCredentials, loadModelCredentials, loadAccountTargets, createExampleCredentialsFile } from './config.js';
+export {
+  loadConfigLayers, mergeConfigLayers, configSources, configOptionValues, configFromEnv, readConfigFile, validateProjectConfig,
+  findProjectConfigFile, defaultConfig, formatConfig, settingEnvName, CONFIG_SETTINGS, PROJECT_CONFIG_FILES
+} from './project-config.js';
+export { detectAnomalies, writeAnomalyReport, formatAnomaliesSection, extractTimeSeries } from './anomalies.js';
+export { BUILTIN_PLAYBOOKS, loadPlaybooks, validatePlaybook, findPlaybook, getPlaybook, planWithPlaybooks, orderStepsByCombos, applyToolPresets, formatPlaybookForPrompt } from './playbooks.js';
+export { BUILTIN_RULES, loadRules, evaluateRules, formatRecommendationsSection, seriesTotal, combinedSeries, monthlyCost } from './rules.js';
 export * from './types.js';
 
 // Chart utilities
-export { generatePNGChart, generateSVGChart, generateChartFiles } from './chartUtils.js';
\ No newline at end of file
+export { generatePNGChart, generateSVGChart, generateChartFiles, renderChart, CHART_FORMATS, validateChartSpec, formatDatapointsTable } from './chartUtils.js';
\ No newline at end of file
@@ -0,0 +1,184 @@
+import { invoke } from '@ddegtyarev/aws-tools';
+import fs from 'fs-extra';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { InvocationOptions, RecordedInvocation, RecordingConfig, ToolInvocationResult } from './types.js';
+import { ACCOUNTS_DIR } from './report-generator.js';
+import { withRetry, DEFAULT_RETRY_OPTIONS } from './retry.js';
+import { resolveAccountId } from './config.js';
+
+interface InvokeConfig {
+  credentials: {
+    accessKeyId: string;
+    secretAccessKey: string;
+    sessionToken?: string;
+  };
+  region: string;
+}
+
+const RECORDINGS_DIR = 'recordings';
+
+/**
+ * Serialize a value to JSON with object keys sorted, so equal params hash equally
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const object = value as Record<string, unknown>;
+    const keys = Object.keys(object).filter(key => object[key] !== undefined).sort();
+    return `{${keys.map(key => `${JSON.stringify(key)}:${stableStringify(object[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Build the key identifying an invocation of a tool with given params in a region
+ */
+function invocationKey(toolName: string, params: unknown, region: string): string {
+  return createHash('sha256')
+    .update(stableStringify({ toolName, params, region }))
+    .digest('hex')
+    .substring(0, 16);
+}
+
+/** Account IDs of the credentials used in this process, by access key ID */
+const accountIds = new Map<string, Promise<string>>();
+
+/**
+ * Identify the account of a set of credentials for the tool cache. The account ID stays the
+ * same across rotated session credentials and across keys of one account; when STS cannot
+ * tell it, a fingerprint of the access key is used without keeping the key itself.
+ */
+function cacheAccount(config: InvokeConfig): Promise<string> {
+  const { accessKeyId } = config.credentials;
+  let accountId = accountIds.get(accessKeyId);
+  if (!accountId) {
+    accountId = resolveAccountId({ ...config.credentials, region: config.region }).catch(error => {
+      console.warn(`⚠️  Failed to resolve the AWS account ID, caching results per access key: ${error instanceof Error ? error.message : String(error)}`);
+      return `key-${createHash('sha256').update(accessKeyId).digest('hex').substring(0, 12)}`;
+    });
+    accountIds.set(accessKeyId, accountId);
+  }
+  return accountId;
+}
+
+/**
+ * Resolve the recording configuration for an execution, or for one account of a multi-account execution
+ */
+export function resolveRecordingConfig(
+  outputDir: string,
+  executionId: string,
+  record: boolean = false,
+  replayExecutionId?: string,
+  account?: string,
+  replayFallback: boolean = false
+): RecordingConfig | undefined {
+  const recordingsPath = account ? path.join(ACCOUNTS_DIR, account, RECORDINGS_DIR) : RECORDINGS_DIR;
+  if (replayExecutionId) {
+    return { mode: 'replay', directory: path.join(outputDir, replayExecutionId, recordingsPath), fallback: replayFallback };
+  }
+  if (record) {
+    return { mode: 'record', directory: path.join(outputDir, executionId, recordingsPath) };
+  }
+  return undefined;
+}
+
+/**
+ * Save an invocation result into the recordings directory
+ */
+async function recordInvocation(recording: RecordingConfig, entry: RecordedInvocation): Promise<void> {
+  const key = invocationKey(entry.toolName, entry.params, entry.region);
+  const recordPath = path.join(recording.directory, `${entry.toolName}-${key}.json`);
+  await fs.ensureDir(recording.directory);
+  await fs.writeJson(recordPath, entry, { spaces: 2 });
+  console.log(`📼 Recorded ${entry.toolName} invocation: ${recordPath}`);
+}
+
+/**
+ * Find the recorded result of an invocation. Fails when no recording matches the params
+ * exactly, unless the fallback to the latest recording of the same tool in the same region
+ * is enabled.
+ */
+async function replayInvocation(
+  recording: RecordingConfig,
+  toolName: string,
+  params: unknown,
+  region: string
+): Promise<ToolInvocationResult> {
+  if (!await fs.pathExists(recording.directory)) {
+    throw new Error(`Recordings directory not found: ${recording.directory}`);
+  }
+
+  const key = invocationKey(toolName, params, region);
+  const exactPath = path.join(recording.directory, `${toolName}-${key}.json`);
+  if (await fs.pathExists(exactPath)) {
+    const entry: RecordedInvocation = await fs.readJson(exactPath);
+    console.log(`📼 Replaying ${toolName} invocation: ${exactPath}`);
+    return entry.result;
+  }
+
+  if (!recording.fallback) {
+    throw new Error(`No recorded result for ${toolName} in ${region} with params ${stableStringify(params)} (--replay-fallback serves the latest recording of the tool instead)`);
+  }
+
+  const candidates: RecordedInvocation[] = [];
+  const files = await fs.readdir(recording.directory);
+  for (const file of files.filter(f => f.startsWith(`${toolName}-`) && f.endsWith('.json'))) {
+    const entry: RecordedInvocation = await fs.readJson(path.join(recording.directory, file));
+    if (entry.toolName === toolName && entry.region === region) {
+      candidates.push(entry);
+    }
+  }
+
+  if (candidates.length === 0) {
+    throw new Error(`No recorded result for ${toolName} in ${region} with params ${stableStringify(params)}`);
+  }
+
+  const latest = candidates.sort((a, b) => b.recordedAt.localeCompare(a.recordedAt))[0];
+  console.warn(`⚠️  No exact recording for ${toolName} with params ${stableStringify(params)}, replaying closest recording from ${latest.recordedAt}`);
+  return latest.result;
+}
+
+/**
+ * Invoke an aws-tools tool, retrying throttled calls, serving and storing results in
+ * the tool cache, and recording or replaying the result when configured
+ */
+export async function invokeTool(
+  toolName: string,
+  params: unknown,
+  config: InvokeConfig,
+  options: InvocationOptions = {}
+): Promise<ToolInvocationResult> {
+  const { recording, cache, retry = DEFAULT_RETRY_OPTIONS } = options;
+
+  if (recording?.mode === 'replay') {
+    return replayInvocation(recording, toolName, params, config.region);
+  }
+
+  const account = cache && await cacheAccount(config);
+  let result = account ? await cache?.get(toolName, params, account, config.region) : undefined;
+
+  if (result === undefined) {
+    // Counts towards the API call limit; replayed and cached invocations are free
+    options.spend?.recordApiCall(toolName, options.spendScope || { phase: 'analysis' });
+
+    result = await withRetry<ToolInvocationResult>(() => invoke(toolName, params, config), toolName, retry);
+    if (account) {
+      await cache?.set(toolName, params, account, config.region, result);
+    }
+  }
+
+  if (recording?.mode === 'record') {
+    await recordInvocation(recording, {
+      toolName,
+      params,
+      region: config.region,
+      result,
+      recordedAt: new Date().toISOString()
+    });
+  }
+
+  return result;
+}
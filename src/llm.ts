@@ -1,80 +1,61 @@
-import { createAmazonBedrock } from '@ai-sdk/amazon-bedrock';
-import { generateText, generateObject, jsonSchema, ToolSet } from 'ai'; 
-import { ChartAnalysisResult, PlanningRequest, PlanningResponse, AnalysisStep } from './types.js';
-import fs from 'fs-extra';
+import { LanguageModelV1, generateText, generateObject, jsonSchema, ToolSet, wrapLanguageModel } from 'ai';
+import {
+  PlanningRequest, PlanningResponse, AnalysisStep, ModelConfig, RetryOptions, StepFindings, GenerationSettings,
+  PromptSet
+} from './types.js';
+import { createProviderModel, resolveModelConfig } from './providers.js';
+import { describeCostChange } from './aws-service.js';
+import { retryMiddleware, DEFAULT_RETRY_OPTIONS, SDK_MAX_RETRIES } from './retry.js';
+import { PLAN_SCHEMA } from './plan.js';
+import { renderPrompt } from './prompts.js';
+
+export const DEFAULT_GENERATION_SETTINGS: Required<Omit<GenerationSettings, 'temperature'>> = {
+  maxSteps: 99,
+  maxTokens: 8192,
+  planMaxTokens: 2000,
+  findingsMaxTokens: 2000,
+  chartMaxTokens: 1000
+};
+
+/** Temperature of the calls that set one unless configured otherwise */
+export const DEFAULT_TEMPERATURE = 0.3;
 
 /**
- * Create AI model instance
+ * Create AI model instance for the configured provider (Bedrock by default),
+ * retrying throttled calls with backoff
  */
-export function createModel() {
-  const bedrock = createAmazonBedrock({region: 'us-east-1'});
-  return bedrock("us.anthropic.claude-sonnet-4-20250514-v1:0");
+export function createModel(config: ModelConfig = resolveModelConfig(), retry: RetryOptions = DEFAULT_RETRY_OPTIONS) {
+  return wrapLanguageModel({ model: createProviderModel(config), middleware: retryMiddleware(retry) });
 }
 
 /**
  * Plan analysis steps using LLM
  */
-export async function planAnalysis(request: PlanningRequest, model: any): Promise<PlanningResponse> {
-  const prompt = `
-You are an AWS cost analysis expert. Given the following service-region combinations and available tools, create a plan for analyzing each service.
-
-Service-Region Combinations:
-${request.serviceRegionCombos.map((combo, index) => 
-  `${index + 1}. ${combo.service} (${combo.region}): $${combo.cost.toFixed(2)}`
-).join('\n')}
-
-Available Tools:
-${request.availableTools.map(tool => `- ${tool}`).join('\n')}
-
-Create a structured plan with analysis steps. Each step should:
-1. Focus on a specific service-region combination
-2. Select appropriate tools for that service
-3. Have a clear, descriptive title
-
-For each service-region combination, create an analysis step that uses the most relevant tools for that specific service.
-`;
+export async function planAnalysis(
+  request: PlanningRequest,
+  model: LanguageModelV1,
+  generation: GenerationSettings = {},
+  prompts?: PromptSet
+): Promise<PlanningResponse> {
+  const prompt = renderPrompt(prompts, 'planner', {
+    combos: request.serviceRegionCombos.map((combo, index) =>
+      `${index + 1}. ${combo.service} (${combo.region}): $${combo.cost.toFixed(2)}${describeCostChange(combo)}`
+    ).join('\n'),
+    growthNote: request.serviceRegionCombos.some(combo => combo.costChange !== undefined) ? `
+These combinations were selected for their cost growth versus the previous equivalent period. Focus each step on explaining what changed and why.
+` : '',
+    tools: request.availableTools.map(tool => `- ${tool}`).join('\n')
+  });
 
   console.log(prompt);
   try {
     const result = await generateObject({
       model: model,
       prompt,
-      schema: jsonSchema({
-        type: 'object',
-        properties: {
-          steps: {
-            type: 'array',
-            items: {
-              type: 'object',
-              properties: {
-                title: {
-                  type: 'string',
-                  description: 'A descriptive title for the analysis step'
-                },
-                service: {
-                  type: 'string',
-                  description: 'The AWS service name to analyze'
-                },
-                region: {
-                  type: 'string',
-                  description: 'The AWS region to analyze'
-                },
-                useTools: {
-                  type: 'array',
-                  items: {
-                    type: 'string'
-                  },
-                  description: 'Array of tool names to use for this step'
-                }
-              },
-              required: ['title', 'service', 'region', 'useTools']
-            }
-          }
-        },
-        required: ['steps']
-      }),
-      maxTokens: 2000,
-      temperature: 0.3
+      schema: jsonSchema(PLAN_SCHEMA),
+      maxRetries: SDK_MAX_RETRIES,
+      maxTokens: generation.planMaxTokens ?? DEFAULT_GENERATION_SETTINGS.planMaxTokens,
+      temperature: generation.temperature ?? DEFAULT_TEMPERATURE
     });
 
     return result.object as PlanningResponse;
@@ -86,42 +67,21 @@ For each service-region combination, create an analysis step that uses the most
 }
 
 /**
- * Analyze with tools using AI SDK
+ * Analyze with tools using AI SDK. Steps built from a service playbook pass its checklist
+ * and tool presets as the playbook section of the prompt.
  */
 export async function analyzeWithTools(
   service: string,
   region: string,
   title: string,
   tools: ToolSet,
-  model: any
+  model: LanguageModelV1,
+  generation: GenerationSettings = {},
+  prompts?: PromptSet,
+  playbookSection: string = ''
 ): Promise<string> {
   console.log(`📝 Sending prompt to LLM with ${Object.keys(tools).length} tools available...`);
-  const prompt = `
-Analyze the AWS service costs for the following step:
-- Title: ${title}
-- Service: ${service}
-- Region: ${region}
-
-Please provide a comprehensive analysis using the available tools to gather data and insights about this service-region combination.
-
-Your response should include:
-1. A detailed analysis of this service's cost pattern
-2. Potential cost optimization recommendations
-3. Insights from the tool data gathered
-
-Keep in mind that it doesn't make sense to group by a dimension while filtering by the same dimension - there will be only one group anyway.
-
-The response should be in MarkDown format. Don't use emoticons.
-
-The tools may return a path to a PNG image with the chart, along with a text description of the chart.
-Please embed the chart in your response if it is relevant and helpful.
-Example image embedding:
-<p align="center">
-  <img
-    src="./output/image_name.png" width="800"
-  />
-</p>.
-`;
+  const prompt = renderPrompt(prompts, 'step', { title, service, region, playbook: playbookSection });
 
   console.log(`🤖 LLM PROMPT:`, prompt);
 
@@ -131,8 +91,10 @@ Example image embedding:
       model: model,
       prompt,
       tools,
-      maxSteps: 99, // Allow multiple tool calls
-      maxTokens: 8192,
+      maxSteps: generation.maxSteps ?? DEFAULT_GENERATION_SETTINGS.maxSteps, // Allow multiple tool calls
+      maxRetries: SDK_MAX_RETRIES,
+      maxTokens: generation.maxTokens ?? DEFAULT_GENERATION_SETTINGS.maxTokens,
+      temperature: generation.temperature
     });
 
     console.log(`✅ LLM RESPONSE:`, result.text);
@@ -144,4 +106,78 @@ Example image embedding:
     const errorMessage = error instanceof Error ? error.message : String(error);
     throw new Error(`Failed to analyze with tools: ${errorMessage}`);
   }
-}
\ No newline at end of file
+}
+
+const FINDINGS_SCHEMA: Parameters<typeof jsonSchema>[0] = {
+  type: 'object',
+  properties: {
+    analysis: {
+      type: 'string',
+      description: 'Two or three sentence summary of the analysis'
+    },
+    keyMetrics: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Metric name, e.g. "Monthly cost" or "NAT data processed"' },
+          value: { type: 'number' },
+          unit: { type: 'string', description: 'Unit of the value, e.g. "USD", "GB" or "%"' }
+        },
+        required: ['name', 'value']
+      }
+    },
+    insights: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Key insights, one sentence each'
+    },
+    recommendations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          description: { type: 'string' },
+          severity: { type: 'string', enum: ['low', 'medium', 'high'] },
+          effort: { type: 'string', enum: ['low', 'medium', 'high'] },
+          estimatedMonthlySavings: {
+            type: 'number',
+            description: 'Estimated monthly savings in USD, only when the analysis states or supports a figure'
+          }
+        },
+        required: ['title', 'description', 'severity', 'effort']
+      }
+    }
+  },
+  required: ['analysis', 'keyMetrics', 'insights', 'recommendations']
+};
+
+/**
+ * Extract typed findings from the markdown analysis of a step using LLM
+ */
+export async function extractFindings(
+  step: AnalysisStep,
+  analysis: string,
+  model: LanguageModelV1,
+  prompts?: PromptSet,
+  generation: GenerationSettings = {}
+): Promise<Pick<StepFindings, 'analysis' | 'keyMetrics' | 'insights' | 'recommendations'>> {
+  const prompt = renderPrompt(prompts, 'findings', { service: step.service, region: step.region, analysis });
+
+  try {
+    const result = await generateObject({
+      model: model,
+      prompt,
+      schema: jsonSchema(FINDINGS_SCHEMA),
+      maxRetries: SDK_MAX_RETRIES,
+      maxTokens: generation.findingsMaxTokens ?? DEFAULT_GENERATION_SETTINGS.findingsMaxTokens,
+      temperature: 0
+    });
+
+    return result.object as Pick<StepFindings, 'analysis' | 'keyMetrics' | 'insights' | 'recommendations'>;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to extract findings: ${errorMessage}`);
+  }
+}
@@ -0,0 +1,95 @@
+import fs from 'fs-extra';
+import * as path from 'path';
+import { promptSetForPack, promptVersions } from './prompts.js';
+import { ExecutionManifest, ExecutionStatus, ModelConfig, ReportConfig } from './types.js';
+
+export const MANIFEST_FILE = 'manifest.json';
+
+/**
+ * Drop the API key from a model configuration, so it is never written to disk
+ */
+function withoutApiKey({ apiKey: _apiKey, ...model }: ModelConfig): Omit<ModelConfig, 'apiKey'> {
+  return model;
+}
+
+/**
+ * Create the manifest of a new execution
+ */
+export function createManifest(executionId: string, reportConfig: ReportConfig): ExecutionManifest {
+  const now = new Date().toISOString();
+  return {
+    executionId,
+    status: 'running',
+    createdAt: now,
+    updatedAt: now,
+    config: {
+      topN: reportConfig.topN,
+      costWindow: reportConfig.costWindow,
+      model: reportConfig.model && withoutApiKey(reportConfig.model),
+      record: reportConfig.record,
+      replayExecutionId: reportConfig.replayExecutionId,
+      replayFallback: reportConfig.replayFallback,
+      rulesDir: reportConfig.rulesDir,
+      playbooksDir: reportConfig.playbooksDir,
+      concurrency: reportConfig.concurrency,
+      chartFormat: reportConfig.chartFormat,
+      prompts: promptVersions(reportConfig.prompts || promptSetForPack())
+    },
+    steps: []
+  };
+}
+
+/**
+ * Read the manifest of an execution, if it has one
+ */
+export async function readManifest(executionPath: string): Promise<ExecutionManifest | undefined> {
+  const manifestPath = path.join(executionPath, MANIFEST_FILE);
+  if (!await fs.pathExists(manifestPath)) {
+    return undefined;
+  }
+  try {
+    return await fs.readJson(manifestPath);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read manifest ${manifestPath}: ${errorMessage}`);
+  }
+}
+
+/**
+ * Write the manifest of an execution. The file is replaced atomically, so an
+ * interrupted run never leaves a truncated manifest behind.
+ */
+export async function writeManifest(executionPath: string, manifest: ExecutionManifest): Promise<void> {
+  manifest.updatedAt = new Date().toISOString();
+  const manifestPath = path.join(executionPath, MANIFEST_FILE);
+  const temporaryPath = `${manifestPath}.${process.pid}.tmp`;
+  await fs.ensureDir(executionPath);
+  await fs.writeJson(temporaryPath, manifest, { spaces: 2 });
+  await fs.rename(temporaryPath, manifestPath);
+}
+
+/**
+ * Serialize manifest writes, so steps finishing in parallel don't write over each other
+ */
+export function createManifestWriter(executionPath: string, manifest: ExecutionManifest): () => Promise<void> {
+  let pending: Promise<void> = Promise.resolve();
+  return () => {
+    pending = pending.catch(() => undefined).then(() => writeManifest(executionPath, manifest));
+    return pending;
+  };
+}
+
+/**
+ * Record the final status of an execution in its manifest, if it has one
+ */
+export async function finishManifest(
+  executionPath: string,
+  status: ExecutionStatus,
+  details: { reportPath?: string; error?: string } = {}
+): Promise<void> {
+  const manifest = await readManifest(executionPath);
+  if (!manifest) {
+    return;
+  }
+  await writeManifest(executionPath, { ...manifest, status, ...details });
+}
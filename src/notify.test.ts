@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { buildNotificationSummary, buildWebhookPayload, inferWebhookType, templateContext, validateNotificationConfig } from './notify.js';
+import { createManifest, writeManifest } from './manifest.js';
+
+describe('validateNotificationConfig', () => {
+  it('accepts webhooks with a URL', () => {
+    expect(validateNotificationConfig({
+      reportBaseUrl: 'https://reports.example.com',
+      webhooks: [{ url: 'https://hooks.slack.com/services/T000/B000/XXXX' }, { type: 'json', url: 'http://localhost:8080', headers: { Authorization: 'Bearer x' } }]
+    })).toEqual([]);
+  });
+
+  it('reports invalid settings and webhooks', () => {
+    expect(validateNotificationConfig({ reportBaseUrl: 'reports', topCombos: 0, webhooks: [] })).toEqual([
+      '"reportBaseUrl" must be an http or https URL',
+      '"topCombos" must be a positive integer',
+      '"webhooks" must be a non-empty array'
+    ]);
+    expect(validateNotificationConfig({
+      webhooks: [
+        { type: 'email', url: 'ftp://example.com', headers: { Retry: 3 } },
+        { url: 'https://example.com', template: {}, templateFile: 'payload.json', secret: 'x' }
+      ]
+    })).toEqual([
+      'webhooks[0].url must be an http or https URL',
+      'webhooks[0].type must be one of: slack, teams, json',
+      'webhooks[0].headers must be an object of strings',
+      'webhooks[1]: unknown property "secret"',
+      'webhooks[1] may have a template or a templateFile, not both'
+    ]);
+  });
+
+  it('infers the webhook type from the URL', () => {
+    expect(inferWebhookType('https://hooks.slack.com/services/T000/B000/XXXX')).toBe('slack');
+    expect(inferWebhookType('https://example.webhook.office.com/webhookb2/x')).toBe('teams');
+    expect(inferWebhookType('https://dashboard.example.com/hooks')).toBe('json');
+  });
+});
+
+describe('buildNotificationSummary', () => {
+  let executionPath: string;
+
+  beforeEach(async () => {
+    executionPath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'notify-')), 'execution');
+    const manifest = createManifest('execution', { outputPath: 'report.md', includeCharts: false, topN: 3 });
+    manifest.status = 'completed';
+    manifest.serviceRegionCombos = [
+      { service: 'AWS Lambda', region: 'us-east-1', cost: 120, currency: 'USD', period: '2026-09-01' },
+      { service: 'Amazon DynamoDB', region: 'us-east-1', cost: 30, currency: 'USD', period: '2026-09-01' },
+      { service: 'Amazon EC2', region: 'eu-west-1', cost: 850.5, currency: 'USD', period: '2026-09-01' }
+    ];
+    const step = { title: 'Lambda compute', service: 'AWS Lambda', region: 'us-east-1', useTools: ['awsGetCostAndUsage'] };
+    manifest.steps = [
+      { index: 0, step, status: 'completed', attempts: 1 },
+      { index: 1, step: { ...step, title: 'DynamoDB capacity', service: 'Amazon DynamoDB' }, status: 'failed', attempts: 1, error: 'Throttled' }
+    ];
+    await writeManifest(executionPath, manifest);
+  });
+
+  afterEach(async () => {
+    await fs.remove(path.dirname(executionPath));
+  });
+
+  it('sums the cost of the analysed combinations and lists the top ones', async () => {
+    const summary = await buildNotificationSummary(executionPath, { topCombos: 2, reportBaseUrl: 'https://reports.example.com/' });
+
+    expect(summary.analysedCost).toBe(1000.5);
+    expect(summary.topCombos.map(combo => combo.service)).toEqual(['Amazon EC2', 'AWS Lambda']);
+    expect(summary.failedSteps).toEqual([expect.objectContaining({ title: 'DynamoDB capacity', error: 'Throttled' })]);
+    expect(summary.reportUrl).toBe('https://reports.example.com/execution/report.md');
+    expect(templateContext(summary).text).toBe('AWS cost analysis execution completed: $1,000.50 analysed, 1 of 2 steps failed');
+  });
+
+  it('fills payload templates from the summary', async () => {
+    const summary = await buildNotificationSummary(executionPath);
+
+    const payload = buildWebhookPayload({ type: 'json', url: 'https://example.com', template: { spend: '{{analysedCost}}', label: 'Spend: {{analysedCostText}}' } }, summary);
+
+    expect(payload).toEqual({ spend: 1000.5, label: 'Spend: $1,000.50' });
+  });
+});
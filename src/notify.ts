@@ -0,0 +1,446 @@
+import fs from 'fs-extra';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { readManifest } from './manifest.js';
+import { ACCOUNTS_DIR } from './report-generator.js';
+import { describeCostChange } from './aws-service.js';
+import { backoffDelay, DEFAULT_RETRY_OPTIONS } from './retry.js';
+import {
+  ExecutionManifest, ExecutionStatus, NotificationConfig, NotificationResult, NotificationSummary, RetryOptions,
+  WebhookConfig, WebhookType
+} from './types.js';
+
+export const WEBHOOK_TYPES: WebhookType[] = ['slack', 'teams', 'json'];
+
+export const DEFAULT_TOP_COMBOS = 5;
+
+/** Webhooks are retried briefly: a late notification is worth less than a finished run */
+export const WEBHOOK_RETRY_OPTIONS: RetryOptions = { ...DEFAULT_RETRY_OPTIONS, maxAttempts: 3 };
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+const CONFIG_KEYS = ['webhooks', 'reportBaseUrl', 'topCombos'];
+const WEBHOOK_KEYS = ['name', 'type', 'url', 'headers', 'template', 'templateFile'];
+
+const STATUS_LABELS: Record<ExecutionStatus, string> = {
+  running: 'is still running',
+  completed: 'completed',
+  stopped: 'stopped early',
+  failed: 'failed'
+};
+
+/**
+ * Guess the payload type of a webhook from its URL: Slack and Teams incoming webhooks
+ * have well-known hosts, anything else gets generic JSON
+ */
+export function inferWebhookType(url: string): WebhookType {
+  const host = new URL(url).hostname;
+  if (host === 'hooks.slack.com') {
+    return 'slack';
+  }
+  if (host.endsWith('.webhook.office.com') || host.endsWith('.logic.azure.com')) {
+    return 'teams';
+  }
+  return 'json';
+}
+
+function isHttpUrl(value: unknown): boolean {
+  try {
+    return typeof value === 'string' && ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate a notification configuration read from a file. Returns a list of problems, empty when valid.
+ */
+export function validateNotificationConfig(config: unknown): string[] {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return ['Webhooks configuration must be an object'];
+  }
+
+  const errors: string[] = [];
+  Object.keys(config)
+    .filter(key => !CONFIG_KEYS.includes(key))
+    .forEach(key => errors.push(`Unknown property "${key}"`));
+
+  const { reportBaseUrl, topCombos, webhooks } = config as Record<string, unknown>;
+  if (reportBaseUrl !== undefined && !isHttpUrl(reportBaseUrl)) {
+    errors.push('"reportBaseUrl" must be an http or https URL');
+  }
+  if (topCombos !== undefined && (typeof topCombos !== 'number' || !Number.isInteger(topCombos) || topCombos <= 0)) {
+    errors.push('"topCombos" must be a positive integer');
+  }
+  if (!Array.isArray(webhooks) || webhooks.length === 0) {
+    errors.push('"webhooks" must be a non-empty array');
+    return errors;
+  }
+
+  webhooks.forEach((entry: unknown, index: number) => {
+    const where = `webhooks[${index}]`;
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      errors.push(`${where} must be an object with a type and a url`);
+      return;
+    }
+    const webhook = entry as Record<string, unknown>;
+    Object.keys(webhook)
+      .filter(key => !WEBHOOK_KEYS.includes(key))
+      .forEach(key => errors.push(`${where}: unknown property "${key}"`));
+    if (!isHttpUrl(webhook.url)) {
+      errors.push(`${where}.url must be an http or https URL`);
+    }
+    if (webhook.type !== undefined && !WEBHOOK_TYPES.includes(webhook.type as WebhookType)) {
+      errors.push(`${where}.type must be one of: ${WEBHOOK_TYPES.join(', ')}`);
+    }
+    if (webhook.headers !== undefined && (
+      !webhook.headers || typeof webhook.headers !== 'object' || Array.isArray(webhook.headers) ||
+      Object.values(webhook.headers).some(value => typeof value !== 'string')
+    )) {
+      errors.push(`${where}.headers must be an object of strings`);
+    }
+    if (webhook.template !== undefined && webhook.templateFile !== undefined) {
+      errors.push(`${where} may have a template or a templateFile, not both`);
+    }
+    if (webhook.templateFile !== undefined && typeof webhook.templateFile !== 'string') {
+      errors.push(`${where}.templateFile must be a path`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Read and validate a JSON or YAML webhooks file. Webhooks without a type get one from
+ * their URL, and template files are loaded relative to the webhooks file.
+ */
+export async function readNotificationConfig(filePath: string): Promise<NotificationConfig> {
+  const fullPath = path.resolve(filePath);
+  if (!await fs.pathExists(fullPath)) {
+    throw new Error(`Webhooks file not found: ${fullPath}`);
+  }
+
+  let config: unknown;
+  try {
+    const content = await fs.readFile(fullPath, 'utf8');
+    config = /\.ya?ml$/i.test(fullPath) ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to parse webhooks file ${fullPath}: ${errorMessage}`);
+  }
+
+  const errors = validateNotificationConfig(config);
+  if (errors.length > 0) {
+    throw new Error(`Invalid webhooks file ${fullPath}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  const notificationConfig = config as NotificationConfig;
+  const webhooks: WebhookConfig[] = [];
+  for (const webhook of notificationConfig.webhooks) {
+    let template = webhook.template;
+    if (webhook.templateFile) {
+      const templatePath = path.resolve(path.dirname(fullPath), webhook.templateFile);
+      template = await fs.readJson(templatePath).catch(error => {
+        throw new Error(`Failed to read payload template ${templatePath}: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }
+    webhooks.push({ ...webhook, type: webhook.type || inferWebhookType(webhook.url), template });
+  }
+  return { ...notificationConfig, webhooks };
+}
+
+function overallStatus(manifests: ExecutionManifest[]): ExecutionStatus {
+  const statuses = manifests.map(manifest => manifest.status);
+  return (['failed', 'stopped', 'running'] as ExecutionStatus[]).find(status => statuses.includes(status)) || 'completed';
+}
+
+/**
+ * Summarise an execution for notifications from its manifest, together with the
+ * per-account manifests of a multi-account execution
+ */
+export async function buildNotificationSummary(
+  executionPath: string,
+  options: Pick<NotificationConfig, 'reportBaseUrl' | 'topCombos'> = {}
+): Promise<NotificationSummary> {
+  const executionId = path.basename(executionPath);
+  const sources = [{ directory: executionPath, account: undefined as string | undefined }];
+  // Executions from before the top-level manifest listed the accounts only have the account directories
+  const accountsPath = path.join(executionPath, ACCOUNTS_DIR);
+  const accounts = (await readManifest(executionPath))?.accounts
+    ?? (await fs.pathExists(accountsPath) ? await fs.readdir(accountsPath) : []);
+  sources.push(...accounts.map(account => ({ directory: path.join(accountsPath, account), account })));
+
+  const manifests: ExecutionManifest[] = [];
+  const summary: NotificationSummary = {
+    executionId,
+    status: 'completed',
+    analysedCost: 0,
+    currency: 'USD',
+    topCombos: [],
+    stepCount: 0,
+    failedSteps: [],
+    reportPath: path.resolve(executionPath, 'report.md'),
+    reportUrl: options.reportBaseUrl && `${options.reportBaseUrl.replace(/\/+$/, '')}/${executionId}/report.md`
+  };
+
+  for (const { directory, account } of sources) {
+    const manifest = await readManifest(directory);
+    if (!manifest) {
+      continue;
+    }
+    manifests.push(manifest);
+    summary.createdAt = summary.createdAt || manifest.createdAt;
+    summary.costWindow = summary.costWindow || manifest.config.costWindow;
+    if (account) {
+      summary.accounts = [...(summary.accounts || []), account];
+    }
+
+    const combos = (manifest.serviceRegionCombos || []).map(combo => ({ ...combo, account: combo.account || account }));
+    summary.topCombos.push(...combos);
+    summary.analysedCost += combos.reduce((sum, combo) => sum + combo.cost, 0);
+    summary.currency = combos[0]?.currency || summary.currency;
+    summary.stepCount += manifest.steps.length;
+    summary.failedSteps.push(...manifest.steps
+      .filter(entry => entry.status === 'failed')
+      .map(entry => ({
+        title: entry.step.title,
+        service: entry.step.service,
+        region: entry.step.region,
+        account,
+        error: entry.error
+      })));
+  }
+
+  if (manifests.length === 0) {
+    throw new Error(`No manifest found in ${executionPath}, only executions run with a manifest can be notified`);
+  }
+
+  summary.status = overallStatus(manifests);
+  summary.topCombos = summary.topCombos
+    .sort((a, b) => b.cost - a.cost)
+    .slice(0, options.topCombos || DEFAULT_TOP_COMBOS);
+  return summary;
+}
+
+function formatMoney(value: number, currency: string): string {
+  const amount = value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return currency === 'USD' ? `$${amount}` : `${amount} ${currency}`;
+}
+
+function comboLine(combo: NotificationSummary['topCombos'][number]): string {
+  const location = [combo.account, combo.service, combo.region].filter(Boolean).join(' / ');
+  return `${location}: ${formatMoney(combo.cost, combo.currency)}${describeCostChange(combo)}`;
+}
+
+function failedStepLine(step: NotificationSummary['failedSteps'][number]): string {
+  return `${step.account ? `${step.account} / ` : ''}${step.title}${step.error ? `: ${step.error}` : ''}`;
+}
+
+/**
+ * Fields available to payload templates: the summary, plus the text renderings used by
+ * the built-in payloads
+ */
+export function templateContext(summary: NotificationSummary): Record<string, unknown> {
+  return {
+    ...summary,
+    analysedCostText: formatMoney(summary.analysedCost, summary.currency),
+    text: `AWS cost analysis ${summary.executionId} ${STATUS_LABELS[summary.status]}: ${formatMoney(summary.analysedCost, summary.currency)} analysed, ${summary.failedSteps.length} of ${summary.stepCount} steps failed`,
+    topCombosText: summary.topCombos.map(comboLine).join('\n'),
+    failedStepsText: summary.failedSteps.map(failedStepLine).join('\n'),
+    report: summary.reportUrl || summary.reportPath
+  };
+}
+
+function lookup(context: Record<string, unknown>, fieldPath: string): unknown {
+  return fieldPath.split('.').reduce<unknown>((value, key) => value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined, context);
+}
+
+/**
+ * Fill `{{field}}` placeholders in a payload template. A string that is only a placeholder
+ * takes the field's value as is, so arrays and numbers stay JSON; placeholders inside text
+ * are replaced with the value as text. Nested fields use dots, e.g. `{{costWindow.from}}`.
+ */
+export function renderTemplate(template: unknown, context: Record<string, unknown>): unknown {
+  if (typeof template === 'string') {
+    const whole = template.match(/^\{\{\s*([\w.]+)\s*\}\}$/);
+    if (whole) {
+      return lookup(context, whole[1]) ?? null;
+    }
+    return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, fieldPath) => {
+      const value = lookup(context, fieldPath);
+      return value === undefined || value === null ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    });
+  }
+  if (Array.isArray(template)) {
+    return template.map(item => renderTemplate(item, context));
+  }
+  if (template && typeof template === 'object') {
+    return Object.fromEntries(Object.entries(template).map(([key, value]) => [key, renderTemplate(value, context)]));
+  }
+  return template;
+}
+
+function slackPayload(summary: NotificationSummary): Record<string, unknown> {
+  const context = templateContext(summary);
+  const fields = [
+    `*Analysed spend*\n${context.analysedCostText}`,
+    `*Steps*\n${summary.stepCount - summary.failedSteps.length}/${summary.stepCount} completed`,
+    ...(summary.costWindow?.from ? [`*Window*\n${summary.costWindow.from} to ${summary.costWindow.to || 'today'}`] : []),
+    ...(summary.accounts ? [`*Accounts*\n${summary.accounts.join(', ')}`] : [])
+  ];
+
+  return {
+    text: context.text,
+    blocks: [
+      { type: 'header', text: { type: 'plain_text', text: `AWS cost analysis ${STATUS_LABELS[summary.status]}` } },
+      { type: 'section', fields: fields.map(text => ({ type: 'mrkdwn', text })) },
+      ...(summary.topCombos.length > 0
+        ? [{ type: 'section', text: { type: 'mrkdwn', text: `*Top cost drivers*\n${summary.topCombos.map(combo => `• ${comboLine(combo)}`).join('\n')}` } }]
+        : []),
+      ...(summary.failedSteps.length > 0
+        ? [{ type: 'section', text: { type: 'mrkdwn', text: `*Failed steps*\n${summary.failedSteps.map(step => `• ${failedStepLine(step)}`).join('\n')}` } }]
+        : []),
+      {
+        type: 'context',
+        elements: [{
+          type: 'mrkdwn',
+          text: summary.reportUrl ? `<${summary.reportUrl}|Full report> · ${summary.executionId}` : `Report: \`${summary.reportPath}\``
+        }]
+      }
+    ]
+  };
+}
+
+function teamsPayload(summary: NotificationSummary): Record<string, unknown> {
+  const context = templateContext(summary);
+  const facts = [
+    { title: 'Analysed spend', value: context.analysedCostText },
+    { title: 'Steps', value: `${summary.stepCount - summary.failedSteps.length}/${summary.stepCount} completed` },
+    ...(summary.accounts ? [{ title: 'Accounts', value: summary.accounts.join(', ') }] : []),
+    { title: 'Execution', value: summary.executionId }
+  ];
+  const list = (title: string, lines: string[]) => lines.length > 0
+    ? [
+      { type: 'TextBlock', text: title, weight: 'Bolder', spacing: 'Medium' },
+      { type: 'TextBlock', text: lines.map(line => `- ${line}`).join('\n'), wrap: true }
+    ]
+    : [];
+
+  return {
+    type: 'message',
+    attachments: [{
+      contentType: 'application/vnd.microsoft.card.adaptive',
+      content: {
+        $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+        type: 'AdaptiveCard',
+        version: '1.4',
+        body: [
+          {
+            type: 'TextBlock',
+            text: `AWS cost analysis ${STATUS_LABELS[summary.status]}`,
+            weight: 'Bolder',
+            size: 'Medium',
+            color: summary.status === 'completed' && summary.failedSteps.length === 0 ? 'Good' : 'Attention'
+          },
+          { type: 'FactSet', facts },
+          ...list('Top cost drivers', summary.topCombos.map(comboLine)),
+          ...list('Failed steps', summary.failedSteps.map(failedStepLine)),
+          ...(summary.reportUrl ? [] : [{ type: 'TextBlock', text: `Report: ${summary.reportPath}`, wrap: true, isSubtle: true }])
+        ],
+        actions: summary.reportUrl ? [{ type: 'Action.OpenUrl', title: 'Open report', url: summary.reportUrl }] : []
+      }
+    }]
+  };
+}
+
+/**
+ * Build the payload of a webhook: its template if it has one, otherwise the built-in
+ * payload of its type
+ */
+export function buildWebhookPayload(webhook: WebhookConfig, summary: NotificationSummary): unknown {
+  if (webhook.template !== undefined) {
+    return renderTemplate(webhook.template, templateContext(summary));
+  }
+  switch (webhook.type) {
+  case 'slack':
+    return slackPayload(summary);
+  case 'teams':
+    return teamsPayload(summary);
+  default:
+    return { event: 'analysis.finished', ...summary };
+  }
+}
+
+/**
+ * Name of a webhook for logs, without the URL path that usually carries its secret
+ */
+export function webhookLabel(webhook: WebhookConfig): string {
+  return webhook.name || `${webhook.type} webhook at ${new URL(webhook.url).host}`;
+}
+
+/**
+ * Post a payload to a webhook, retrying network errors, rate limiting and server errors
+ * with exponential backoff
+ */
+export async function postWebhook(
+  webhook: WebhookConfig,
+  payload: unknown,
+  retry: RetryOptions = WEBHOOK_RETRY_OPTIONS
+): Promise<NotificationResult> {
+  const label = webhookLabel(webhook);
+  for (let attempt = 1; ; attempt++) {
+    let status: number | undefined;
+    let error: string;
+    let retryable: boolean;
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...webhook.headers },
+        body: JSON.stringify(payload),
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+      });
+      status = response.status;
+      if (response.ok) {
+        return { webhook: label, type: webhook.type, ok: true, attempts: attempt, status };
+      }
+      error = `HTTP ${response.status} ${response.statusText}`.trim();
+      retryable = response.status === 429 || response.status >= 500;
+    } catch (requestError) {
+      // fetch reports connection errors as a generic "fetch failed" with the details in its cause
+      const cause = requestError instanceof Error && requestError.cause instanceof Error ? `: ${requestError.cause.message}` : '';
+      error = `${requestError instanceof Error ? requestError.message : String(requestError)}${cause}`;
+      retryable = true;
+    }
+
+    if (!retryable || attempt >= retry.maxAttempts) {
+      return { webhook: label, type: webhook.type, ok: false, attempts: attempt, status, error };
+    }
+    const delay = backoffDelay(attempt, retry);
+    console.warn(`⏳ ${label} failed (${error}), retrying in ${(delay / 1000).toFixed(1)}s (attempt ${attempt + 1}/${retry.maxAttempts})`);
+    await new Promise(resolve => setTimeout(resolve, delay));
+  }
+}
+
+/**
+ * Post the summary of an execution to every configured webhook. Failed notifications are
+ * reported in the results rather than thrown, so they never fail the analysis itself.
+ */
+export async function notifyExecution(
+  executionPath: string,
+  config: NotificationConfig,
+  retry: RetryOptions = WEBHOOK_RETRY_OPTIONS
+): Promise<NotificationResult[]> {
+  const summary = await buildNotificationSummary(executionPath, config);
+  const results: NotificationResult[] = [];
+
+  for (const webhook of config.webhooks) {
+    const result = await postWebhook(webhook, buildWebhookPayload(webhook, summary), retry);
+    if (result.ok) {
+      console.log(`📣 Notified ${result.webhook}`);
+    } else {
+      console.warn(`⚠️  Failed to notify ${result.webhook} after ${result.attempts} attempts: ${result.error}`);
+    }
+    results.push(result);
+  }
+  return results;
+}
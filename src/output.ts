@@ -0,0 +1,112 @@
+import ora, { Ora } from 'ora';
+import chalk from 'chalk';
+import { CommanderError } from 'commander';
+
+/** Exit codes of the CLI, stable across releases */
+export const EXIT_CODES = {
+  success: 0,
+  /** The command failed */
+  failure: 1,
+  /** Invalid command, options or arguments */
+  usage: 2,
+  /** The analysis finished, but steps failed or a spend limit stopped it early */
+  partial: 3,
+  /** `check` found costs above their limits */
+  thresholdsBreached: 4
+} as const;
+
+export type ExitCode = typeof EXIT_CODES[keyof typeof EXIT_CODES];
+
+/** Version of the JSON documents printed with `--json` */
+export const JSON_OUTPUT_VERSION = 1;
+
+const outputMode = { json: false, quiet: false };
+
+/**
+ * Switch the output mode for the rest of the process. With `json`, diagnostic logging is
+ * routed to stderr so stdout carries only the result document; with `quiet`, it is dropped.
+ * Errors are always written to stderr.
+ */
+export function configureOutput(options: { json?: boolean; quiet?: boolean }): void {
+  outputMode.json = options.json === true;
+  outputMode.quiet = options.quiet === true;
+
+  if (outputMode.quiet) {
+    const discard = () => undefined;
+    console.log = discard;
+    console.info = discard;
+    console.debug = discard;
+    console.warn = discard;
+  } else if (outputMode.json) {
+    const toStderr = (...args: unknown[]) => console.error(...args);
+    console.log = toStderr;
+    console.info = toStderr;
+    console.debug = toStderr;
+  }
+}
+
+export function isJsonOutput(): boolean {
+  return outputMode.json;
+}
+
+/**
+ * Log a progress message: on stdout in text mode, on stderr in JSON mode, dropped in quiet mode
+ */
+export function logInfo(message: string): void {
+  if (!outputMode.quiet) {
+    (outputMode.json ? process.stderr : process.stdout).write(`${message}\n`);
+  }
+}
+
+/**
+ * Log a warning on stderr, dropped in quiet mode
+ */
+export function logWarning(message: string): void {
+  if (!outputMode.quiet) {
+    process.stderr.write(`${message}\n`);
+  }
+}
+
+/**
+ * Create a progress spinner on stderr, silent in quiet mode
+ */
+export function createSpinner(text?: string): Ora {
+  return ora({ text, isSilent: outputMode.quiet, stream: process.stderr });
+}
+
+/**
+ * Print the result of a command: the JSON document in JSON mode, or the given
+ * lines in quiet mode, where they are the only output. Text mode has printed its result already.
+ */
+export function printResult(command: string, data: Record<string, unknown>, quietLines: string[] = []): void {
+  if (outputMode.json) {
+    process.stdout.write(`${JSON.stringify({ version: JSON_OUTPUT_VERSION, command, ok: true, ...data }, null, 2)}\n`);
+  } else if (outputMode.quiet && quietLines.length > 0) {
+    process.stdout.write(`${quietLines.join('\n')}\n`);
+  }
+}
+
+/**
+ * Exit code for an error: usage errors for invalid options and arguments, failure otherwise
+ */
+export function exitCodeFor(error: unknown): ExitCode {
+  return error instanceof CommanderError ? EXIT_CODES.usage : EXIT_CODES.failure;
+}
+
+/**
+ * Report a failed command and exit: as a JSON document on stdout in JSON mode, otherwise
+ * through the spinner or on stderr
+ */
+export function exitWithError(command: string, error: unknown, spinner?: Ora, label?: string): never {
+  const message = error instanceof Error ? error.message : String(error);
+  const exitCode = exitCodeFor(error);
+
+  if (spinner?.isSpinning) {
+    spinner.stop();
+  }
+  if (outputMode.json) {
+    process.stdout.write(`${JSON.stringify({ version: JSON_OUTPUT_VERSION, command, ok: false, error: { message, exitCode } }, null, 2)}\n`);
+  }
+  console.error(chalk.red(label ? `✖ ${label}: ${message}` : `Error: ${message}`));
+  process.exit(exitCode);
+}
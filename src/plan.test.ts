@@ -0,0 +1,43 @@
+import { jest, describe, it, expect } from '@jest/globals';
+
+jest.unstable_mockModule('@ddegtyarev/aws-tools', () => ({
+  invoke: jest.fn(),
+  tools: [{ name: 'awsGetCostAndUsage' }, { name: 'awsCloudWatchGetMetrics' }]
+}));
+
+const { validatePlan } = await import('./plan.js');
+
+const step = { title: 'Lambda compute', service: 'AWS Lambda', region: 'us-east-1', useTools: ['awsGetCostAndUsage'] };
+const combo = { service: 'AWS Lambda', region: 'us-east-1', cost: 1250.4, currency: 'USD', period: '2025-07-01 to 2025-08-01' };
+
+describe('validatePlan', () => {
+  it('accepts a plan with its combinations', () => {
+    expect(validatePlan({ version: 1, serviceRegionCombos: [combo], steps: [{ ...step, playbook: 'lambda-functions' }] })).toEqual([]);
+  });
+
+  it('rejects unknown properties, tools and playbooks', () => {
+    expect(validatePlan({ steps: [{ ...step, useTools: ['awsUnknown'], playbook: 'unknown', extra: true }], notes: '' })).toEqual([
+      'Unknown property "notes"',
+      'steps[0]: unknown property "extra"',
+      'steps[0].playbook: unknown playbook "unknown"',
+      'steps[0].useTools: unknown tool "awsUnknown"'
+    ]);
+  });
+
+  it('requires steps with a title, service, region and tools', () => {
+    expect(validatePlan({ steps: [] })).toEqual(['"steps" must be a non-empty array']);
+    expect(validatePlan({ steps: [{ title: ' ', service: 'AWS Lambda', region: 'us-east-1' }] })).toEqual([
+      'steps[0].title must be a non-empty string',
+      'steps[0].useTools must be a non-empty array of tool names'
+    ]);
+  });
+
+  it('requires combinations with a service, region and numeric cost', () => {
+    expect(validatePlan({ serviceRegionCombos: [{ ...combo, cost: undefined }, { ...combo, region: '', costChange: '12' }, 'AWS Lambda'], steps: [step] })).toEqual([
+      'serviceRegionCombos[0].cost must be a number',
+      'serviceRegionCombos[1].region must be a non-empty string',
+      'serviceRegionCombos[1].costChange must be a number',
+      'serviceRegionCombos[2] must be an object'
+    ]);
+  });
+});
@@ -0,0 +1,184 @@
+import fs from 'fs-extra';
+import * as path from 'path';
+import { jsonSchema } from 'ai';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { tools } from '@ddegtyarev/aws-tools';
+import { getPlaybook } from './playbooks.js';
+import { PlanFile, ServicePlaybook } from './types.js';
+
+export const PLAN_FILE_VERSION = 1;
+
+const STEP_KEYS = ['title', 'service', 'region', 'useTools'];
+/** Step properties of plan files that the planner does not produce */
+const OPTIONAL_STEP_KEYS = ['playbook'];
+const PLAN_FILE_KEYS = ['version', 'createdAt', 'costWindow', 'serviceRegionCombos', 'steps'];
+
+/**
+ * JSON schema of the analysis plan, shared by the planner and plan files
+ */
+export const PLAN_SCHEMA: Parameters<typeof jsonSchema>[0] = {
+  type: 'object',
+  properties: {
+    steps: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: {
+            type: 'string',
+            description: 'A descriptive title for the analysis step'
+          },
+          service: {
+            type: 'string',
+            description: 'The AWS service name to analyze'
+          },
+          region: {
+            type: 'string',
+            description: 'The AWS region to analyze'
+          },
+          useTools: {
+            type: 'array',
+            items: {
+              type: 'string'
+            },
+            description: 'Array of tool names to use for this step'
+          }
+        },
+        required: STEP_KEYS
+      }
+    }
+  },
+  required: ['steps']
+};
+
+function isYamlFile(filePath: string): boolean {
+  return /\.ya?ml$/i.test(filePath);
+}
+
+function validateCombo(entry: unknown, where: string): string[] {
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    return [`${where} must be an object`];
+  }
+  const combo = entry as Record<string, unknown>;
+  const errors: string[] = [];
+  for (const key of ['service', 'region']) {
+    const value = combo[key];
+    if (typeof value !== 'string' || value.trim() === '') {
+      errors.push(`${where}.${key} must be a non-empty string`);
+    }
+  }
+  for (const key of ['currency', 'period', 'account']) {
+    if (combo[key] !== undefined && typeof combo[key] !== 'string') {
+      errors.push(`${where}.${key} must be a string`);
+    }
+  }
+  if (typeof combo.cost !== 'number' || !Number.isFinite(combo.cost)) {
+    errors.push(`${where}.cost must be a number`);
+  }
+  for (const key of ['previousCost', 'costChange', 'costChangePercent']) {
+    if (combo[key] !== undefined && (typeof combo[key] !== 'number' || !Number.isFinite(combo[key]))) {
+      errors.push(`${where}.${key} must be a number`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Validate a plan file against the plan schema, the available tools and the playbooks
+ * (default: the built-in playbooks). Returns a list of problems, empty when the plan is valid.
+ */
+export function validatePlan(plan: unknown, playbooks?: ServicePlaybook[]): string[] {
+  const errors: string[] = [];
+  if (!plan || typeof plan !== 'object' || Array.isArray(plan)) {
+    return ['The plan must be an object with a "steps" array'];
+  }
+
+  Object.keys(plan)
+    .filter(key => !PLAN_FILE_KEYS.includes(key))
+    .forEach(key => errors.push(`Unknown property "${key}"`));
+
+  const { version, serviceRegionCombos, steps } = plan as Record<string, unknown>;
+  if (version !== undefined && version !== PLAN_FILE_VERSION) {
+    errors.push(`Unsupported plan version ${version}, expected ${PLAN_FILE_VERSION}`);
+  }
+  if (serviceRegionCombos !== undefined && !Array.isArray(serviceRegionCombos)) {
+    errors.push('"serviceRegionCombos" must be an array');
+  } else if (serviceRegionCombos) {
+    serviceRegionCombos.forEach((combo: unknown, index: number) => errors.push(...validateCombo(combo, `serviceRegionCombos[${index}]`)));
+  }
+  if (!Array.isArray(steps) || steps.length === 0) {
+    errors.push('"steps" must be a non-empty array');
+    return errors;
+  }
+
+  const availableTools = tools.map(tool => tool.name);
+  steps.forEach((entry: unknown, index: number) => {
+    const where = `steps[${index}]`;
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      errors.push(`${where} must be an object`);
+      return;
+    }
+    const step = entry as Record<string, unknown>;
+    Object.keys(step)
+      .filter(key => !STEP_KEYS.includes(key) && !OPTIONAL_STEP_KEYS.includes(key))
+      .forEach(key => errors.push(`${where}: unknown property "${key}"`));
+    for (const key of ['title', 'service', 'region']) {
+      const value = step[key];
+      if (typeof value !== 'string' || value.trim() === '') {
+        errors.push(`${where}.${key} must be a non-empty string`);
+      }
+    }
+    if (step.playbook !== undefined && (typeof step.playbook !== 'string' || !getPlaybook(step.playbook, playbooks))) {
+      errors.push(`${where}.playbook: unknown playbook "${step.playbook}"`);
+    }
+    const useTools = step.useTools;
+    if (!Array.isArray(useTools) || useTools.length === 0) {
+      errors.push(`${where}.useTools must be a non-empty array of tool names`);
+      return;
+    }
+    useTools.forEach((toolName: unknown) => {
+      if (!availableTools.includes(toolName)) {
+        errors.push(`${where}.useTools: unknown tool "${toolName}"`);
+      }
+    });
+  });
+
+  return errors;
+}
+
+/**
+ * Write a plan to a JSON or YAML file, chosen by the file extension
+ */
+export async function writePlanFile(filePath: string, plan: PlanFile): Promise<string> {
+  const fullPath = path.resolve(filePath);
+  await fs.ensureDir(path.dirname(fullPath));
+  const content = isYamlFile(fullPath) ? stringifyYaml(plan) : `${JSON.stringify(plan, null, 2)}\n`;
+  await fs.writeFile(fullPath, content, 'utf8');
+  return fullPath;
+}
+
+/**
+ * Read and validate a JSON or YAML plan file
+ */
+export async function readPlanFile(filePath: string, playbooks?: ServicePlaybook[]): Promise<PlanFile> {
+  const fullPath = path.resolve(filePath);
+  if (!await fs.pathExists(fullPath)) {
+    throw new Error(`Plan file not found: ${fullPath}`);
+  }
+
+  let plan: unknown;
+  try {
+    const content = await fs.readFile(fullPath, 'utf8');
+    plan = isYamlFile(fullPath) ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to parse plan file ${fullPath}: ${errorMessage}`);
+  }
+
+  const errors = validatePlan(plan, playbooks);
+  if (errors.length > 0) {
+    throw new Error(`Invalid plan file ${fullPath}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  return plan as PlanFile;
+}
@@ -0,0 +1,118 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+
+jest.unstable_mockModule('@ddegtyarev/aws-tools', () => ({
+  invoke: jest.fn(),
+  tools: [
+    { name: 'awsGetCostAndUsage', inputSchema: { type: 'object', properties: { lookBack: { type: 'number' }, groupBy: { type: 'array' } } } },
+    { name: 'awsCloudWatchGetMetrics', inputSchema: { type: 'object', properties: { namespace: { type: 'string' }, metricName: { type: 'string' } } } }
+  ]
+}));
+
+const { BUILTIN_PLAYBOOKS, applyToolPresets, loadPlaybooks, planWithPlaybooks, validatePlaybook } = await import('./playbooks.js');
+
+const playbook = {
+  id: 'lambda-functions',
+  title: 'Lambda compute',
+  services: ['AWS Lambda'],
+  tools: ['awsGetCostAndUsage', 'awsCloudWatchGetMetrics'],
+  toolPresets: { awsCloudWatchGetMetrics: { namespace: 'AWS/Lambda', metricName: 'Duration' } },
+  checklist: ['Compare GB-seconds with invocations']
+};
+
+describe('applyToolPresets', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('fills the params a call leaves unset', () => {
+    const schema = { properties: { lookBack: {}, groupBy: {} } };
+
+    expect(applyToolPresets({ lookBack: 3 }, { groupBy: ['USAGE_TYPE'], lookBack: 12 }, schema)).toEqual({ groupBy: ['USAGE_TYPE'], lookBack: 3 });
+    expect(applyToolPresets({ lookBack: 3 }, undefined, schema)).toEqual({ lookBack: 3 });
+  });
+
+  it('drops presets of params the tool does not declare with a warning', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const params = applyToolPresets({}, { groupBy: ['USAGE_TYPE'], granularity: 'DAILY' }, { properties: { groupBy: {} } }, 'awsGetCostAndUsage');
+
+    expect(params).toEqual({ groupBy: ['USAGE_TYPE'] });
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('awsGetCostAndUsage does not declare these params: granularity'));
+  });
+});
+
+describe('validatePlaybook', () => {
+  it('accepts presets of declared params', () => {
+    expect(validatePlaybook(playbook)).toEqual([]);
+  });
+
+  it('checks the tools and preset names against the aws-tools schemas', () => {
+    expect(validatePlaybook({
+      ...playbook,
+      tools: ['awsGetCostAndUsage', 'awsUnknown'],
+      toolPresets: { awsGetCostAndUsage: { groupBy: ['USAGE_TYPE'], period: 'MONTHLY' }, awsCloudWatchGetMetrics: { namespace: 'AWS/Lambda' } }
+    })).toEqual([
+      'Unknown tool "awsUnknown"',
+      'toolPresets.awsGetCostAndUsage.period: awsGetCostAndUsage has no "period" param',
+      'toolPresets.awsCloudWatchGetMetrics: awsCloudWatchGetMetrics is not one of the playbook tools'
+    ]);
+  });
+
+  it('rejects playbooks without a checklist or services', () => {
+    expect(validatePlaybook({ ...playbook, services: [], checklist: 'Check it', notes: '' })).toEqual([
+      'Unknown property "notes"',
+      '"services" must be a non-empty array of strings',
+      '"checklist" must be a non-empty array of strings'
+    ]);
+  });
+});
+
+describe('loadPlaybooks', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'playbooks-'));
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(directory);
+  });
+
+  it('returns the built-in playbooks without a directory', async () => {
+    expect(await loadPlaybooks()).toBe(BUILTIN_PLAYBOOKS);
+  });
+
+  it('adds playbooks and replaces built-in ones with the same ID', async () => {
+    const [ec2Service] = BUILTIN_PLAYBOOKS.find(builtin => builtin.id === 'ec2-compute')?.services ?? [];
+    await fs.writeJson(path.join(directory, 'lambda.json'), playbook);
+    await fs.writeFile(path.join(directory, 'ec2.yaml'), `- id: ec2-compute
+  title: EC2 compute
+  services: [${ec2Service}]
+  tools: [awsGetCostAndUsage]
+  checklist: [Break the cost down by instance type]
+`);
+
+    const playbooks = await loadPlaybooks(directory);
+
+    expect(playbooks.filter(loaded => loaded.id === 'ec2-compute')).toEqual([expect.objectContaining({ title: 'EC2 compute' })]);
+    expect(playbooks).toHaveLength(new Set([...BUILTIN_PLAYBOOKS.map(builtin => builtin.id), playbook.id]).size);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Playbook ec2-compute from ec2.yaml replaces an existing playbook'));
+
+    const { steps } = planWithPlaybooks([
+      { service: 'AWS Lambda', region: 'us-east-1', cost: 120, currency: 'USD', period: '2026-09-01' }
+    ], ['awsGetCostAndUsage', 'awsCloudWatchGetMetrics'], playbooks);
+    expect(steps).toEqual([expect.objectContaining({ playbook: 'lambda-functions', title: 'Lambda compute (us-east-1)' })]);
+  });
+
+  it('rejects files with invalid playbooks', async () => {
+    await fs.writeJson(path.join(directory, 'lambda.json'), [{ ...playbook, tools: ['awsUnknown'], toolPresets: undefined }]);
+
+    await expect(loadPlaybooks(directory)).rejects.toThrow(/Invalid playbook file lambda.json:\n {2}- lambda-functions: Unknown tool "awsUnknown"/);
+    await expect(loadPlaybooks(path.join(directory, 'missing'))).rejects.toThrow(/Playbooks directory not found/);
+  });
+});
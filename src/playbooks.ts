@@ -0,0 +1,327 @@
+import fs from 'fs-extra';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { tools as awsTools } from '@ddegtyarev/aws-tools';
+import { AnalysisStep, ServicePlaybook, ServiceRegionCombo, ToolDefinition } from './types.js';
+
+const PLAYBOOK_KEYS = ['id', 'title', 'services', 'tools', 'toolPresets', 'checklist'];
+
+/**
+ * Curated analysis playbooks for well-known services, keyed by Cost Explorer service name.
+ * Steps of combinations with a playbook are built from it instead of being planned by the LLM.
+ */
+export const BUILTIN_PLAYBOOKS: ServicePlaybook[] = [
+  {
+    id: 'ec2-compute',
+    title: 'EC2 compute usage and commitments',
+    services: ['Amazon Elastic Compute Cloud - Compute'],
+    tools: ['awsGetCostAndUsage', 'awsCloudWatchGetMetrics'],
+    toolPresets: {
+      awsGetCostAndUsage: { groupBy: ['USAGE_TYPE'] },
+      awsCloudWatchGetMetrics: { namespace: 'AWS/EC2', metricName: 'CPUUtilization' }
+    },
+    checklist: [
+      'Break the cost down by usage type: instance families and sizes, On-Demand versus Spot and Savings Plans or Reserved Instance coverage',
+      'Compare CPU utilisation with instance sizes to find over-provisioned instances',
+      'Identify steady On-Demand usage that a Compute Savings Plan would cover',
+      'Point out older instance generations that have a cheaper current-generation or Graviton equivalent'
+    ]
+  },
+  {
+    id: 's3-storage',
+    title: 'S3 storage classes and requests',
+    services: ['Amazon Simple Storage Service'],
+    tools: ['awsGetCostAndUsage', 'awsCloudWatchGetMetrics'],
+    toolPresets: {
+      awsGetCostAndUsage: { groupBy: ['USAGE_TYPE'] },
+      awsCloudWatchGetMetrics: { namespace: 'AWS/S3', metricName: 'BucketSizeBytes' }
+    },
+    checklist: [
+      'Split the cost into storage by class, requests and data transfer out',
+      'Check the share of Standard storage and whether lifecycle rules or Intelligent-Tiering would move cold data to cheaper classes',
+      'Look for request costs that suggest chatty clients, small objects or missing caching',
+      'Flag growth in storage that points to missing expiration of old versions or incomplete multipart uploads'
+    ]
+  },
+  {
+    id: 'rds-databases',
+    title: 'RDS instances, storage and commitments',
+    services: ['Amazon Relational Database Service'],
+    tools: ['awsGetCostAndUsage', 'awsCloudWatchGetMetrics'],
+    toolPresets: {
+      awsGetCostAndUsage: { groupBy: ['USAGE_TYPE'] },
+      awsCloudWatchGetMetrics: { namespace: 'AWS/RDS', metricName: 'CPUUtilization' }
+    },
+    checklist: [
+      'Break the cost down into instance hours, storage, provisioned IOPS, backups and Multi-AZ',
+      'Compare CPU utilisation with instance classes to find over-provisioned databases',
+      'Check Reserved Instance coverage of steady instance usage',
+      'Look for backup storage or snapshots growing beyond the retention the workload needs'
+    ]
+  },
+  {
+    id: 'lambda-functions',
+    title: 'Lambda compute and invocations',
+    services: ['AWS Lambda'],
+    tools: ['awsGetCostAndUsage', 'awsCloudWatchGetMetrics'],
+    toolPresets: {
+      awsGetCostAndUsage: { groupBy: ['USAGE_TYPE'] },
+      awsCloudWatchGetMetrics: { namespace: 'AWS/Lambda', metricName: 'Duration' }
+    },
+    checklist: [
+      'Split the cost into GB-seconds and requests, and x86 versus ARM compute',
+      'Relate the trend in GB-seconds to invocations and duration to tell traffic growth from slower functions',
+      'Suggest memory right-sizing and moving x86 functions to Graviton where duration allows',
+      'Check for provisioned concurrency that is paid for but not used'
+    ]
+  },
+  {
+    id: 'cloudfront-delivery',
+    title: 'CloudFront delivery and requests',
+    services: ['Amazon CloudFront'],
+    tools: ['awsGetCostAndUsage', 'awsCloudWatchGetMetrics'],
+    toolPresets: {
+      awsGetCostAndUsage: { groupBy: ['USAGE_TYPE'] },
+      awsCloudWatchGetMetrics: { namespace: 'AWS/CloudFront', metricName: 'BytesDownloaded' }
+    },
+    checklist: [
+      'Break the cost down into data transfer out by edge location region and HTTP or HTTPS requests',
+      'Check whether the price class serves regions the audience does not need',
+      'Look for a low cache hit ratio that sends traffic back to the origin',
+      'Consider the CloudFront Security Savings Bundle or a private pricing agreement for steady traffic'
+    ]
+  },
+  {
+    id: 'nat-data-transfer',
+    title: 'NAT gateways and data transfer',
+    services: ['EC2 - Other', 'Amazon Virtual Private Cloud', 'AWS Data Transfer'],
+    tools: ['awsGetCostAndUsage', 'awsCloudWatchGetMetrics'],
+    toolPresets: {
+      awsGetCostAndUsage: { groupBy: ['USAGE_TYPE'] },
+      awsCloudWatchGetMetrics: { namespace: 'AWS/NATGateway', metricName: 'BytesOutToDestination' }
+    },
+    checklist: [
+      'Separate NAT gateway hours, NAT data processing, inter-AZ, inter-region and internet data transfer',
+      'Identify traffic to AWS services through NAT gateways that gateway or interface VPC endpoints would carry more cheaply',
+      'Look for cross-AZ traffic between tiers that could stay within one Availability Zone',
+      'Note EBS volumes, snapshots and idle Elastic IPs when they appear under EC2 - Other'
+    ]
+  },
+  {
+    id: 'dynamodb-tables',
+    title: 'DynamoDB capacity and storage',
+    services: ['Amazon DynamoDB'],
+    tools: ['awsGetCostAndUsage', 'awsCloudWatchGetMetrics'],
+    toolPresets: {
+      awsGetCostAndUsage: { groupBy: ['USAGE_TYPE'] },
+      awsCloudWatchGetMetrics: { namespace: 'AWS/DynamoDB', metricName: 'ConsumedReadCapacityUnits' }
+    },
+    checklist: [
+      'Split the cost into read and write capacity or request units, storage, backups and streams',
+      'Compare provisioned with consumed capacity to choose between on-demand and provisioned mode with auto scaling',
+      'Check whether reserved capacity would cover steady provisioned throughput',
+      'Look for tables whose storage would be cheaper in the Standard-Infrequent Access table class'
+    ]
+  }
+];
+
+/**
+ * Validate a playbook against the available aws-tools: its tools must exist and its presets
+ * may only set params declared by the tool's input schema. Returns a list of problems, empty when valid.
+ */
+export function validatePlaybook(value: unknown, availableTools: ToolDefinition[] = awsTools): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return ['A playbook must be an object'];
+  }
+  const playbook = value as Record<string, unknown>;
+
+  const errors: string[] = [];
+  Object.keys(playbook)
+    .filter(key => !PLAYBOOK_KEYS.includes(key))
+    .forEach(key => errors.push(`Unknown property "${key}"`));
+  for (const key of ['id', 'title']) {
+    const field = playbook[key];
+    if (typeof field !== 'string' || field.trim() === '') {
+      errors.push(`"${key}" must be a non-empty string`);
+    }
+  }
+  for (const key of ['services', 'tools', 'checklist']) {
+    const items = playbook[key];
+    if (!Array.isArray(items) || items.length === 0 || items.some((item: unknown) => typeof item !== 'string')) {
+      errors.push(`"${key}" must be a non-empty array of strings`);
+    }
+  }
+
+  const playbookTools: string[] = Array.isArray(playbook.tools) ? playbook.tools : [];
+  playbookTools
+    .filter(toolName => !availableTools.some(tool => tool.name === toolName))
+    .forEach(toolName => errors.push(`Unknown tool "${toolName}"`));
+
+  const { toolPresets } = playbook;
+  if (toolPresets !== undefined) {
+    if (!toolPresets || typeof toolPresets !== 'object' || Array.isArray(toolPresets)) {
+      return [...errors, '"toolPresets" must be an object of params keyed by tool name'];
+    }
+    for (const [toolName, params] of Object.entries(toolPresets)) {
+      if (!playbookTools.includes(toolName)) {
+        errors.push(`toolPresets.${toolName}: ${toolName} is not one of the playbook tools`);
+        continue;
+      }
+      if (!params || typeof params !== 'object' || Array.isArray(params)) {
+        errors.push(`toolPresets.${toolName} must be an object of params`);
+        continue;
+      }
+      const declared = Object.keys(availableTools.find(tool => tool.name === toolName)?.inputSchema?.properties || {});
+      Object.keys(params)
+        .filter(name => !declared.includes(name))
+        .forEach(name => errors.push(`toolPresets.${toolName}.${name}: ${toolName} has no "${name}" param`));
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Load the built-in playbooks plus playbooks from a directory of JSON or YAML files, each
+ * holding a playbook or an array of playbooks. A playbook with the ID of a built-in playbook
+ * replaces it, and playbooks from the directory take precedence for their services.
+ */
+export async function loadPlaybooks(playbooksDir?: string): Promise<ServicePlaybook[]> {
+  if (!playbooksDir) {
+    return BUILTIN_PLAYBOOKS;
+  }
+
+  const fullPath = path.resolve(playbooksDir);
+  if (!await fs.pathExists(fullPath)) {
+    throw new Error(`Playbooks directory not found: ${fullPath}`);
+  }
+
+  const custom = new Map<string, ServicePlaybook>();
+  const files = (await fs.readdir(fullPath)).filter(file => /\.(json|ya?ml)$/i.test(file)).sort();
+  for (const file of files) {
+    let content: unknown;
+    try {
+      const text = await fs.readFile(path.join(fullPath, file), 'utf8');
+      content = /\.json$/i.test(file) ? JSON.parse(text) : parseYaml(text);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to parse playbook file ${file}: ${errorMessage}`);
+    }
+
+    const candidates = Array.isArray(content) ? content : [content];
+    const errors = candidates.flatMap((candidate: unknown, index) =>
+      validatePlaybook(candidate).map(error => `${(candidate as Partial<ServicePlaybook> | undefined)?.id || `playbooks[${index}]`}: ${error}`)
+    );
+    if (errors.length > 0) {
+      throw new Error(`Invalid playbook file ${file}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+    }
+
+    for (const playbook of candidates as ServicePlaybook[]) {
+      if (custom.has(playbook.id) || getPlaybook(playbook.id)) {
+        console.warn(`⚠️  Playbook ${playbook.id} from ${file} replaces an existing playbook`);
+      }
+      custom.set(playbook.id, playbook);
+    }
+  }
+
+  return [...custom.values(), ...BUILTIN_PLAYBOOKS.filter(playbook => !custom.has(playbook.id))];
+}
+
+/**
+ * Find the playbook of a Cost Explorer service name
+ */
+export function findPlaybook(service: string, playbooks: ServicePlaybook[] = BUILTIN_PLAYBOOKS): ServicePlaybook | undefined {
+  return playbooks.find(playbook => playbook.services.some(name => name.toLowerCase() === service.toLowerCase()));
+}
+
+/**
+ * Find a playbook by its ID
+ */
+export function getPlaybook(id: string, playbooks: ServicePlaybook[] = BUILTIN_PLAYBOOKS): ServicePlaybook | undefined {
+  return playbooks.find(playbook => playbook.id === id);
+}
+
+/**
+ * Build the analysis steps of the combinations with a playbook, using the playbook tools
+ * that are available. Combinations without a playbook, or without any of its tools
+ * available, are returned for the planner.
+ */
+export function planWithPlaybooks(
+  combos: ServiceRegionCombo[],
+  availableTools: string[],
+  playbooks: ServicePlaybook[] = BUILTIN_PLAYBOOKS
+): { steps: AnalysisStep[]; unplanned: ServiceRegionCombo[] } {
+  const steps: AnalysisStep[] = [];
+  const unplanned: ServiceRegionCombo[] = [];
+
+  for (const combo of combos) {
+    const playbook = findPlaybook(combo.service, playbooks);
+    const useTools = playbook?.tools.filter(toolName => availableTools.includes(toolName)) || [];
+    if (!playbook || useTools.length === 0) {
+      unplanned.push(combo);
+      continue;
+    }
+    steps.push({
+      title: `${playbook.title} (${combo.region})`,
+      service: combo.service,
+      region: combo.region,
+      useTools,
+      playbook: playbook.id
+    });
+  }
+
+  return { steps, unplanned };
+}
+
+/**
+ * Order steps like the combinations they analyze, keeping the planner's order within a combination
+ */
+export function orderStepsByCombos(steps: AnalysisStep[], combos: ServiceRegionCombo[]): AnalysisStep[] {
+  const rank = (step: AnalysisStep) => {
+    const index = combos.findIndex(combo => combo.service === step.service && combo.region === step.region);
+    return index === -1 ? combos.length : index;
+  };
+  return steps
+    .map((step, index) => ({ step, index }))
+    .sort((a, b) => rank(a.step) - rank(b.step) || a.index - b.index)
+    .map(({ step }) => step);
+}
+
+/**
+ * Fill the params a tool call leaves unset from the playbook presets, limited to the
+ * params the tool's input schema declares. Presets of other params are dropped with a warning.
+ */
+export function applyToolPresets(
+  params: Record<string, unknown>,
+  presets: Record<string, unknown> | undefined,
+  inputSchema?: ToolDefinition['inputSchema'],
+  toolName: string = 'the tool'
+): Record<string, unknown> {
+  if (!presets) {
+    return params;
+  }
+  const declared = inputSchema?.properties ? Object.keys(inputSchema.properties) : [];
+  const dropped = Object.keys(presets).filter(name => !declared.includes(name) && params[name] === undefined);
+  if (dropped.length > 0) {
+    console.warn(`⚠️  Playbook presets not applied, ${toolName} does not declare these params: ${dropped.join(', ')}`);
+  }
+  const defaults = Object.fromEntries(Object.entries(presets).filter(([name]) => declared.includes(name)));
+  return { ...defaults, ...params };
+}
+
+/**
+ * Render the checklist and tool presets of a playbook for the step prompt
+ */
+export function formatPlaybookForPrompt(playbook: ServicePlaybook, useTools: string[]): string {
+  const presets = Object.entries(playbook.toolPresets || {})
+    .filter(([toolName]) => useTools.includes(toolName))
+    .map(([toolName, params]) => `- ${toolName}: ${JSON.stringify(params)}`);
+
+  return `
+Work through this checklist for ${playbook.title}:
+${playbook.checklist.map((item, index) => `${index + 1}. ${item}`).join('\n')}
+${presets.length > 0 ? `
+Tool calls default to these params, unless you set them or the tool does not support them:
+${presets.join('\n')}
+` : ''}`;
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  configFromEnv, configOptionValues, configSources, loadConfigLayers, mergeConfigLayers, readConfigFile, validateProjectConfig
+} from './project-config.js';
+
+describe('validateProjectConfig', () => {
+  it('accepts settings of every type', () => {
+    expect(validateProjectConfig({
+      outputDir: './reports',
+      topN: 5,
+      charts: false,
+      costWindow: { granularity: 'DAILY' },
+      generation: { temperature: 0.2 },
+      guardrails: { allow: ['awsGetCostAndUsage'] },
+      cache: { ttl: '6h' }
+    })).toEqual([]);
+  });
+
+  it('rejects unknown keys and invalid values', () => {
+    expect(validateProjectConfig({
+      topN: 0,
+      charts: 'yes',
+      costWindow: { granularity: 'HOURLY', window: 3 },
+      model: 'bedrock',
+      cache: { ttl: 'soon' },
+      colour: true
+    })).toEqual([
+      '"topN" must be at least 1',
+      '"charts" must be true or false',
+      '"costWindow.granularity" must be one of: DAILY, MONTHLY',
+      'Unknown property "costWindow.window"',
+      '"model" must be an object',
+      '"cache.ttl" must be a duration in seconds or with s, m, h or d, e.g. "6h"',
+      'Unknown property "colour"'
+    ]);
+    expect(validateProjectConfig([])).toEqual(['The configuration must be an object']);
+  });
+});
+
+describe('readConfigFile', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'config-'));
+  });
+
+  afterAll(async () => {
+    await fs.remove(directory);
+  });
+
+  it('resolves paths relative to the configuration file', async () => {
+    const configPath = path.join(directory, 'team', '.aws-cost-analyzer.yaml');
+    await fs.outputFile(configPath, 'outputDir: reports\nrulesDir: ../rules\ntopN: 3\nguardrails:\n  file: guardrails.json\n');
+
+    expect(await readConfigFile(configPath)).toEqual({
+      outputDir: path.join(directory, 'team', 'reports'),
+      rulesDir: path.join(directory, 'rules'),
+      topN: 3,
+      guardrails: { file: path.join(directory, 'team', 'guardrails.json') }
+    });
+  });
+
+  it('rejects files with unknown keys', async () => {
+    const configPath = path.join(directory, 'invalid.json');
+    await fs.writeJson(configPath, { top: 3 });
+
+    await expect(readConfigFile(configPath)).rejects.toThrow(/Invalid configuration file .*invalid.json:\n {2}- Unknown property "top"/);
+  });
+});
+
+describe('configFromEnv', () => {
+  it('parses booleans, lists, numbers and paths', () => {
+    expect(configFromEnv({
+      AWS_COST_ANALYZER_CHARTS: 'no',
+      AWS_COST_ANALYZER_CACHE_ENABLED: '1',
+      AWS_COST_ANALYZER_GUARDRAILS_DENY: 'awsGetCostAndUsage, awsCloudWatchGetMetrics,',
+      AWS_COST_ANALYZER_TOP_N: '7',
+      AWS_COST_ANALYZER_GENERATION_TEMPERATURE: '0.5',
+      AWS_COST_ANALYZER_OUTPUT_DIR: 'reports',
+      AWS_COST_ANALYZER_CONCURRENCY: '',
+      LLM_PROVIDER: 'mock'
+    })).toEqual({
+      charts: false,
+      cache: { enabled: true },
+      guardrails: { deny: ['awsGetCostAndUsage', 'awsCloudWatchGetMetrics'] },
+      topN: 7,
+      generation: { temperature: 0.5 },
+      outputDir: path.resolve('reports'),
+      model: { provider: 'mock' }
+    });
+  });
+
+  it('rejects values that do not parse', () => {
+    expect(() => configFromEnv({ AWS_COST_ANALYZER_TOP_N: 'ten', AWS_COST_ANALYZER_GUARDRAILS_DEDUPE: 'maybe' }))
+      .toThrow('Invalid environment variables:\n  - AWS_COST_ANALYZER_TOP_N must be an integer\n  - AWS_COST_ANALYZER_GUARDRAILS_DEDUPE must be true or false');
+  });
+});
+
+describe('loadConfigLayers', () => {
+  let userConfigDir: string;
+  let projectDir: string;
+
+  beforeAll(async () => {
+    userConfigDir = await fs.mkdtemp(path.join(os.tmpdir(), 'config-user-'));
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'config-project-'));
+    await fs.writeFile(path.join(userConfigDir, 'config.yaml'), 'topN: 3\nconcurrency: 2\nmaxAttempts: 4\n');
+    await fs.writeJson(path.join(projectDir, '.aws-cost-analyzer.json'), { concurrency: 4, maxAttempts: 6 });
+  });
+
+  afterAll(async () => {
+    await fs.remove(projectDir);
+    await fs.remove(userConfigDir);
+  });
+
+  it('merges defaults, user, project and environment settings in increasing precedence', async () => {
+    const layers = await loadConfigLayers({ cwd: path.join(projectDir, 'nested'), userConfigDir, env: { AWS_COST_ANALYZER_MAX_ATTEMPTS: '8' } });
+
+    expect(layers.map(layer => layer.source)).toEqual(['defaults', 'user', 'project', 'env']);
+    expect(mergeConfigLayers(layers)).toMatchObject({ topN: 3, concurrency: 4, maxAttempts: 8, chartFormat: 'png' });
+    expect(configSources(layers)).toMatchObject({ chartFormat: 'defaults', topN: 'user', concurrency: 'project', maxAttempts: 'env' });
+  });
+});
+
+describe('configOptionValues', () => {
+  it('maps settings to option values in their command-line form', () => {
+    expect(configOptionValues({ topN: 5, charts: false, guardrails: { allow: ['a', 'b'] } }, 'analyze'))
+      .toEqual({ top: '5', charts: false, allowTools: 'a,b' });
+  });
+
+  it('maps output only for the commands it is scoped to', () => {
+    const config = { outputDir: '/reports', output: '/reports/monthly.md' };
+
+    expect(configOptionValues(config, 'analyze')).toMatchObject({ outputDir: '/reports', output: '/reports/monthly.md' });
+    expect(configOptionValues(config, 'analyze-step')).toMatchObject({ output: path.join('/reports', 'step-analysis.md') });
+    expect(configOptionValues({ outputDir: '/reports' }, 'execute-plan')).toMatchObject({ output: path.join('/reports', 'aws-cost-report.md') });
+    expect(configOptionValues(config, 'check')).not.toHaveProperty('output');
+  });
+});
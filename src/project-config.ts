@@ -0,0 +1,381 @@
+import fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { CHART_FORMATS } from './chartUtils.js';
+import { DEFAULT_CACHE_DIR, DEFAULT_CACHE_TTL_SECONDS, parseDuration } from './cache.js';
+import { DEFAULT_GUARDRAILS } from './guardrails.js';
+import { DEFAULT_GENERATION_SETTINGS } from './llm.js';
+import { DEFAULT_PROMPT_PACK, PROMPT_PACKS } from './prompts.js';
+import { DEFAULT_MODEL_CONFIG, listProviders } from './providers.js';
+import { DEFAULT_RETRY_OPTIONS } from './retry.js';
+import { ConfigLayer, ConfigSource, ProjectConfig } from './types.js';
+
+/** Project configuration files, looked up from the working directory upwards */
+export const PROJECT_CONFIG_FILES = ['.aws-cost-analyzer.json', '.aws-cost-analyzer.yaml', '.aws-cost-analyzer.yml'];
+
+export const USER_CONFIG_DIR = path.join(os.homedir(), '.aws-cost-analyzer');
+
+const USER_CONFIG_FILES = ['config.json', 'config.yaml', 'config.yml'];
+
+const ENV_PREFIX = 'AWS_COST_ANALYZER_';
+
+/** Report files of the commands that take a report path instead of an output directory */
+const REPORT_FILES: Record<string, string> = {
+  'analyze': 'aws-cost-report.md',
+  'execute-plan': 'aws-cost-report.md',
+  'analyze-step': 'step-analysis.md'
+};
+
+type SettingType = 'string' | 'path' | 'integer' | 'number' | 'boolean' | 'duration' | 'list';
+
+export interface ConfigSetting {
+  /** Dotted path of the setting in the configuration file */
+  key: string;
+  type: SettingType;
+  description: string;
+  values?: readonly string[];
+  min?: number;
+  max?: number;
+  default?: unknown;
+  /** Attribute of the CLI option the setting provides the default of */
+  option?: string;
+  /** Commands the option mapping is limited to, where the option means something else in others */
+  commands?: string[];
+  /** Environment variable, when not derived from the key */
+  env?: string;
+  /** Machine-specific, so left out of `config init` */
+  local?: boolean;
+}
+
+/**
+ * Schema of the configuration file. Every setting can also be set through an environment
+ * variable, `AWS_COST_ANALYZER_` followed by its key in upper snake case unless given.
+ */
+export const CONFIG_SETTINGS: ConfigSetting[] = [
+  { key: 'outputDir', type: 'path', option: 'outputDir', default: './output', description: 'Directory of the execution directories' },
+  { key: 'output', type: 'path', option: 'output', commands: ['analyze', 'execute-plan'], description: 'Report path of analyze and execute-plan (default: <outputDir>/aws-cost-report.md)' },
+  { key: 'topN', type: 'integer', min: 1, option: 'top', default: 10, description: 'Number of top service-region combinations to analyze' },
+  { key: 'concurrency', type: 'integer', min: 1, option: 'concurrency', default: 1, description: 'Number of analysis steps to execute in parallel' },
+  { key: 'maxAttempts', type: 'integer', min: 1, option: 'maxAttempts', default: DEFAULT_RETRY_OPTIONS.maxAttempts, description: 'Maximum attempts for throttled AWS and LLM calls' },
+  { key: 'charts', type: 'boolean', option: 'charts', default: true, description: 'Generate charts' },
+  { key: 'chartFormat', type: 'string', values: CHART_FORMATS, option: 'chartFormat', default: 'png', description: 'Chart output format' },
+  { key: 'playbooks', type: 'boolean', option: 'playbooks', default: true, description: 'Build the steps of well-known services from their playbooks' },
+  { key: 'playbooksDir', type: 'path', option: 'playbooksDir', description: 'Directory of JSON or YAML playbooks adding to or replacing the built-in playbooks' },
+  { key: 'rulesDir', type: 'path', option: 'rulesDir', description: 'Directory of additional recommendation rules' },
+  { key: 'costWindow.granularity', type: 'string', values: ['DAILY', 'MONTHLY'], option: 'granularity', default: 'MONTHLY', description: 'Cost granularity' },
+  { key: 'costWindow.rankBy', type: 'string', values: ['cost', 'growth', 'growth-pct'], option: 'rankBy', default: 'cost', description: 'Rank combinations by cost or cost growth' },
+  { key: 'model.provider', type: 'string', values: listProviders(), option: 'provider', env: 'LLM_PROVIDER', default: DEFAULT_MODEL_CONFIG.provider, description: 'LLM provider' },
+  { key: 'model.modelId', type: 'string', option: 'model', env: 'LLM_MODEL_ID', default: DEFAULT_MODEL_CONFIG.modelId, description: 'Model ID' },
+  { key: 'model.region', type: 'string', option: 'modelRegion', env: 'LLM_REGION', default: DEFAULT_MODEL_CONFIG.region, description: 'Region of the Bedrock provider' },
+  { key: 'model.baseURL', type: 'string', option: 'baseUrl', env: 'LLM_BASE_URL', description: 'Base URL of the openai-compatible provider' },
+  { key: 'generation.maxSteps', type: 'integer', min: 1, option: 'maxSteps', default: DEFAULT_GENERATION_SETTINGS.maxSteps, description: 'Maximum tool-call round trips of a step analysis' },
+  { key: 'generation.maxTokens', type: 'integer', min: 1, option: 'maxTokens', default: DEFAULT_GENERATION_SETTINGS.maxTokens, description: 'Maximum output tokens of a step analysis and of the report' },
+  { key: 'generation.planMaxTokens', type: 'integer', min: 1, option: 'planMaxTokens', default: DEFAULT_GENERATION_SETTINGS.planMaxTokens, description: 'Maximum output tokens of the analysis plan' },
+  { key: 'generation.findingsMaxTokens', type: 'integer', min: 1, option: 'findingsMaxTokens', default: DEFAULT_GENERATION_SETTINGS.findingsMaxTokens, description: 'Maximum output tokens of the findings of a step' },
+  { key: 'generation.chartMaxTokens', type: 'integer', min: 1, option: 'chartMaxTokens', default: DEFAULT_GENERATION_SETTINGS.chartMaxTokens, description: 'Maximum output tokens of a chart analysis' },
+  { key: 'generation.temperature', type: 'number', min: 0, max: 2, option: 'temperature', description: 'Sampling temperature of the LLM calls' },
+  { key: 'prompts.pack', type: 'string', values: PROMPT_PACKS.map(pack => pack.name), option: 'promptPack', default: DEFAULT_PROMPT_PACK, description: 'Prompt pack of the LLM calls' },
+  { key: 'prompts.directory', type: 'path', option: 'promptsDir', description: 'Directory of prompt templates overriding those of the prompt pack' },
+  { key: 'spend.maxLlmCost', type: 'number', min: 0, option: 'maxLlmCost', description: 'Stop the analysis at this estimated LLM cost in USD' },
+  { key: 'spend.maxApiCalls', type: 'integer', min: 1, option: 'maxApiCalls', description: 'Stop the analysis after this many AWS API calls' },
+  { key: 'spend.inputPrice', type: 'number', min: 0, option: 'inputPrice', description: 'LLM input token price in USD per million tokens' },
+  { key: 'spend.outputPrice', type: 'number', min: 0, option: 'outputPrice', description: 'LLM output token price in USD per million tokens' },
+  { key: 'guardrails.file', type: 'path', option: 'guardrails', description: 'Tool-call guardrails file' },
+  { key: 'guardrails.maxCallsPerTool', type: 'integer', min: 1, option: 'maxCallsPerTool', default: DEFAULT_GUARDRAILS.maxCallsPerTool, description: 'Maximum calls of each tool within a step' },
+  { key: 'guardrails.maxCallsPerStep', type: 'integer', min: 1, option: 'maxCallsPerStep', default: DEFAULT_GUARDRAILS.maxCallsPerStep, description: 'Maximum tool calls within a step' },
+  { key: 'guardrails.dedupe', type: 'boolean', option: 'dedupe', default: true, description: 'Serve repeated identical tool calls from the first result' },
+  { key: 'guardrails.allow', type: 'list', option: 'allowTools', description: 'Tools that may be called' },
+  { key: 'guardrails.deny', type: 'list', option: 'denyTools', description: 'Tools that may not be called' },
+  { key: 'cache.enabled', type: 'boolean', option: 'cache', default: true, description: 'Serve tool results from the cache' },
+  { key: 'cache.ttl', type: 'duration', option: 'cacheTtl', default: `${DEFAULT_CACHE_TTL_SECONDS}s`, description: 'How long cached tool results stay fresh' },
+  { key: 'cache.directory', type: 'path', option: 'cacheDir', default: DEFAULT_CACHE_DIR, local: true, description: 'Directory of the tool result cache' },
+  { key: 'notifications.webhooks', type: 'path', option: 'webhooks', description: 'Webhooks file' },
+  { key: 'notifications.reportBaseUrl', type: 'string', option: 'reportBaseUrl', description: 'Base URL the execution directories are published under' }
+];
+
+function getPath(object: unknown, key: string): unknown {
+  return key.split('.').reduce<unknown>((value, part) => value && typeof value === 'object' ? (value as Record<string, unknown>)[part] : undefined, object);
+}
+
+function setPath(object: object, key: string, value: unknown): void {
+  const parts = key.split('.');
+  const parent = parts.slice(0, -1).reduce<Record<string, unknown>>(
+    (current, part) => (current[part] = current[part] || {}) as Record<string, unknown>,
+    object as Record<string, unknown>
+  );
+  parent[parts[parts.length - 1]] = value;
+}
+
+/**
+ * Environment variable of a setting
+ */
+export function settingEnvName(setting: ConfigSetting): string {
+  return setting.env || `${ENV_PREFIX}${setting.key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/\./g, '_').toUpperCase()}`;
+}
+
+function validateSetting(setting: ConfigSetting, value: unknown): string | undefined {
+  switch (setting.type) {
+  case 'string':
+  case 'path':
+    if (typeof value !== 'string' || value.trim() === '') {
+      return 'must be a non-empty string';
+    }
+    break;
+  case 'integer':
+  case 'number':
+    if (typeof value !== 'number' || isNaN(value) || (setting.type === 'integer' && !Number.isInteger(value))) {
+      return `must be ${setting.type === 'integer' ? 'an integer' : 'a number'}`;
+    }
+    if ((setting.min !== undefined && value < setting.min) || (setting.max !== undefined && value > setting.max)) {
+      return setting.max !== undefined ? `must be between ${setting.min} and ${setting.max}` : `must be at least ${setting.min}`;
+    }
+    break;
+  case 'boolean':
+    if (typeof value !== 'boolean') {
+      return 'must be true or false';
+    }
+    break;
+  case 'duration':
+    try {
+      parseDuration(String(value));
+    } catch {
+      return 'must be a duration in seconds or with s, m, h or d, e.g. "6h"';
+    }
+    break;
+  case 'list':
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+      return 'must be an array of strings';
+    }
+    break;
+  }
+  if (setting.values && (typeof value !== 'string' || !setting.values.includes(value))) {
+    return `must be one of: ${setting.values.join(', ')}`;
+  }
+  return undefined;
+}
+
+/**
+ * Validate a configuration against the settings schema. Returns a list of problems, empty when valid.
+ */
+export function validateProjectConfig(config: unknown): string[] {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return ['The configuration must be an object'];
+  }
+
+  const errors: string[] = [];
+  const check = (object: object, prefix: string) => {
+    for (const [name, value] of Object.entries(object)) {
+      const key = prefix ? `${prefix}.${name}` : name;
+      const setting = CONFIG_SETTINGS.find(candidate => candidate.key === key);
+      if (setting) {
+        const problem = validateSetting(setting, value);
+        if (problem) {
+          errors.push(`"${key}" ${problem}`);
+        }
+      } else if (CONFIG_SETTINGS.some(candidate => candidate.key.startsWith(`${key}.`))) {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+          errors.push(`"${key}" must be an object`);
+        } else {
+          check(value, key);
+        }
+      } else {
+        errors.push(`Unknown property "${key}"`);
+      }
+    }
+  };
+  check(config, '');
+  return errors;
+}
+
+/**
+ * Read and validate a JSON or YAML configuration file. Paths in it are relative to the file.
+ */
+export async function readConfigFile(filePath: string): Promise<ProjectConfig> {
+  const fullPath = path.resolve(filePath);
+  if (!await fs.pathExists(fullPath)) {
+    throw new Error(`Configuration file not found: ${fullPath}`);
+  }
+
+  let config: unknown;
+  try {
+    const content = await fs.readFile(fullPath, 'utf8');
+    config = (/\.ya?ml$/i.test(fullPath) ? parseYaml(content) : JSON.parse(content)) ?? {};
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to parse configuration file ${fullPath}: ${errorMessage}`);
+  }
+
+  const errors = validateProjectConfig(config);
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration file ${fullPath}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  const projectConfig = config as ProjectConfig;
+  for (const setting of CONFIG_SETTINGS.filter(candidate => candidate.type === 'path')) {
+    const value = getPath(projectConfig, setting.key);
+    if (typeof value === 'string') {
+      setPath(projectConfig, setting.key, path.resolve(path.dirname(fullPath), value));
+    }
+  }
+  return projectConfig;
+}
+
+async function findFile(directory: string, names: string[]): Promise<string | undefined> {
+  for (const name of names) {
+    if (await fs.pathExists(path.join(directory, name))) {
+      return path.join(directory, name);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find the project configuration file in a directory or its nearest ancestor that has one
+ */
+export async function findProjectConfigFile(startDir: string = process.cwd()): Promise<string | undefined> {
+  for (let directory = path.resolve(startDir); ; directory = path.dirname(directory)) {
+    const found = await findFile(directory, PROJECT_CONFIG_FILES);
+    if (found || path.dirname(directory) === directory) {
+      return found;
+    }
+  }
+}
+
+function parseEnvValue(setting: ConfigSetting, raw: string): unknown {
+  switch (setting.type) {
+  case 'integer':
+  case 'number':
+    return raw.trim() === '' ? raw : Number(raw);
+  case 'boolean':
+    return ['true', '1', 'yes'].includes(raw.toLowerCase()) ? true : ['false', '0', 'no'].includes(raw.toLowerCase()) ? false : raw;
+  case 'list':
+    return raw.split(',').map(item => item.trim()).filter(Boolean);
+  case 'path':
+    return path.resolve(raw);
+  default:
+    return raw;
+  }
+}
+
+/**
+ * Read the settings given through environment variables
+ */
+export function configFromEnv(env: NodeJS.ProcessEnv = process.env): ProjectConfig {
+  const config: ProjectConfig = {};
+  const errors: string[] = [];
+  for (const setting of CONFIG_SETTINGS) {
+    const name = settingEnvName(setting);
+    const raw = env[name];
+    if (raw === undefined || raw === '') {
+      continue;
+    }
+    const value = parseEnvValue(setting, raw);
+    const problem = validateSetting(setting, value);
+    if (problem) {
+      errors.push(`${name} ${problem}`);
+    } else {
+      setPath(config, setting.key, value);
+    }
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid environment variables:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+  return config;
+}
+
+/**
+ * The built-in defaults of all settings that have one
+ */
+export function defaultConfig(options: { includeLocal?: boolean } = {}): ProjectConfig {
+  const config: ProjectConfig = {};
+  CONFIG_SETTINGS
+    .filter(setting => setting.default !== undefined && (options.includeLocal !== false || !setting.local))
+    .forEach(setting => setPath(config, setting.key, setting.default));
+  return config;
+}
+
+/**
+ * Load the configuration layers: built-in defaults, the user configuration in
+ * `~/.aws-cost-analyzer/`, the project configuration (the given file, or the nearest
+ * `.aws-cost-analyzer.json`/`.yaml`) and environment variables
+ */
+export async function loadConfigLayers(
+  options: { configPath?: string; cwd?: string; env?: NodeJS.ProcessEnv; userConfigDir?: string } = {}
+): Promise<ConfigLayer[]> {
+  const layers: ConfigLayer[] = [{ source: 'defaults', config: defaultConfig() }];
+
+  const userFile = await findFile(options.userConfigDir || USER_CONFIG_DIR, USER_CONFIG_FILES);
+  if (userFile) {
+    layers.push({ source: 'user', origin: userFile, config: await readConfigFile(userFile) });
+  }
+
+  const projectFile = options.configPath ? path.resolve(options.configPath) : await findProjectConfigFile(options.cwd);
+  if (projectFile) {
+    layers.push({ source: 'project', origin: projectFile, config: await readConfigFile(projectFile) });
+  }
+
+  const fromEnv = configFromEnv(options.env);
+  if (Object.keys(fromEnv).length > 0) {
+    layers.push({ source: 'env', origin: 'environment variables', config: fromEnv });
+  }
+  return layers;
+}
+
+/**
+ * Merge configuration layers setting by setting, later layers taking precedence
+ */
+export function mergeConfigLayers(layers: ConfigLayer[]): ProjectConfig {
+  const merged: ProjectConfig = {};
+  for (const setting of CONFIG_SETTINGS) {
+    for (const layer of layers) {
+      const value = getPath(layer.config, setting.key);
+      if (value !== undefined) {
+        setPath(merged, setting.key, value);
+      }
+    }
+  }
+  return merged;
+}
+
+/**
+ * The layer each effective setting comes from
+ */
+export function configSources(layers: ConfigLayer[]): Record<string, ConfigSource> {
+  const sources: Record<string, ConfigSource> = {};
+  for (const setting of CONFIG_SETTINGS) {
+    const layer = [...layers].reverse().find(candidate => getPath(candidate.config, setting.key) !== undefined);
+    if (layer) {
+      sources[setting.key] = layer.source;
+    }
+  }
+  return sources;
+}
+
+/**
+ * Translate a configuration into values of the options of a command, keyed by option
+ * attribute, in the string form the command line would give them
+ */
+export function configOptionValues(config: ProjectConfig, commandName: string): Record<string, string | boolean> {
+  const values: Record<string, string | boolean> = {};
+  for (const setting of CONFIG_SETTINGS) {
+    const value = getPath(config, setting.key);
+    if (value === undefined || !setting.option || (setting.commands && !setting.commands.includes(commandName))) {
+      continue;
+    }
+    values[setting.option] = typeof value === 'boolean' ? value : Array.isArray(value) ? value.join(',') : String(value);
+  }
+
+  // Reports go into the output directory unless placed explicitly
+  if (config.outputDir && REPORT_FILES[commandName] && values.output === undefined) {
+    values.output = path.join(config.outputDir, REPORT_FILES[commandName]);
+  }
+  return values;
+}
+
+/**
+ * Serialise a configuration as YAML or JSON, chosen by the file extension
+ */
+export function formatConfig(config: ProjectConfig, filePath: string = '.yaml'): string {
+  return /\.ya?ml$/i.test(filePath) ? stringifyYaml(config) : `${JSON.stringify(config, null, 2)}\n`;
+}
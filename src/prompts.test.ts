@@ -0,0 +1,66 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { loadPromptsDirectory, missingPromptVariables, promptSetForPack, renderPrompt, resolvePrompts, validatePromptTemplate } from './prompts.js';
+
+describe('prompt packs', () => {
+  it('fall back to the default pack for the templates they do not define', () => {
+    const prompts = promptSetForPack('finops-executive');
+
+    expect(prompts.templates.step.source).toBe('finops-executive');
+    expect(prompts.templates.findings.source).toBe('default');
+    expect(() => promptSetForPack('unknown')).toThrow(/Unknown prompt pack/);
+  });
+
+  it('render the findings prompt with the step and its analysis', () => {
+    const prompt = renderPrompt(undefined, 'findings', { service: 'AWS Lambda', region: 'us-east-1', analysis: '# Lambda analysis' });
+
+    expect(prompt).toContain('analysis of AWS Lambda in us-east-1');
+    expect(prompt).toContain('# Lambda analysis');
+  });
+});
+
+describe('template validation', () => {
+  it('rejects unknown variables', () => {
+    expect(validatePromptTemplate('chart', '{{toolName}} {{context}}')).toEqual([]);
+    expect(validatePromptTemplate('chart', '{{service}}')).toEqual([expect.stringContaining('Unknown variable {{service}}')]);
+  });
+
+  it('reports the required variables a template leaves out', () => {
+    expect(missingPromptVariables('step', 'Analyze {{service}} in {{region}}')).toEqual([expect.stringContaining('{{playbook}}')]);
+    expect(missingPromptVariables('step', 'Analyze {{service}} in {{region}}\n{{playbook}}')).toEqual([]);
+  });
+});
+
+describe('prompts directory', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'prompts-'));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(directory);
+  });
+
+  it('overrides templates with a content version and warns about left out variables', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    await fs.writeFile(path.join(directory, 'step.md'), 'Analyze {{service}} in {{region}}');
+
+    const prompts = await resolvePrompts({ directory });
+
+    expect(prompts.templates.step.version).toMatch(/^sha256:[0-9a-f]{12}$/);
+    expect(prompts.templates.planner.version).toBe(promptSetForPack().templates.planner.version);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('step.md: The step template does not use {{playbook}}'));
+  });
+
+  it('rejects unknown templates and variables', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    await fs.writeFile(path.join(directory, 'summary.md'), 'Summary');
+    await fs.writeFile(path.join(directory, 'chart.md'), '{{unknown}}');
+
+    await expect(loadPromptsDirectory(directory)).rejects.toThrow(/chart.md: Unknown variable \{\{unknown\}\}[\s\S]*Unknown template "summary.md"/);
+  });
+});
@@ -0,0 +1,464 @@
+import fs from 'fs-extra';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { PromptName, PromptPack, PromptSet, PromptVersions, ResolvedPrompt } from './types.js';
+
+export const DEFAULT_PROMPT_PACK = 'default';
+
+/** Extension of the template files in a prompts directory */
+export const PROMPT_FILE_EXTENSION = '.md';
+
+export interface PromptTemplateInfo {
+  description: string;
+  /** Variables available to the template as `{{name}}`, with their descriptions */
+  variables: Record<string, string>;
+  /** Variables an override should use, as their content is left out of the prompt otherwise */
+  required: string[];
+}
+
+/**
+ * The prompt templates and their variables
+ */
+export const PROMPT_TEMPLATES: Record<PromptName, PromptTemplateInfo> = {
+  'planner': {
+    description: 'Plans one analysis step per service-region combination',
+    variables: {
+      combos: 'Numbered list of the service-region combinations with their cost and cost change',
+      growthNote: 'Paragraph asking to explain cost growth when the combinations were ranked by growth, otherwise empty',
+      tools: 'List of the tools that may be used'
+    },
+    required: ['combos', 'tools']
+  },
+  'step': {
+    description: 'Analyzes one service-region combination with its tools',
+    variables: {
+      title: 'Title of the step',
+      service: 'AWS service name',
+      region: 'AWS region',
+      playbook: 'Checklist and tool param presets of the service playbook, empty for steps planned by the LLM'
+    },
+    required: ['service', 'region', 'playbook']
+  },
+  'chart': {
+    description: 'Describes a chart rendered from tool data',
+    variables: {
+      toolName: 'Name of the tool that produced the chart',
+      context: 'Summary of the tool result'
+    },
+    required: ['context']
+  },
+  'findings': {
+    description: 'Extracts the structured findings of a step from its markdown analysis',
+    variables: {
+      service: 'AWS service name',
+      region: 'AWS region',
+      analysis: 'The markdown analysis of the step'
+    },
+    required: ['analysis']
+  },
+  'report': {
+    description: 'Compiles the step analyses into report.md',
+    variables: {
+      executionId: 'Execution ID',
+      analysisCount: 'Number of analyses completed',
+      successfulCount: 'Number of successful analyses',
+      accounts: 'Per-account totals and the combined ranking of an organisation report, otherwise empty',
+      findingsNote: 'Note on the structured findings when any were extracted, otherwise empty',
+      analyses: 'The step reports with their structured findings',
+      recommendations: 'The rule-based recommendations with instructions on citing them, or empty',
+      instructions: 'The report-instructions or organisation-report-instructions template'
+    },
+    required: ['accounts', 'analyses', 'recommendations', 'instructions']
+  },
+  'report-instructions': {
+    description: 'Structure and audience of the report of a single account',
+    variables: {},
+    required: []
+  },
+  'organisation-report-instructions': {
+    description: 'Structure and audience of the organisation report of several accounts',
+    variables: {},
+    required: []
+  }
+};
+
+const DEFAULT_TEMPLATES: Record<PromptName, string> = {
+  'planner': `
+You are an AWS cost analysis expert. Given the following service-region combinations and available tools, create a plan for analyzing each service.
+
+Service-Region Combinations:
+{{combos}}
+{{growthNote}}
+Available Tools:
+{{tools}}
+
+Create a structured plan with analysis steps. Each step should:
+1. Focus on a specific service-region combination
+2. Select appropriate tools for that service
+3. Have a clear, descriptive title
+
+For each service-region combination, create an analysis step that uses the most relevant tools for that specific service.
+`,
+  'step': `
+Analyze the AWS service costs for the following step:
+- Title: {{title}}
+- Service: {{service}}
+- Region: {{region}}
+
+Please provide a comprehensive analysis using the available tools to gather data and insights about this service-region combination.
+
+Your response should include:
+1. A detailed analysis of this service's cost pattern
+2. Potential cost optimization recommendations
+3. Insights from the tool data gathered
+{{playbook}}
+Keep in mind that it doesn't make sense to group by a dimension while filtering by the same dimension - there will be only one group anyway.
+
+The response should be in MarkDown format. Don't use emoticons.
+
+The tools may return a path to a PNG or SVG image with the chart, along with a text description of the chart.
+Please embed the chart in your response if it is relevant and helpful, using the path exactly as returned.
+If a chart could not be rendered, the tool returns a data table instead. The table is appended to the report automatically, so refer to its numbers rather than repeating it.
+Example image embedding:
+<p align="center">
+  <img
+    src="./output/image_name.png" width="800"
+  />
+</p>.
+`,
+  'chart': `
+Analyze this chart generated by the {{toolName}} AWS tool and provide insights.
+
+Context: {{context}}
+
+Please provide a concise analysis focusing on:
+1. What the chart shows (data patterns, trends)
+2. Key insights about AWS costs or metrics
+3. Notable patterns or anomalies
+
+Keep the analysis concise but informative.
+`,
+  'findings': `
+Extract structured findings from the following AWS cost analysis of {{service}} in {{region}}.
+
+Only use figures that appear in the analysis. Leave out estimated savings that the analysis does not support.
+
+Analysis:
+{{analysis}}
+`,
+  'report': `
+You are tasked with creating a comprehensive AWS cost analysis report that summarizes and links to individual service analyses.
+
+Execution ID: {{executionId}}
+Number of analyses completed: {{analysisCount}}
+Successful analyses: {{successfulCount}}
+{{accounts}}{{findingsNote}}
+Individual Analysis Reports:
+{{analyses}}
+
+{{recommendations}}
+{{instructions}}
+`,
+  'report-instructions': `Please create a comprehensive executive summary report that synthesizes insights from all the full analysis reports above:
+
+1. **Executive Summary**: Provide a strategic overview analyzing patterns across all services
+2. **Cost Analysis**:
+   - Total cost breakdown across all services
+   - Cost trends and patterns identified
+   - Cost drivers and optimization opportunities
+3. **Key Findings**:
+   - Extract and synthesize the most critical insights from all analyses
+   - Identify cross-service patterns and correlations
+   - Highlight unexpected findings or anomalies
+4. **Strategic Recommendations**:
+   - Prioritized optimization recommendations across all services
+   - Cross-service optimization opportunities
+   - Risk mitigation strategies
+5. **Service Performance Summary**: Brief summary of each service's key metrics and status
+6. **Individual Service Links**: Include links to detailed individual reports
+
+Format the report in markdown and include relative links to individual reports like:
+- [Service Name Analysis](./service-region-analysis.md)
+
+Since you have access to the full content of all analyses, provide deep insights and actionable strategic recommendations that leverage the complete data set.
+Make sure to include charts in your response if they are relevant and helpful.
+
+The response should be in markdown format. Do not use emoticons.
+`,
+  'organisation-report-instructions': `Please create an organisation-level executive report that synthesizes insights across all accounts from the full analysis reports above:
+
+1. **Organisation Summary**: Strategic overview of spend and patterns across all accounts
+2. **Combined Ranking**: Include the combined ranking table above verbatim and comment on the largest cost drivers
+3. **Account Comparison**: Include the per-account totals table above and compare accounts, highlighting outliers
+4. **Per-Account Sections**: One "## Account: <name>" section per account with its key findings, recommendations and links to its individual reports
+5. **Cross-Account Findings**: Services or patterns that recur across accounts
+6. **Strategic Recommendations**: Prioritized recommendations across the organisation, noting which accounts each applies to
+
+Format the report in markdown and use the report file paths above as relative links, like:
+- [Service Name Analysis](./accounts/account-name/service-region-analysis.md)
+
+Only use cost figures that appear in the tables or analysis reports above.
+
+The response should be in markdown format. Do not use emoticons.`
+};
+
+/**
+ * Built-in prompt packs. Bump the version of a pack whenever one of its templates changes,
+ * so executions record which wording produced their reports.
+ */
+export const PROMPT_PACKS: PromptPack[] = [
+  {
+    name: DEFAULT_PROMPT_PACK,
+    version: '3',
+    description: 'Balanced analysis and an executive summary with strategic recommendations',
+    templates: DEFAULT_TEMPLATES
+  },
+  {
+    name: 'finops-executive',
+    version: '2',
+    description: 'Short, business-focused reports for finance and leadership: spend, drivers, savings and decisions',
+    templates: {
+      'step': `
+Analyze the AWS costs for the following step for a FinOps audience:
+- Title: {{title}}
+- Service: {{service}}
+- Region: {{region}}
+
+Use the available tools to establish the cost trend and what drives it. Your response should include:
+1. The spend and its trend over the analyzed period, in USD
+2. The main cost drivers, explained in plain language without AWS jargon
+3. Savings opportunities with an estimated monthly saving and the effort to realise them, including commitment discounts (Savings Plans, Reserved Instances) where usage is steady
+4. Risks to the budget, such as growth that is likely to continue
+{{playbook}}
+Only state figures that the tool data supports. Keep it brief: a reader should grasp the situation in a minute.
+
+The response should be in MarkDown format. Don't use emoticons.
+
+The tools may return a path to a PNG or SVG image with the chart, along with a text description of the chart.
+Embed at most one chart, the one that best shows the cost trend, using the path exactly as returned:
+<p align="center">
+  <img
+    src="./output/image_name.png" width="800"
+  />
+</p>
+If a chart could not be rendered, the tool returns a data table instead. The table is appended to the report automatically, so refer to its numbers rather than repeating it.
+`,
+      'report-instructions': `Please create a one-page FinOps report for finance and engineering leadership from the analysis reports above:
+
+1. **Headline**: Total analyzed spend, its change versus the previous period and the single most important takeaway, in three sentences at most
+2. **Cost Drivers**: A table of the top services with cost, change and a one-line plain-language explanation
+3. **Savings Opportunities**: A table ranked by estimated monthly savings, with effort and a suggested owner (e.g. platform team, data team)
+4. **Decisions Needed**: Commitments, budget changes or trade-offs that need a leadership decision
+5. **Details**: Relative links to the individual reports, like [Service Name Analysis](./service-region-analysis.md)
+
+Avoid implementation detail; the linked reports carry it. Only use figures that appear in the analysis reports or the rule-based recommendations above.
+
+The response should be in markdown format. Do not use emoticons.
+`,
+      'organisation-report-instructions': `Please create a one-page FinOps report across all accounts for finance and engineering leadership from the analysis reports above:
+
+1. **Headline**: Total analyzed spend across accounts and the single most important takeaway, in three sentences at most
+2. **Spend by Account**: Include the per-account totals table above and name the accounts that need attention
+3. **Top Cost Drivers**: Include the combined ranking table above and explain the top five entries in plain language
+4. **Savings Opportunities**: A table ranked by estimated monthly savings, with the account, effort and a suggested owner
+5. **Decisions Needed**: Commitments, budget changes or trade-offs that need a leadership decision
+6. **Details**: One "## Account: <name>" section per account with relative links to its individual reports, like [Service Name Analysis](./accounts/account-name/service-region-analysis.md)
+
+Avoid implementation detail. Only use cost figures that appear in the tables or analysis reports above.
+
+The response should be in markdown format. Do not use emoticons.`
+    }
+  },
+  {
+    name: 'engineering-deep-dive',
+    version: '2',
+    description: 'Detailed technical analysis of usage, utilisation and configuration, with concrete remediation steps',
+    templates: {
+      'planner': `
+You are an AWS cost engineer. Given the following service-region combinations and available tools, plan a technical investigation of each service.
+
+Service-Region Combinations:
+{{combos}}
+{{growthNote}}
+Available Tools:
+{{tools}}
+
+Create a structured plan with analysis steps. Each step should:
+1. Focus on a specific service-region combination
+2. Select the tools that break the cost down by usage type and operation, and the metrics that show utilisation of the resources behind it
+3. Have a title naming the suspected cost driver
+
+For each service-region combination, create an analysis step. Prefer more tools over fewer when they add utilisation or usage detail.
+`,
+      'step': `
+Investigate the AWS costs of the following step as a cost engineer:
+- Title: {{title}}
+- Service: {{service}}
+- Region: {{region}}
+
+Use the available tools to break the cost down by usage type and operation, and to measure the utilisation of the resources behind it.
+
+Your response should include:
+1. A breakdown of the cost by usage type and operation, as a table
+2. Utilisation metrics and what they say about sizing, idle resources and traffic patterns
+3. The technical root cause of the largest cost components and of any change over time
+4. Remediation steps, each with the configuration change to make (AWS CLI, console setting or infrastructure-as-code), the expected saving and how to verify it
+{{playbook}}
+Keep in mind that it doesn't make sense to group by a dimension while filtering by the same dimension - there will be only one group anyway.
+State which numbers come from which tool, and call out where the data is not conclusive.
+
+The response should be in MarkDown format. Don't use emoticons.
+
+The tools may return a path to a PNG or SVG image with the chart, along with a text description of the chart.
+Please embed the charts that support your findings, using the path exactly as returned:
+<p align="center">
+  <img
+    src="./output/image_name.png" width="800"
+  />
+</p>
+If a chart could not be rendered, the tool returns a data table instead. The table is appended to the report automatically, so refer to its numbers rather than repeating it.
+`,
+      'chart': `
+Analyze this chart generated by the {{toolName}} AWS tool for a cost engineer.
+
+Context: {{context}}
+
+Describe:
+1. The series shown, their ranges and units
+2. Trends, step changes and periodic patterns, with the dates they occur
+3. Spikes or idle periods that point to misconfiguration or waste
+
+Be precise and quote values read from the chart.
+`,
+      'report-instructions': `Please create a technical cost report for the engineering teams from the analysis reports above:
+
+1. **Summary**: The largest cost components and the technical causes behind them
+2. **Findings by Service**: For each service, the usage types driving cost, utilisation, and the root cause of changes
+3. **Remediation Backlog**: A table of remediation steps ordered by estimated monthly savings, with effort, the change to make and how to verify it
+4. **Cross-Service Patterns**: Shared causes, such as data transfer between services or over-provisioning practices
+5. **Open Questions**: Where the data was not conclusive and what to measure next
+6. **Individual Service Links**: Relative links to the individual reports, like [Service Name Analysis](./service-region-analysis.md)
+
+Include charts in your response if they support a finding. Only use figures that appear in the analysis reports or the rule-based recommendations above.
+
+The response should be in markdown format. Do not use emoticons.
+`
+    }
+  }
+];
+
+/**
+ * Find a built-in prompt pack by name
+ */
+export function getPromptPack(name: string): PromptPack {
+  const pack = PROMPT_PACKS.find(candidate => candidate.name === name);
+  if (!pack) {
+    throw new Error(`Unknown prompt pack: ${name}. Available packs: ${PROMPT_PACKS.map(candidate => candidate.name).join(', ')}`);
+  }
+  return pack;
+}
+
+/**
+ * The prompt templates of a built-in pack, with the default pack's templates where it has none
+ */
+export function promptSetForPack(name: string = DEFAULT_PROMPT_PACK): PromptSet {
+  const pack = getPromptPack(name);
+  const defaults = getPromptPack(DEFAULT_PROMPT_PACK);
+  const templates = {} as Record<PromptName, ResolvedPrompt>;
+  for (const promptName of Object.keys(PROMPT_TEMPLATES) as PromptName[]) {
+    const from = pack.templates[promptName] !== undefined ? pack : defaults;
+    templates[promptName] = { text: from.templates[promptName] || '', version: `${from.name}@${from.version}`, source: from.name };
+  }
+  return { pack: pack.name, packVersion: pack.version, templates };
+}
+
+/**
+ * Validate the variables used by a template. Returns a list of problems, empty when valid.
+ */
+export function validatePromptTemplate(name: PromptName, text: string): string[] {
+  const known = Object.keys(PROMPT_TEMPLATES[name].variables);
+  const used = [...text.matchAll(/\{\{\s*(\w+)\s*\}\}/g)].map(match => match[1]);
+  return [...new Set(used)]
+    .filter(variable => !known.includes(variable))
+    .map(variable => `Unknown variable {{${variable}}} in the ${name} template${known.length > 0 ? `, available: ${known.join(', ')}` : ', which has no variables'}`);
+}
+
+/**
+ * Find the required variables a template leaves out. Returns a warning per variable.
+ */
+export function missingPromptVariables(name: PromptName, text: string): string[] {
+  const used = new Set([...text.matchAll(/\{\{\s*(\w+)\s*\}\}/g)].map(match => match[1]));
+  return PROMPT_TEMPLATES[name].required
+    .filter(variable => !used.has(variable))
+    .map(variable => `The ${name} template does not use {{${variable}}}, so the prompt leaves out: ${PROMPT_TEMPLATES[name].variables[variable]}`);
+}
+
+/**
+ * Read template overrides from a directory of `<template name>.md` files. Unknown templates and
+ * variables are errors; required variables an override leaves out are reported as warnings.
+ */
+export async function loadPromptsDirectory(directory: string): Promise<Partial<Record<PromptName, ResolvedPrompt>>> {
+  const fullPath = path.resolve(directory);
+  if (!await fs.pathExists(fullPath)) {
+    throw new Error(`Prompts directory not found: ${fullPath}`);
+  }
+
+  const templates: Partial<Record<PromptName, ResolvedPrompt>> = {};
+  const errors: string[] = [];
+  const files = (await fs.readdir(fullPath)).filter(file => file.endsWith(PROMPT_FILE_EXTENSION)).sort();
+  for (const file of files) {
+    const name = path.basename(file, PROMPT_FILE_EXTENSION);
+    if (!(name in PROMPT_TEMPLATES)) {
+      errors.push(`Unknown template "${file}", expected one of: ${Object.keys(PROMPT_TEMPLATES).map(known => `${known}${PROMPT_FILE_EXTENSION}`).join(', ')}`);
+      continue;
+    }
+    const filePath = path.join(fullPath, file);
+    const text = await fs.readFile(filePath, 'utf8');
+    errors.push(...validatePromptTemplate(name as PromptName, text).map(error => `${file}: ${error}`));
+    missingPromptVariables(name as PromptName, text).forEach(warning => console.warn(`⚠️  ${file}: ${warning}`));
+    templates[name as PromptName] = {
+      text,
+      version: `sha256:${createHash('sha256').update(text).digest('hex').substring(0, 12)}`,
+      source: filePath
+    };
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid prompts directory ${fullPath}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+  return templates;
+}
+
+/**
+ * Resolve the prompts of a run: a built-in pack, with the templates of a prompts directory taking precedence
+ */
+export async function resolvePrompts(options: { pack?: string; directory?: string } = {}): Promise<PromptSet> {
+  const prompts = promptSetForPack(options.pack);
+  if (!options.directory) {
+    return prompts;
+  }
+  return {
+    ...prompts,
+    directory: path.resolve(options.directory),
+    templates: { ...prompts.templates, ...await loadPromptsDirectory(options.directory) }
+  };
+}
+
+/**
+ * Render a prompt template, replacing `{{variable}}` placeholders. Without a prompt set the default pack is used.
+ */
+export function renderPrompt(prompts: PromptSet | undefined, name: PromptName, variables: Record<string, string | number> = {}): string {
+  const template = (prompts || promptSetForPack()).templates[name];
+  return template.text.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, variable) => String(variables[variable] ?? ''));
+}
+
+/**
+ * The versions of the templates of a prompt set, for the execution manifest
+ */
+export function promptVersions(prompts: PromptSet): PromptVersions {
+  const templates = {} as Record<PromptName, string>;
+  for (const [name, template] of Object.entries(prompts.templates) as [PromptName, ResolvedPrompt][]) {
+    templates[name] = template.version;
+  }
+  return { pack: prompts.pack, packVersion: prompts.packVersion, templates };
+}
@@ -0,0 +1,18 @@
+import { describe, it, expect } from '@jest/globals';
+import { createProviderModel, listProviders, resolveModelConfig } from './providers.js';
+import type { LLMProviderName } from './types.js';
+
+describe('LLM providers', () => {
+  it('resolve the configured provider', () => {
+    expect(resolveModelConfig({ provider: 'mock', scriptPath: 'script.json' })).toMatchObject({ provider: 'mock', scriptPath: 'script.json' });
+    expect(listProviders()).toEqual(['bedrock', 'openai-compatible', 'mock']);
+  });
+
+  it('reject names that are not providers, including object prototype keys', () => {
+    for (const name of ['anthropic', 'constructor', 'toString', '__proto__']) {
+      const provider = name as LLMProviderName;
+      expect(() => resolveModelConfig({ provider })).toThrow(`Unknown LLM provider: ${provider}`);
+      expect(() => createProviderModel({ provider })).toThrow(`Unknown LLM provider: ${provider}`);
+    }
+  });
+});
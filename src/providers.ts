@@ -0,0 +1,163 @@
+import { createAmazonBedrock } from '@ai-sdk/amazon-bedrock';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import { fromIni, fromNodeProviderChain } from '@aws-sdk/credential-providers';
+import { LanguageModelV1 } from 'ai';
+import fs from 'fs-extra';
+import * as path from 'path';
+import { LLMProviderName, ModelConfig, MockScriptEntry } from './types.js';
+
+const DEFAULT_BEDROCK_MODEL_ID = 'us.anthropic.claude-sonnet-4-20250514-v1:0';
+const DEFAULT_BEDROCK_REGION = 'us-east-1';
+
+export const DEFAULT_MODEL_CONFIG: ModelConfig = {
+  provider: 'bedrock',
+  modelId: DEFAULT_BEDROCK_MODEL_ID,
+  region: DEFAULT_BEDROCK_REGION
+};
+
+type ProviderFactory = (config: ModelConfig) => LanguageModelV1;
+
+const providers: Record<LLMProviderName, ProviderFactory> = {
+  'bedrock': createBedrockModel,
+  'openai-compatible': createOpenAICompatibleModel,
+  'mock': createMockModel
+};
+
+/**
+ * List the names of all supported LLM providers
+ */
+export function listProviders(): LLMProviderName[] {
+  return Object.keys(providers) as LLMProviderName[];
+}
+
+/**
+ * Resolve the model configuration from defaults, environment variables and explicit overrides
+ */
+export function resolveModelConfig(overrides: Partial<ModelConfig> = {}): ModelConfig {
+  const fromEnv: Partial<ModelConfig> = {
+    provider: process.env.LLM_PROVIDER as LLMProviderName | undefined,
+    modelId: process.env.LLM_MODEL_ID,
+    region: process.env.LLM_REGION,
+    baseURL: process.env.LLM_BASE_URL,
+    apiKey: process.env.LLM_API_KEY,
+    scriptPath: process.env.LLM_MOCK_SCRIPT
+  };
+
+  const provider = overrides.provider || fromEnv.provider || DEFAULT_MODEL_CONFIG.provider;
+  if (!Object.hasOwn(providers, provider)) {
+    throw new Error(`Unknown LLM provider: ${provider}. Supported providers: ${listProviders().join(', ')}`);
+  }
+
+  // Bedrock defaults only apply when Bedrock is the selected provider
+  const defaults: Partial<ModelConfig> = provider === 'bedrock' ? DEFAULT_MODEL_CONFIG : {};
+
+  return {
+    provider,
+    modelId: overrides.modelId || fromEnv.modelId || defaults.modelId,
+    region: overrides.region || fromEnv.region || defaults.region,
+    baseURL: overrides.baseURL || fromEnv.baseURL,
+    apiKey: overrides.apiKey || fromEnv.apiKey,
+    scriptPath: overrides.scriptPath || fromEnv.scriptPath,
+    profile: overrides.profile
+  };
+}
+
+/**
+ * Create a language model for the given provider configuration
+ */
+export function createProviderModel(config: ModelConfig): LanguageModelV1 {
+  const factory = Object.hasOwn(providers, config.provider) ? providers[config.provider] : undefined;
+  if (!factory) {
+    throw new Error(`Unknown LLM provider: ${config.provider}. Supported providers: ${listProviders().join(', ')}`);
+  }
+  return factory(config);
+}
+
+/**
+ * Amazon Bedrock, in any region and with any model ID, authenticated through the
+ * named profile or the standard AWS provider chain
+ */
+function createBedrockModel(config: ModelConfig): LanguageModelV1 {
+  const bedrock = createAmazonBedrock({
+    region: config.region || DEFAULT_BEDROCK_REGION,
+    credentialProvider: config.profile ? fromIni({ profile: config.profile }) : fromNodeProviderChain()
+  });
+  return bedrock(config.modelId || DEFAULT_BEDROCK_MODEL_ID);
+}
+
+/**
+ * OpenAI-compatible chat completion endpoints such as Ollama, vLLM or LM Studio
+ */
+function createOpenAICompatibleModel(config: ModelConfig): LanguageModelV1 {
+  if (!config.baseURL) {
+    throw new Error('The openai-compatible provider requires a base URL (--base-url or LLM_BASE_URL)');
+  }
+  if (!config.modelId) {
+    throw new Error('The openai-compatible provider requires a model ID (--model or LLM_MODEL_ID)');
+  }
+
+  const provider = createOpenAICompatible({
+    name: 'openai-compatible',
+    baseURL: config.baseURL,
+    apiKey: config.apiKey
+  });
+  return provider.chatModel(config.modelId);
+}
+
+/**
+ * Scripted model that replays responses from a JSON file, for offline runs and tests.
+ * The script is an array (or `{ "responses": [...] }`) of strings or
+ * `{ "text": "...", "toolCalls": [{ "toolName": "...", "args": {...} }] }` entries,
+ * served in order. Once the script is exhausted the text of the last entry is repeated.
+ */
+function createMockModel(config: ModelConfig): LanguageModelV1 {
+  if (!config.scriptPath) {
+    throw new Error('The mock provider requires a script file (--mock-script or LLM_MOCK_SCRIPT)');
+  }
+
+  const scriptPath = path.resolve(config.scriptPath);
+  if (!fs.pathExistsSync(scriptPath)) {
+    throw new Error(`Mock script not found: ${scriptPath}`);
+  }
+
+  const script = fs.readJsonSync(scriptPath);
+  const entries: MockScriptEntry[] = (Array.isArray(script) ? script : script.responses || [])
+    .map((entry: string | MockScriptEntry) => typeof entry === 'string' ? { text: entry } : entry);
+
+  if (entries.length === 0) {
+    throw new Error(`Mock script contains no responses: ${scriptPath}`);
+  }
+
+  let callIndex = 0;
+
+  return {
+    specificationVersion: 'v1',
+    provider: 'mock',
+    modelId: config.modelId || 'scripted',
+    defaultObjectGenerationMode: 'json',
+    async doGenerate(options) {
+      const entry = callIndex < entries.length
+        ? entries[callIndex]
+        : { text: entries[entries.length - 1].text };
+      callIndex++;
+
+      const toolCalls = (entry.toolCalls || []).map((toolCall, index) => ({
+        toolCallType: 'function' as const,
+        toolCallId: `mock-call-${callIndex}-${index}`,
+        toolName: toolCall.toolName,
+        args: JSON.stringify(toolCall.args || {})
+      }));
+
+      return {
+        text: entry.text,
+        toolCalls,
+        finishReason: toolCalls.length > 0 ? 'tool-calls' : 'stop',
+        usage: { promptTokens: 0, completionTokens: 0 },
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} }
+      };
+    },
+    async doStream() {
+      throw new Error('Streaming is not supported by the mock provider');
+    }
+  };
+}
@@ -1,6 +1,11 @@
 import fs from 'fs-extra';
 import * as path from 'path';
-import { AnalysisResult } from './types.js';
+import { AnalysisResult, StepFindings } from './types.js';
+
+/**
+ * Subdirectory of a multi-account execution that holds one directory per account
+ */
+export const ACCOUNTS_DIR = 'accounts';
 
 /**
  * Utility function to generate standardized paths for analysis outputs
@@ -12,11 +17,52 @@ export function generateAnalysisPaths(baseOutputPath: string, executionId: strin
   return {
     reportDir,
     reportPath,
+    findingsPath: findingsPathFor(reportPath),
     executionId,
     serviceRegion
   };
 }
 
+/**
+ * Path of the findings JSON saved next to a step's `-analysis.md` report
+ */
+export function findingsPathFor(reportPath: string): string {
+  return reportPath.replace(/-analysis\.md$/, '-findings.json');
+}
+
+/**
+ * Write the typed findings of a step next to its markdown report
+ */
+export async function writeStepFindings(
+  findings: StepFindings,
+  baseOutputPath: string,
+  executionId: string,
+  serviceRegion: string
+): Promise<string> {
+  const paths = generateAnalysisPaths(baseOutputPath, executionId, serviceRegion);
+  await fs.ensureDir(paths.reportDir);
+  await fs.writeJson(paths.findingsPath, findings, { spaces: 2 });
+
+  console.log(`Step findings saved: ${paths.findingsPath}`);
+  return paths.findingsPath;
+}
+
+/**
+ * Read the findings saved next to a step report, if any
+ */
+export async function readStepFindings(reportPath: string): Promise<StepFindings | undefined> {
+  const findingsPath = findingsPathFor(reportPath);
+  if (!await fs.pathExists(findingsPath)) {
+    return undefined;
+  }
+  try {
+    return await fs.readJson(findingsPath);
+  } catch (error) {
+    console.warn(`⚠️  Could not read findings ${findingsPath}: ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
+}
+
 /**
  * Generate a step report with relative image paths
  */
@@ -31,7 +77,7 @@ export async function generateStepReport(
   // Ensure the directory exists
   await fs.ensureDir(paths.reportDir);
 
-  const regex = /\".*\/([^\/]+\/[^\/]+\/[^\/]+\.png)\"/gm;
+  const regex = /\".*\/([^\/]+\/[^\/]+\/[^\/]+\.(?:png|svg))\"/gm;
   const contentWithRelativeUrls = analysisContent.replace(regex, '"./$1"');
 
   // Write the report to file
@@ -0,0 +1,46 @@
+import { jest, describe, it, expect } from '@jest/globals';
+import { isThrottlingError, withRetry } from './retry.js';
+
+function awsError(name: string, message: string = name): Error {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+describe('isThrottlingError', () => {
+  it('recognises throttling by name, status and message, also when wrapped', () => {
+    expect(isThrottlingError(awsError('ThrottlingException'))).toBe(true);
+    expect(isThrottlingError({ statusCode: 429 })).toBe(true);
+    expect(isThrottlingError(new Error('Rate exceeded'))).toBe(true);
+    expect(isThrottlingError({ name: 'AI_RetryError', lastError: awsError('TooManyRequestsException') })).toBe(true);
+  });
+
+  it('does not treat quota errors as throttling', () => {
+    expect(isThrottlingError(awsError('ServiceQuotaExceededException', 'Quota of 5 reached'))).toBe(false);
+    expect(isThrottlingError(awsError('LimitExceededException', 'Limit of 10 reports reached'))).toBe(false);
+  });
+});
+
+describe('withRetry', () => {
+  const options = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 1 };
+
+  it('retries throttled operations up to the maximum attempts', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const operation = jest.fn(async () => {
+      throw awsError('ThrottlingException');
+    });
+
+    await expect(withRetry(operation, 'test', options)).rejects.toThrow('ThrottlingException');
+    expect(operation).toHaveBeenCalledTimes(3);
+    jest.restoreAllMocks();
+  });
+
+  it('fails at once on quota errors', async () => {
+    const operation = jest.fn(async () => {
+      throw awsError('ServiceQuotaExceededException');
+    });
+
+    await expect(withRetry(operation, 'test', options)).rejects.toThrow('ServiceQuotaExceededException');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
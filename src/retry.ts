@@ -0,0 +1,100 @@
+import { LanguageModelV1Middleware } from 'ai';
+import { RetryOptions } from './types.js';
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 6,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+/** The AI SDK's own retries, turned off as every model is wrapped in retryMiddleware */
+export const SDK_MAX_RETRIES = 0;
+
+// Quota errors such as ServiceQuotaExceededException or LimitExceededException are not
+// transient, so they fail at once instead of after the backoff
+const THROTTLING_ERROR_NAMES = [
+  'ThrottlingException',
+  'Throttling',
+  'TooManyRequestsException',
+  'RequestLimitExceeded',
+  'ProvisionedThroughputExceededException'
+];
+
+const THROTTLING_MESSAGE = /throttl|rate exceeded|too many requests|slow down/i;
+
+/** Fields of AWS SDK, AI SDK and HTTP errors that mark throttling */
+interface ThrottlingErrorFields {
+  statusCode?: number;
+  $metadata?: { httpStatusCode?: number };
+  $retryable?: { throttling?: boolean };
+  name?: string;
+  code?: string;
+  message?: unknown;
+  lastError?: unknown;
+  cause?: unknown;
+}
+
+/**
+ * Check whether an error, or an error it wraps, is a throttling or rate limit error
+ * from AWS or an LLM provider
+ */
+export function isThrottlingError(error: unknown): boolean {
+  for (let current = error as ThrottlingErrorFields | undefined, depth = 0; current && depth < 5; depth++) {
+    const status = current.statusCode ?? current.$metadata?.httpStatusCode;
+    if (
+      status === 429 ||
+      current.$retryable?.throttling ||
+      THROTTLING_ERROR_NAMES.includes(String(current.name)) ||
+      THROTTLING_ERROR_NAMES.includes(String(current.code)) ||
+      THROTTLING_MESSAGE.test(String(current.message ?? ''))
+    ) {
+      return true;
+    }
+    // The AI SDK wraps exhausted retries in RetryError.lastError; other errors use cause
+    current = (current.lastError ?? current.cause) as ThrottlingErrorFields | undefined;
+  }
+  return false;
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay up to base * 2^(attempt - 1), capped
+ */
+export function backoffDelay(attempt: number, options: RetryOptions = DEFAULT_RETRY_OPTIONS): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Run an operation, retrying throttling errors with exponential backoff and jitter
+ */
+export async function withRetry<T>(
+  operation: () => PromiseLike<T>,
+  label: string,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= options.maxAttempts || !isThrottlingError(error)) {
+        throw error;
+      }
+      const delay = backoffDelay(attempt, options);
+      console.warn(`⏳ ${label} throttled, retrying in ${(delay / 1000).toFixed(1)}s (attempt ${attempt + 1}/${options.maxAttempts})`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Language model middleware retrying throttled generate calls. Applies to every
+ * generateText and generateObject call made with the wrapped model, including each
+ * step of a multi-step tool call loop, so tool calls already made are not repeated.
+ * Calls pass `maxRetries: SDK_MAX_RETRIES` so the AI SDK does not retry on top of it.
+ */
+export function retryMiddleware(options: RetryOptions = DEFAULT_RETRY_OPTIONS): LanguageModelV1Middleware {
+  return {
+    middlewareVersion: 'v1',
+    wrapGenerate: ({ doGenerate, model }) => withRetry(doGenerate, `${model.provider} ${model.modelId}`, options)
+  };
+}
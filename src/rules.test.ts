@@ -0,0 +1,126 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { BUILTIN_RULES, evaluateRules, loadRules, monthlyCost } from './rules.js';
+import type { RecommendationRule, ServiceRegionCombo } from './types.js';
+
+const natCombo: ServiceRegionCombo = { service: 'EC2 - Other', region: 'us-east-1', cost: 1000, currency: 'USD', period: '2026-09-01 to 2026-10-01' };
+
+describe('monthlyCost', () => {
+  it('normalises the cost of a window to a month', () => {
+    expect(monthlyCost(natCombo)).toBeCloseTo(1013.33, 2);
+    expect(monthlyCost({ ...natCombo, period: '2026-09-01' })).toBe(1000);
+  });
+});
+
+describe('evaluateRules', () => {
+  let executionPath: string;
+
+  beforeEach(async () => {
+    executionPath = await fs.mkdtemp(path.join(os.tmpdir(), 'rules-'));
+    const directory = path.join(executionPath, 'EC2_-_Other-us-east-1', 'awsGetCostAndUsage');
+    await fs.ensureDir(directory);
+    await fs.writeJson(path.join(directory, 'usage-data.json'), [
+      { timestamp: '2026-09-01', dimensions: { 'USE1-NatGateway-Bytes': 450, 'USE1-NatGateway-Hours': 50 } },
+      { timestamp: '2026-09-02', dimensions: { 'USE1-NatGateway-Bytes': 450, 'USE1-NatGateway-Hours': 50 } }
+    ]);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(executionPath);
+  });
+
+  it('recommends gateway endpoints when NAT data processing dominates', async () => {
+    const report = await evaluateRules(executionPath, [natCombo], BUILTIN_RULES);
+
+    expect(report.recommendations).toEqual([expect.objectContaining({
+      ruleId: 'nat-gateway-data-processing',
+      service: 'EC2 - Other',
+      severity: 'medium',
+      datapoints: [path.join('EC2_-_Other-us-east-1', 'awsGetCostAndUsage', 'usage-data.json')]
+    })]);
+    expect(report.recommendations[0].estimatedMonthlySavings).toBeCloseTo(monthlyCost(natCombo) * 0.9 * 0.5, 2);
+    expect(report.totalEstimatedMonthlySavings).toBe(report.recommendations[0].estimatedMonthlySavings);
+  });
+
+  it('skips rules of other services and rules that fail', async () => {
+    const failing: RecommendationRule = {
+      id: 'failing',
+      title: 'Failing rule',
+      description: 'Throws',
+      evaluate: () => {
+        throw new Error('no data');
+      }
+    };
+    const otherService: RecommendationRule = {
+      id: 'lambda-only',
+      title: 'Lambda rule',
+      description: 'Only Lambda',
+      services: ['AWS Lambda'],
+      evaluate: () => ({ summary: 'Lambda', estimatedMonthlySavings: 10 })
+    };
+
+    const report = await evaluateRules(executionPath, [natCombo], [failing, otherService]);
+
+    expect(report).toMatchObject({ rules: ['failing', 'lambda-only'], totalEstimatedMonthlySavings: 0, recommendations: [] });
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Rule failing failed for EC2 - Other (us-east-1)'));
+  });
+
+  it('grades findings by their savings unless they set a severity', async () => {
+    const rule: RecommendationRule = {
+      id: 'savings',
+      title: 'Savings',
+      description: 'Fixed savings',
+      evaluate: () => [
+        { summary: 'Large', estimatedMonthlySavings: 1500 },
+        { summary: 'Negative', estimatedMonthlySavings: -20 },
+        { summary: 'Flagged', estimatedMonthlySavings: 5, severity: 'high' }
+      ]
+    };
+
+    const report = await evaluateRules(executionPath, [natCombo], [rule]);
+
+    expect(report.recommendations.map(({ summary, severity, estimatedMonthlySavings }) => ({ summary, severity, estimatedMonthlySavings }))).toEqual([
+      { summary: 'Large', severity: 'high', estimatedMonthlySavings: 1500 },
+      { summary: 'Flagged', severity: 'high', estimatedMonthlySavings: 5 },
+      { summary: 'Negative', severity: 'low', estimatedMonthlySavings: 0 }
+    ]);
+  });
+});
+
+describe('loadRules', () => {
+  let rulesDir: string;
+
+  beforeEach(async () => {
+    rulesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'custom-rules-'));
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(rulesDir);
+  });
+
+  it('adds custom rules and replaces built-in rules with the same ID', async () => {
+    await fs.writeFile(path.join(rulesDir, 'custom.mjs'), `export default [
+  { id: 'custom', title: 'Custom', description: 'Custom rule', evaluate: () => undefined },
+  { id: 's3-storage-class-mix', title: 'Replaced', description: 'Replaced rule', evaluate: () => undefined }
+];
+`);
+
+    const rules = await loadRules(rulesDir);
+
+    expect(rules.map(rule => rule.id)).toEqual([...BUILTIN_RULES.map(rule => rule.id), 'custom']);
+    expect(rules.find(rule => rule.id === 's3-storage-class-mix')?.title).toBe('Replaced');
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Rule s3-storage-class-mix from custom.mjs replaces an existing rule'));
+  });
+
+  it('rejects modules that do not export rules', async () => {
+    await fs.writeFile(path.join(rulesDir, 'broken.mjs'), 'export const rules = { id: "broken" };\n');
+
+    await expect(loadRules(rulesDir)).rejects.toThrow('Invalid rule exported from broken.mjs');
+  });
+});
@@ -0,0 +1,388 @@
+import fs from 'fs-extra';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import {
+  RecommendationRule, RuleContext, RuleDatapoints, RuleFinding, Recommendation, RecommendationReport,
+  RecommendationSeverity, ServiceRegionCombo, TimeSeries
+} from './types.js';
+import { findDataFiles, extractTimeSeries } from './anomalies.js';
+
+export const RECOMMENDATIONS_FILE = 'recommendations.json';
+
+const DAYS_PER_MONTH = 30.4;
+
+/**
+ * Sum all points of the series whose name matches the pattern
+ */
+export function seriesTotal(datapoints: RuleDatapoints[], pattern: RegExp): number {
+  return datapoints
+    .flatMap(d => d.series)
+    .filter(series => pattern.test(series.name))
+    .reduce((sum, series) => sum + series.points.reduce((total, point) => total + point.value, 0), 0);
+}
+
+/**
+ * Sum the series whose name matches the pattern per timestamp, in time order
+ */
+export function combinedSeries(datapoints: RuleDatapoints[], pattern: RegExp): TimeSeries['points'] {
+  const totals = new Map<string, number>();
+  datapoints
+    .flatMap(d => d.series)
+    .filter(series => pattern.test(series.name))
+    .forEach(series => series.points.forEach(point => totals.set(point.time, (totals.get(point.time) || 0) + point.value)));
+
+  return [...totals.entries()]
+    .map(([time, value]) => ({ time, value }))
+    .sort((a, b) => a.time.localeCompare(b.time, undefined, { numeric: true }));
+}
+
+/**
+ * Normalise a combo's cost over its window to a monthly figure
+ */
+export function monthlyCost(combo: ServiceRegionCombo): number {
+  const match = combo.period.match(/^(\d{4}-\d{2}-\d{2}) to (\d{4}-\d{2}-\d{2})$/);
+  if (!match) {
+    return combo.cost;
+  }
+  const days = (Date.parse(match[2]) - Date.parse(match[1])) / 86400000;
+  return days > 0 ? combo.cost / days * DAYS_PER_MONTH : combo.cost;
+}
+
+function formatUSD(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+function formatShare(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * Share of the combo's datapoint totals taken by the series matching the pattern
+ */
+function shareOfTotal(datapoints: RuleDatapoints[], pattern: RegExp): number {
+  const total = seriesTotal(datapoints, /.*/);
+  return total > 0 ? seriesTotal(datapoints, pattern) / total : 0;
+}
+
+/**
+ * Built-in rules. They read cost-by-usage-type (or purchase option) series from the
+ * tool datapoints of the combo and only fire when the relevant series are present.
+ */
+export const BUILTIN_RULES: RecommendationRule[] = [
+  {
+    id: 'nat-gateway-data-processing',
+    title: 'Route S3 and DynamoDB traffic through gateway endpoints',
+    description: 'NAT gateway data processing dominates NAT cost; gateway VPC endpoints for S3 and DynamoDB carry that traffic at no charge.',
+    services: ['EC2 - Other', 'Amazon Virtual Private Cloud'],
+    evaluate: ({ datapoints, monthlyCost: cost }) => {
+      const processing = seriesTotal(datapoints, /NatGateway-Bytes/i);
+      const hours = seriesTotal(datapoints, /NatGateway-Hours/i);
+      if (processing + hours === 0) {
+        return undefined;
+      }
+
+      const processingShare = processing / (processing + hours);
+      const processingCost = cost * shareOfTotal(datapoints, /NatGateway-Bytes/i);
+      if (processingShare < 0.5 || processingCost < 50) {
+        return undefined;
+      }
+
+      return {
+        summary: `NAT gateway data processing is ${formatShare(processingShare)} of NAT gateway cost (about ${formatUSD(processingCost)} per month). Add gateway endpoints for S3 and DynamoDB and check which other destinations could use interface endpoints.`,
+        // Assumes half of the processed traffic goes to S3 or DynamoDB
+        estimatedMonthlySavings: processingCost * 0.5,
+        evidence: [
+          `NatGateway-Bytes total: ${processing.toFixed(2)}`,
+          `NatGateway-Hours total: ${hours.toFixed(2)}`,
+          'Assumes 50% of processed bytes are S3/DynamoDB traffic'
+        ]
+      };
+    }
+  },
+  {
+    id: 's3-storage-class-mix',
+    title: 'Move infrequently accessed S3 data out of Standard',
+    description: 'Most S3 storage cost is in the Standard class; Intelligent-Tiering or lifecycle rules move cold objects to cheaper classes.',
+    services: ['Amazon Simple Storage Service'],
+    evaluate: ({ datapoints, monthlyCost: cost }) => {
+      const storage = seriesTotal(datapoints, /TimedStorage/i);
+      const standard = seriesTotal(datapoints, /TimedStorage-ByteHrs$/i);
+      if (storage === 0) {
+        return undefined;
+      }
+
+      const standardShare = standard / storage;
+      const standardCost = cost * shareOfTotal(datapoints, /TimedStorage-ByteHrs$/i);
+      if (standardShare < 0.8 || standardCost < 50) {
+        return undefined;
+      }
+
+      return {
+        summary: `S3 Standard is ${formatShare(standardShare)} of storage (about ${formatUSD(standardCost)} per month). Enable Intelligent-Tiering or lifecycle transitions for data that is rarely read.`,
+        // Assumes 40% of Standard data is infrequently accessed and IA pricing is about 45% lower
+        estimatedMonthlySavings: standardCost * 0.4 * 0.45,
+        evidence: [
+          `Standard storage share: ${formatShare(standardShare)}`,
+          'Assumes 40% of Standard data is cold and moves to a class about 45% cheaper'
+        ]
+      };
+    }
+  },
+  {
+    id: 'lambda-gb-second-trend',
+    title: 'Right-size growing Lambda compute and move to arm64',
+    description: 'Lambda GB-seconds are growing; tuning memory and switching x86 functions to arm64 lowers the price per GB-second by about 20%.',
+    services: ['AWS Lambda'],
+    evaluate: ({ datapoints, monthlyCost: cost }) => {
+      const points = combinedSeries(datapoints, /GB-Second/i);
+      if (points.length < 6) {
+        return undefined;
+      }
+
+      const third = Math.floor(points.length / 3);
+      const average = (values: { value: number }[]) => values.reduce((sum, p) => sum + p.value, 0) / values.length;
+      const early = average(points.slice(0, third));
+      const late = average(points.slice(-third));
+      const growth = early > 0 ? (late - early) / early : 0;
+      const x86Cost = cost * shareOfTotal(datapoints, /GB-Second(?!-ARM)/i);
+      if (growth < 0.25 || x86Cost < 20) {
+        return undefined;
+      }
+
+      return {
+        summary: `Lambda GB-seconds grew ${formatShare(growth)} over the window. Review memory settings with Lambda Power Tuning and move x86 functions (about ${formatUSD(x86Cost)} per month) to arm64.`,
+        estimatedMonthlySavings: x86Cost * 0.2,
+        evidence: [
+          `Average GB-seconds, first third: ${early.toFixed(2)}`,
+          `Average GB-seconds, last third: ${late.toFixed(2)}`,
+          'arm64 is priced about 20% lower per GB-second than x86'
+        ]
+      };
+    }
+  },
+  {
+    id: 'on-demand-commitment-share',
+    title: 'Cover steady on-demand usage with Savings Plans or reservations',
+    description: 'Most compute spend is on-demand; a commitment for the steady baseline typically saves around 28%.',
+    services: [
+      'Amazon Elastic Compute Cloud - Compute',
+      'Amazon Relational Database Service',
+      'Amazon ElastiCache',
+      'Amazon OpenSearch Service',
+      'Amazon Redshift'
+    ],
+    evaluate: ({ datapoints, monthlyCost: cost }) => {
+      const onDemandPattern = /On ?Demand|BoxUsage|InstanceUsage|NodeUsage/i;
+      const committedPattern = /Savings ?Plan|Reserved|HeavyUsage/i;
+      const onDemand = seriesTotal(datapoints, onDemandPattern);
+      const committed = seriesTotal(datapoints, committedPattern);
+      if (onDemand + committed === 0) {
+        return undefined;
+      }
+
+      const onDemandShare = onDemand / (onDemand + committed);
+      const onDemandCost = cost * shareOfTotal(datapoints, onDemandPattern);
+      if (onDemandShare < 0.7 || onDemandCost < 100) {
+        return undefined;
+      }
+
+      return {
+        summary: `${formatShare(onDemandShare)} of compute usage is on-demand (about ${formatUSD(onDemandCost)} per month). Commit to the steady baseline with a Savings Plan or reserved capacity.`,
+        // Assumes 70% of on-demand usage is a steady baseline and a 28% commitment discount
+        estimatedMonthlySavings: onDemandCost * 0.7 * 0.28,
+        evidence: [
+          `On-demand share: ${formatShare(onDemandShare)}`,
+          'Assumes 70% of on-demand usage is steady and a 28% average commitment discount'
+        ]
+      };
+    }
+  }
+];
+
+/**
+ * Check that a value loaded from a custom rules module is a usable rule
+ */
+function isRule(value: unknown): value is RecommendationRule {
+  const rule = value as Partial<RecommendationRule> | undefined;
+  return !!rule && typeof rule.id === 'string' && typeof rule.title === 'string' && typeof rule.evaluate === 'function';
+}
+
+/**
+ * Load the built-in rules plus custom rules from a directory of JavaScript modules.
+ * Each module exports a rule or an array of rules as its default export or as `rules`.
+ * A custom rule with the ID of a built-in rule replaces it.
+ */
+export async function loadRules(rulesDir?: string): Promise<RecommendationRule[]> {
+  const rules = new Map(BUILTIN_RULES.map(rule => [rule.id, rule]));
+
+  if (rulesDir) {
+    const fullPath = path.resolve(rulesDir);
+    if (!await fs.pathExists(fullPath)) {
+      throw new Error(`Rules directory not found: ${fullPath}`);
+    }
+
+    const files = (await fs.readdir(fullPath)).filter(file => /\.(m?js)$/.test(file)).sort();
+    for (const file of files) {
+      const module = await import(pathToFileURL(path.join(fullPath, file)).href);
+      const exported = module.default ?? module.rules;
+      const candidates = Array.isArray(exported) ? exported : [exported];
+
+      for (const candidate of candidates) {
+        if (!isRule(candidate)) {
+          throw new Error(`Invalid rule exported from ${file}: a rule needs an id, a title and an evaluate function`);
+        }
+        if (rules.has(candidate.id)) {
+          console.warn(`⚠️  Rule ${candidate.id} from ${file} replaces an existing rule`);
+        }
+        rules.set(candidate.id, candidate);
+      }
+    }
+  }
+
+  return [...rules.values()];
+}
+
+/**
+ * Check whether a rule applies to a Cost Explorer service name
+ */
+function ruleAppliesTo(rule: RecommendationRule, service: string): boolean {
+  return !rule.services || rule.services.some(name => name.toLowerCase() === service.toLowerCase());
+}
+
+function severityFor(savings: number): RecommendationSeverity {
+  if (savings >= 1000) {
+    return 'high';
+  }
+  return savings >= 100 ? 'medium' : 'low';
+}
+
+/**
+ * Evaluate rules over the service-region combos of an execution and their saved tool datapoints
+ */
+export async function evaluateRules(
+  executionPath: string,
+  combos: ServiceRegionCombo[],
+  rules: RecommendationRule[]
+): Promise<RecommendationReport> {
+  const dataFiles = await fs.pathExists(executionPath) ? await findDataFiles(executionPath) : [];
+  const recommendations: Recommendation[] = [];
+
+  for (const combo of combos) {
+    const serviceRegion = `${combo.service.replace(/\s+/g, '_')}-${combo.region}`;
+    const datapoints: RuleDatapoints[] = [];
+    for (const dataFile of dataFiles.filter(file => file.serviceRegion === serviceRegion)) {
+      try {
+        datapoints.push({
+          tool: dataFile.tool,
+          file: path.relative(executionPath, dataFile.filePath),
+          series: extractTimeSeries(await fs.readJson(dataFile.filePath))
+        });
+      } catch (error) {
+        console.warn(`⚠️  Could not read datapoints ${dataFile.filePath}: ${error}`);
+      }
+    }
+
+    const context: RuleContext = { combo, combos, datapoints, monthlyCost: monthlyCost(combo) };
+
+    for (const rule of rules.filter(r => ruleAppliesTo(r, combo.service))) {
+      let findings: RuleFinding[];
+      try {
+        const result = await rule.evaluate(context);
+        findings = result === undefined ? [] : Array.isArray(result) ? result : [result];
+      } catch (error) {
+        console.warn(`⚠️  Rule ${rule.id} failed for ${combo.service} (${combo.region}): ${error}`);
+        continue;
+      }
+
+      for (const finding of findings) {
+        const estimatedMonthlySavings = Math.max(0, finding.estimatedMonthlySavings);
+        recommendations.push({
+          ruleId: rule.id,
+          title: rule.title,
+          service: combo.service,
+          region: combo.region,
+          account: combo.account,
+          severity: finding.severity || severityFor(estimatedMonthlySavings),
+          estimatedMonthlySavings,
+          summary: finding.summary,
+          evidence: finding.evidence || [],
+          datapoints: datapoints.map(d => d.file)
+        });
+      }
+    }
+  }
+
+  recommendations.sort((a, b) => b.estimatedMonthlySavings - a.estimatedMonthlySavings);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    rules: rules.map(rule => rule.id),
+    totalEstimatedMonthlySavings: recommendations.reduce((sum, r) => sum + r.estimatedMonthlySavings, 0),
+    recommendations
+  };
+}
+
+/**
+ * Combine the recommendations of several accounts into one report
+ */
+export function mergeRecommendationReports(reports: RecommendationReport[]): RecommendationReport {
+  const recommendations = reports
+    .flatMap(report => report.recommendations)
+    .sort((a, b) => b.estimatedMonthlySavings - a.estimatedMonthlySavings);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    rules: [...new Set(reports.flatMap(report => report.rules))],
+    totalEstimatedMonthlySavings: recommendations.reduce((sum, r) => sum + r.estimatedMonthlySavings, 0),
+    recommendations
+  };
+}
+
+/**
+ * Write the recommendations file into an execution directory
+ */
+export async function writeRecommendations(executionPath: string, report: RecommendationReport): Promise<string> {
+  await fs.ensureDir(executionPath);
+  const recommendationsPath = path.join(executionPath, RECOMMENDATIONS_FILE);
+  await fs.writeJson(recommendationsPath, report, { spaces: 2 });
+  console.log(`📋 ${report.recommendations.length} rule-based recommendations, saved to: ${recommendationsPath}`);
+  return recommendationsPath;
+}
+
+/**
+ * Read the recommendations file of an execution, if it has one
+ */
+export async function readRecommendations(executionPath: string): Promise<RecommendationReport | undefined> {
+  const recommendationsPath = path.join(executionPath, RECOMMENDATIONS_FILE);
+  return await fs.pathExists(recommendationsPath) ? fs.readJson(recommendationsPath) : undefined;
+}
+
+/**
+ * Render rule-based recommendations as a markdown report section
+ */
+export function formatRecommendationsSection(report: RecommendationReport): string {
+  const header = `## Rule-Based Recommendations
+
+Deterministic checks (${report.rules.join(', ')}) over the service-region costs and tool datapoints.
+`;
+
+  if (report.recommendations.length === 0) {
+    return `${header}
+No rule produced a recommendation.
+`;
+  }
+
+  const rows = report.recommendations.map(r =>
+    `| ${r.ruleId} | ${[r.account, r.service, r.region].filter(Boolean).join(' / ')} | ${r.severity} | ${formatUSD(r.estimatedMonthlySavings)} | ${r.summary} |`
+  );
+
+  return `${header}
+| Rule | Service | Severity | Est. Monthly Savings | Recommendation |
+|------|---------|----------|----------------------|----------------|
+${rows.join('\n')}
+
+**Total estimated monthly savings**: ${formatUSD(report.totalEstimatedMonthlySavings)}
+
+Full details: [${RECOMMENDATIONS_FILE}](./${RECOMMENDATIONS_FILE})
+`;
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from '@jest/globals';
+import type { LanguageModelV1, LanguageModelV1CallOptions } from 'ai';
+import { createSpendTracker } from './spend.js';
+
+/** A model whose every call costs $1 at $1 per million input tokens, answering when released */
+function dollarModel() {
+  const pending: (() => void)[] = [];
+  const model: LanguageModelV1 = {
+    specificationVersion: 'v1',
+    provider: 'test',
+    modelId: 'test',
+    defaultObjectGenerationMode: undefined,
+    doGenerate: () => new Promise(resolve => pending.push(() => resolve({
+      text: 'ok',
+      finishReason: 'stop',
+      usage: { promptTokens: 1_000_000, completionTokens: 0 },
+      rawCall: { rawPrompt: null, rawSettings: {} }
+    }))),
+    doStream: () => Promise.reject(new Error('Streaming is not supported'))
+  };
+  return { pending, model };
+}
+
+const callOptions: LanguageModelV1CallOptions = { inputFormat: 'prompt', mode: { type: 'regular' }, prompt: [] };
+
+const pricing = { inputPerMillion: 1, outputPerMillion: 0 };
+
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('createSpendTracker', () => {
+  it('stops LLM calls once the cost limit is reached', async () => {
+    const spend = createSpendTracker(pricing, { maxLLMCost: 2 });
+    const { model, pending } = dollarModel();
+    const wrapped = spend.model(model, { phase: 'analysis' });
+
+    for (let call = 0; call < 2; call++) {
+      const generation = wrapped.doGenerate(callOptions);
+      await settle();
+      pending.shift()?.();
+      await generation;
+    }
+
+    await expect(wrapped.doGenerate(callOptions)).rejects.toThrow('LLM cost limit of $2.00 reached');
+    expect(spend.limitReached()).toBe('LLM cost limit of $2.00 reached');
+    expect(spend.summary().totals).toMatchObject({ llmCalls: 2, llmCost: 2 });
+  });
+
+  it('counts the calls in flight against the cost limit', async () => {
+    const spend = createSpendTracker(pricing, { maxLLMCost: 2.5 });
+    const { model, pending } = dollarModel();
+    const wrapped = spend.model(model, { phase: 'analysis' });
+
+    const first = wrapped.doGenerate(callOptions);
+    await settle();
+    pending.shift()?.();
+    await first;
+
+    const inFlight = [wrapped.doGenerate(callOptions), wrapped.doGenerate(callOptions)];
+    await expect(wrapped.doGenerate(callOptions)).rejects.toThrow('LLM cost limit of $2.50 reached');
+    expect(spend.checkLimits()).toBe('LLM cost limit of $2.50 reached');
+
+    await settle();
+    pending.splice(0).forEach(release => release());
+    await Promise.all(inFlight);
+    expect(spend.summary().totals.llmCost).toBe(3);
+  });
+
+  it('stops AWS API calls once the call limit is reached', async () => {
+    const spend = createSpendTracker(pricing, { maxApiCalls: 1 });
+
+    spend.recordApiCall('awsGetCostAndUsage', { phase: 'analysis' });
+    expect(() => spend.recordApiCall('awsGetCostAndUsage', { phase: 'analysis' })).toThrow('AWS API call limit of 1 reached');
+    expect(spend.checkLimits()).toBe('AWS API call limit of 1 reached');
+    expect(spend.summary().entries[0].apiCost).toBe(0.01);
+  });
+});
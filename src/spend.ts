@@ -0,0 +1,215 @@
+import fs from 'fs-extra';
+import * as path from 'path';
+import { LanguageModelV1, wrapLanguageModel } from 'ai';
+import { ModelConfig, ModelPricing, SpendEntry, SpendLimits, SpendScope, SpendSummary, SpendTracker, SpendUsage } from './types.js';
+
+export const SPEND_FILE = 'spend.json';
+
+/** Cost Explorer charges per API request */
+export const COST_EXPLORER_REQUEST_PRICE = 0.01;
+
+/** aws-tools tools backed by the Cost Explorer API */
+const COST_EXPLORER_TOOL = /cost|forecast|reservation|savingsplan|rightsizing|anomal/i;
+
+/** On-demand prices in USD per million tokens, matched against the model ID */
+const MODEL_PRICING: [RegExp, ModelPricing][] = [
+  [/opus/i, { inputPerMillion: 15, outputPerMillion: 75 }],
+  [/sonnet/i, { inputPerMillion: 3, outputPerMillion: 15 }],
+  [/haiku/i, { inputPerMillion: 0.8, outputPerMillion: 4 }]
+];
+
+const NO_PRICING: ModelPricing = { inputPerMillion: 0, outputPerMillion: 0 };
+
+/**
+ * Thrown by LLM and API calls once a spend limit is reached. Tool wrappers pass it on
+ * instead of reporting it to the model, so the step stops.
+ */
+export class SpendLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpendLimitError';
+  }
+}
+
+/**
+ * Resolve token prices for a model. Explicit prices win over the built-in table;
+ * unknown and local models are priced at zero.
+ */
+export function resolveModelPricing(config?: ModelConfig, overrides: Partial<ModelPricing> = {}): ModelPricing {
+  const known = config?.provider === 'mock'
+    ? NO_PRICING
+    : MODEL_PRICING.find(([pattern]) => pattern.test(config?.modelId || ''))?.[1] || NO_PRICING;
+  return {
+    inputPerMillion: overrides.inputPerMillion ?? known.inputPerMillion,
+    outputPerMillion: overrides.outputPerMillion ?? known.outputPerMillion
+  };
+}
+
+function emptyUsage(): SpendUsage {
+  return {
+    llmCalls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    llmCost: 0,
+    apiCalls: 0,
+    apiCost: 0,
+    apiCallsByTool: {}
+  };
+}
+
+function addUsage(total: SpendUsage, entry: SpendUsage): SpendUsage {
+  const apiCallsByTool = { ...total.apiCallsByTool };
+  Object.entries(entry.apiCallsByTool).forEach(([toolName, calls]) => {
+    apiCallsByTool[toolName] = (apiCallsByTool[toolName] || 0) + calls;
+  });
+  return {
+    llmCalls: total.llmCalls + entry.llmCalls,
+    promptTokens: total.promptTokens + entry.promptTokens,
+    completionTokens: total.completionTokens + entry.completionTokens,
+    llmCost: total.llmCost + entry.llmCost,
+    apiCalls: total.apiCalls + entry.apiCalls,
+    apiCost: total.apiCost + entry.apiCost,
+    apiCallsByTool
+  };
+}
+
+/**
+ * Track LLM token usage and AWS API calls per phase and step, and enforce spend limits.
+ * Once a limit is reached, further LLM and API calls fail with an error naming the limit.
+ * LLM calls still in flight count against the cost limit at the average cost of a call,
+ * so concurrent steps do not overshoot it.
+ */
+export function createSpendTracker(pricing: ModelPricing, limits: SpendLimits = {}): SpendTracker {
+  const entries = new Map<string, SpendEntry>();
+  let llmCost = 0;
+  let llmCalls = 0;
+  let llmCallsInFlight = 0;
+  let apiCalls = 0;
+  let limitReached: string | undefined;
+
+  const entryFor = (scope: SpendScope): SpendEntry => {
+    const key = [scope.account, scope.phase, scope.step].join('\u0000');
+    let entry = entries.get(key);
+    if (!entry) {
+      entry = { ...scope, ...emptyUsage() };
+      entries.set(key, entry);
+    }
+    return entry;
+  };
+
+  const checkLLMLimit = () => {
+    const committedCost = llmCost + (llmCalls > 0 ? llmCallsInFlight * llmCost / llmCalls : 0);
+    if (limits.maxLLMCost !== undefined && committedCost >= limits.maxLLMCost) {
+      limitReached = limitReached || `LLM cost limit of $${limits.maxLLMCost.toFixed(2)} reached`;
+      return limitReached;
+    }
+    return undefined;
+  };
+
+  return {
+    model(model: LanguageModelV1, scope: SpendScope) {
+      return wrapLanguageModel({
+        model,
+        middleware: {
+          middlewareVersion: 'v1',
+          wrapGenerate: async ({ doGenerate }) => {
+            const limit = checkLLMLimit();
+            if (limit) {
+              throw new SpendLimitError(limit);
+            }
+            llmCallsInFlight++;
+            let result: Awaited<ReturnType<typeof doGenerate>>;
+            try {
+              result = await doGenerate();
+            } finally {
+              llmCallsInFlight--;
+            }
+            const promptTokens = result.usage?.promptTokens || 0;
+            const completionTokens = result.usage?.completionTokens || 0;
+            const cost = (promptTokens * pricing.inputPerMillion + completionTokens * pricing.outputPerMillion) / 1_000_000;
+
+            const entry = entryFor(scope);
+            entry.llmCalls++;
+            entry.promptTokens += promptTokens;
+            entry.completionTokens += completionTokens;
+            entry.llmCost += cost;
+            llmCost += cost;
+            llmCalls++;
+            return result;
+          }
+        }
+      });
+    },
+
+    recordApiCall(toolName: string, scope: SpendScope) {
+      if (limits.maxApiCalls !== undefined && apiCalls >= limits.maxApiCalls) {
+        limitReached = limitReached || `AWS API call limit of ${limits.maxApiCalls} reached`;
+        throw new SpendLimitError(limitReached);
+      }
+      apiCalls++;
+
+      const entry = entryFor(scope);
+      entry.apiCalls++;
+      entry.apiCallsByTool[toolName] = (entry.apiCallsByTool[toolName] || 0) + 1;
+      if (COST_EXPLORER_TOOL.test(toolName)) {
+        entry.apiCost += COST_EXPLORER_REQUEST_PRICE;
+      }
+    },
+
+    limitReached() {
+      return limitReached;
+    },
+
+    checkLimits() {
+      return checkLLMLimit() || limitReached;
+    },
+
+    summary(): SpendSummary {
+      const list = [...entries.values()];
+      return {
+        generatedAt: new Date().toISOString(),
+        pricing,
+        limits,
+        limitReached,
+        totals: list.reduce(addUsage, emptyUsage()),
+        entries: list
+      };
+    }
+  };
+}
+
+/**
+ * Write the spend summary into an execution directory
+ */
+export async function writeSpendSummary(executionPath: string, summary: SpendSummary): Promise<string> {
+  await fs.ensureDir(executionPath);
+  const spendPath = path.join(executionPath, SPEND_FILE);
+  await fs.writeJson(spendPath, summary, { spaces: 2 });
+  return spendPath;
+}
+
+function formatUSD(value: number): string {
+  return `$${value.toFixed(value > 0 && value < 0.01 ? 4 : 2)}`;
+}
+
+/**
+ * Render the spend summary as a markdown report section
+ */
+export function formatSpendSection(summary: SpendSummary): string {
+  const rows = summary.entries.map(entry =>
+    `| ${[entry.account, entry.phase].filter(Boolean).join(' / ')} | ${entry.step || ''} | ${entry.llmCalls} | ${entry.promptTokens.toLocaleString()} | ${entry.completionTokens.toLocaleString()} | ${formatUSD(entry.llmCost)} | ${entry.apiCalls} | ${formatUSD(entry.apiCost)} |`
+  );
+  const { totals } = summary;
+
+  return `## Usage and Spend
+
+${summary.limitReached ? `**Stopped early**: ${summary.limitReached}. Steps that did not run can be completed with \`analyze --resume\`.
+
+` : ''}| Phase | Step | LLM Calls | Input Tokens | Output Tokens | LLM Cost | AWS API Calls | API Cost |
+|-------|------|-----------|--------------|---------------|----------|---------------|----------|
+${rows.join('\n')}
+| **Total** | | ${totals.llmCalls} | ${totals.promptTokens.toLocaleString()} | ${totals.completionTokens.toLocaleString()} | ${formatUSD(totals.llmCost)} | ${totals.apiCalls} | ${formatUSD(totals.apiCost)} |
+
+Token prices: $${summary.pricing.inputPerMillion} input / $${summary.pricing.outputPerMillion} output per million tokens. API cost counts Cost Explorer requests at ${formatUSD(COST_EXPLORER_REQUEST_PRICE)} each.
+`;
+}
@@ -1,9 +1,18 @@
-import { jsonSchema, tool, ToolSet, generateText } from 'ai';
-import { invoke, tools as awsTools } from '@ddegtyarev/aws-tools';
+import { jsonSchema, LanguageModelV1, tool, ToolSet, generateText } from 'ai';
+import { tools as awsTools } from '@ddegtyarev/aws-tools';
 import fs from 'fs-extra';
 import * as path from 'path';
 import { ulid } from 'ulid';
-import { generatePNGChart } from './chartUtils.js';
+import { renderChart, validateChartSpec, formatDatapointsTable } from './chartUtils.js';
+import { createStepGuard, DEFAULT_GUARDRAILS } from './guardrails.js';
+import { invokeTool } from './invocation.js';
+import { instrumentModel } from './trace.js';
+import { DEFAULT_GENERATION_SETTINGS, DEFAULT_TEMPERATURE } from './llm.js';
+import { SDK_MAX_RETRIES } from './retry.js';
+import { SpendLimitError } from './spend.js';
+import { renderPrompt } from './prompts.js';
+import { applyToolPresets } from './playbooks.js';
+import { GenerationSettings, GuardrailViolation, InvocationOptions, PromptSet } from './types.js';
 
 interface Credentials {
   accessKeyId: string;
@@ -15,22 +24,32 @@ interface ToolResult {
   summary: string;
   datapointsPath?: string;
   chartPath?: string;
+  chartSpecPath?: string;
   chartAnalysis?: string;
+  chartProblems?: string[];
+  dataTable?: string;
+  dataTablePath?: string;
+  guardrail?: GuardrailViolation;
+  error?: string;
 }
 
 /**
- * Creates AI SDK compatible tools from aws-tools package
+ * Creates AI SDK compatible tools from aws-tools package. The tools of one set share
+ * a guard, so the guardrails apply per step. Each call is traced when a tracer is given.
  */
 export function createTools(
   namesList: string[],
   credentials: Credentials,
   region: string,
   outputPath: string,
-  model: any,
+  model: LanguageModelV1,
   executionId: string,
-  service: string
+  service: string,
+  invocationOptions: InvocationOptions = {}
 ): ToolSet {
   const toolSet: ToolSet = {};
+  const guard = createStepGuard(invocationOptions.guardrails || DEFAULT_GUARDRAILS, invocationOptions.guardrailViolations);
+  const executionPath = path.join(outputPath, executionId);
 
   for (const toolName of namesList) {
     // Find the tool definition from aws-tools
@@ -51,83 +70,137 @@ export function createTools(
     toolSet[toolName] = tool({
       description: awsTool.description,
       parameters: jsonSchema(awsTool.inputSchema),
-      execute: async (params: any): Promise<ToolResult> => {
-        console.log(`🔧 TOOL CALL: ${toolName} with params:`, JSON.stringify(params, null, 2));
+      execute: async (modelParams: any): Promise<ToolResult> => {
+        const startedAt = Date.now();
+        // Params the model left unset come from the presets of the step's playbook
+        const params = applyToolPresets(modelParams, invocationOptions.toolPresets?.[toolName], awsTool.inputSchema, toolName);
+        const toolResult: ToolResult = await guard.run(toolName, params, async (): Promise<ToolResult> => {
+          console.log(`🔧 TOOL CALL: ${toolName} with params:`, JSON.stringify(params, null, 2));
         
-        try {
-          // Prepare credentials for aws-tools
-          const toolCredentials = {
-            accessKeyId: credentials.accessKeyId,
-            secretAccessKey: credentials.secretAccessKey,
-            ...(credentials.sessionToken && { sessionToken: credentials.sessionToken })
-          };
-
-          // Invoke the aws-tool
-          const result = await invoke(toolName, params, {
-            credentials: toolCredentials,
-            region: region
-          });
-
-          console.log(`✅ TOOL RESULT: ${toolName} returned data`);
-
-          // Generate a single call ID for this tool execution
-          const callId = generateUniqueId();
-          const sanitizedService = service.replace(/\s+/g, '_');
-          const serviceRegion = `${sanitizedService}-${region}`;
-          const toolDir = path.join(outputPath, executionId, serviceRegion, toolName);
-
-          // Prepare the result object
-          const toolResult: ToolResult = {
-            summary: result.summary || 'Tool execution completed'
-          };
-
-          // Handle datapoints if present
-          if (result.datapoints) {
-            const datapointsFilename = `${callId}-data.json`;
-            const datapointsPath = path.join(toolDir, datapointsFilename);
+          try {
+            // Prepare credentials for aws-tools
+            const toolCredentials = {
+              accessKeyId: credentials.accessKeyId,
+              secretAccessKey: credentials.secretAccessKey,
+              ...(credentials.sessionToken && { sessionToken: credentials.sessionToken })
+            };
+
+            // Invoke the aws-tool
+            const result = await invokeTool(toolName, params, {
+              credentials: toolCredentials,
+              region: region
+            }, invocationOptions);
+
+            console.log(`✅ TOOL RESULT: ${toolName} returned data`);
+
+            // Generate a single call ID for this tool execution
+            const callId = generateUniqueId();
+            const sanitizedService = service.replace(/\s+/g, '_');
+            const serviceRegion = `${sanitizedService}-${region}`;
+            const toolDir = path.join(outputPath, executionId, serviceRegion, toolName);
+
+            // Prepare the result object
+            const toolResult: ToolResult = {
+              summary: result.summary || 'Tool execution completed'
+            };
+
+            // Handle datapoints if present
+            if (result.datapoints) {
+              const datapointsFilename = `${callId}-data.json`;
+              const datapointsPath = path.join(toolDir, datapointsFilename);
             
-            await fs.ensureDir(path.dirname(datapointsPath));
-            await fs.writeFile(datapointsPath, JSON.stringify(result.datapoints, null, 2));
+              await fs.ensureDir(path.dirname(datapointsPath));
+              await fs.writeFile(datapointsPath, JSON.stringify(result.datapoints, null, 2));
             
-            toolResult.datapointsPath = datapointsPath;
-            console.log(`💾 Datapoints saved to: ${datapointsPath}`);
-          }
+              toolResult.datapointsPath = datapointsPath;
+              console.log(`💾 Datapoints saved to: ${datapointsPath}`);
+            }
 
-          // Handle chart if present
-          if (result.chart) {
-            try {
-              const chartFilename = `${callId}-chart`;
-              const chartPath = path.join(toolDir, `${chartFilename}.png`);
+            // Handle chart if present, falling back to a data table when it cannot be rendered
+            const chartProblems = result.chart ? validateChartSpec(result.chart) : [];
+            if (result.chart && chartProblems.length === 0) {
+              try {
+                const chartFilename = `${callId}-chart`;
+                const chartFormat = invocationOptions.chartFormat || 'png';
               
-              await fs.ensureDir(toolDir);
+                await fs.ensureDir(toolDir);
               
-              // Render chart to PNG
-              console.log(`🎨 Rendering chart to PNG: ${chartPath}`);
-              await generatePNGChart(result.chart, chartFilename, toolDir);
+                // Render chart in the configured format, keeping the Vega-Lite spec next to it
+                console.log(`🎨 Rendering ${chartFormat} chart: ${path.join(toolDir, chartFilename)}`);
+                const chart = await renderChart(result.chart, chartFilename, toolDir, chartFormat);
               
-              toolResult.chartPath = chartPath;
+                toolResult.chartPath = chart.embedPath;
+                toolResult.chartSpecPath = chart.specPath;
 
-              // Analyze the chart using the model
-              console.log(`🤖 Analyzing chart ${chartPath}`);
-              const chartAnalysis = await analyzeChart(chartPath, model, toolName, result.summary);
-              toolResult.chartAnalysis = chartAnalysis;
-              console.log(`✅ Chart analysis completed: ${chartAnalysis}`);
+                // Analyze the chart using the model
+                console.log(`🤖 Analyzing chart ${chart.embedPath}`);
+                const chartModel = instrumentModel(model, invocationOptions, { ...invocationOptions.spendScope, phase: 'chart-analysis' });
+                const chartAnalysis = await analyzeChart(chart.png, chartModel, toolName, toolResult.summary, invocationOptions.generation, invocationOptions.prompts);
+                toolResult.chartAnalysis = chartAnalysis;
+                console.log(`✅ Chart analysis completed: ${chartAnalysis}`);
 
-            } catch (chartError) {
-              console.error(`❌ Chart processing failed for ${toolName}:`, chartError);
-              // Continue without chart - don't fail the entire tool execution
+              } catch (chartError) {
+                if (chartError instanceof SpendLimitError) {
+                  throw chartError;
+                }
+                console.error(`❌ Chart processing failed for ${toolName}:`, chartError);
+                // Continue without chart - don't fail the entire tool execution
+                if (!toolResult.chartPath) {
+                  chartProblems.push(`Rendering failed: ${chartError instanceof Error ? chartError.message : String(chartError)}`);
+                }
+              }
             }
-          }
 
-          console.log(`🔍 Tool result: ${JSON.stringify(toolResult, null, 2)}`);
-          return toolResult;
+            if (chartProblems.length > 0) {
+              console.warn(`⚠️  Chart for ${toolName} replaced by a data table: ${chartProblems.join('; ')}`);
+              const table = formatDatapointsTable(result.datapoints ?? result.chart?.data?.values);
+              const tablePath = path.join(toolDir, `${callId}-table.md`);
+              await fs.ensureDir(toolDir);
+              await fs.writeFile(tablePath, `# ${toolName}\n\n${table}\n`, 'utf8');
 
-        } catch (error) {
-          console.error(`❌ TOOL ERROR: ${toolName} failed:`, error);
-          return {
-            summary: `Tool execution failed: ${error instanceof Error ? error.message : String(error)}`
-          };
-        }
+              toolResult.chartProblems = chartProblems;
+              toolResult.dataTable = table;
+              toolResult.dataTablePath = tablePath;
+              invocationOptions.chartFallbacks?.push({
+                toolName,
+                problems: chartProblems,
+                table,
+                tablePath,
+                datapointsPath: toolResult.datapointsPath
+              });
+            }
+
+            console.log(`🔍 Tool result: ${JSON.stringify(toolResult, null, 2)}`);
+            return toolResult;
+
+          } catch (error) {
+            // A spend limit stops the step rather than being reported to the model as a failed call
+            if (error instanceof SpendLimitError) {
+              throw error;
+            }
+            console.error(`❌ TOOL ERROR: ${toolName} failed:`, error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return {
+              summary: `Tool execution failed: ${errorMessage}`,
+              error: errorMessage
+            };
+          }
+        });
+
+        invocationOptions.trace?.record({
+          type: 'tool-call',
+          ...invocationOptions.spendScope,
+          toolName,
+          params,
+          durationMs: Date.now() - startedAt,
+          status: toolResult.guardrail ? `guardrail: ${toolResult.guardrail.rule}` : toolResult.error ? 'failed' : 'ok',
+          summary: toolResult.summary,
+          error: toolResult.error,
+          artifacts: [toolResult.datapointsPath, toolResult.chartPath, toolResult.chartSpecPath, toolResult.dataTablePath]
+            .filter((artifact): artifact is string => !!artifact)
+            .map(artifact => path.relative(executionPath, artifact))
+        });
+        return toolResult;
       }
     });
   }
@@ -140,28 +213,17 @@ export function createTools(
  * Analyze a chart image using the provided model
  */
 async function analyzeChart(
-  chartPath: string,
-  model: any,
+  imageBuffer: Buffer,
+  model: LanguageModelV1,
   toolName: string,
-  context: string
+  context: string,
+  generation: GenerationSettings = {},
+  prompts?: PromptSet
 ): Promise<string> {
   try {
-    // Read the chart image
-    const imageBuffer = await fs.readFile(chartPath);
     const base64Image = imageBuffer.toString('base64');
 
-    const prompt = `
-Analyze this chart generated by the ${toolName} AWS tool and provide insights.
-
-Context: ${context}
-
-Please provide a concise analysis focusing on:
-1. What the chart shows (data patterns, trends)
-2. Key insights about AWS costs or metrics
-3. Notable patterns or anomalies
-
-Keep the analysis concise but informative.
-`;
+    const prompt = renderPrompt(prompts, 'chart', { toolName, context });
 
     const result = await generateText({
       model: model,
@@ -177,13 +239,17 @@ Keep the analysis concise but informative.
           ]
         }
       ],
-      maxTokens: 1000,
-      temperature: 0.3
+      maxRetries: SDK_MAX_RETRIES,
+      maxTokens: generation.chartMaxTokens ?? DEFAULT_GENERATION_SETTINGS.chartMaxTokens,
+      temperature: generation.temperature ?? DEFAULT_TEMPERATURE
     });
 
     return result.text;
 
   } catch (error) {
+    if (error instanceof SpendLimitError) {
+      throw error;
+    }
     console.error('Error analyzing chart:', error);
     return `Chart analysis failed: ${error instanceof Error ? error.message : String(error)}`;
   }
@@ -0,0 +1,141 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { generateText } from 'ai';
+import { createTracer, filterTraceEvents, formatDuration, formatTraceTimeline, readTrace, TRACE_FILE } from './trace.js';
+import { createProviderModel } from './providers.js';
+import type { TraceEvent } from './types.js';
+
+const events: TraceEvent[] = [
+  { timestamp: '2026-10-18T09:00:00.000Z', type: 'execution-start', status: 'started' },
+  { timestamp: '2026-10-18T09:00:01.000Z', type: 'tool-call', phase: 'cost-data', toolName: 'awsCostPerServicePerRegion', params: { lookBack: 1 }, durationMs: 800, status: 'ok' },
+  { timestamp: '2026-10-18T09:00:02.000Z', type: 'step-start', phase: 'analysis', step: '1. Lambda compute' },
+  { timestamp: '2026-10-18T09:00:03.000Z', type: 'tool-call', phase: 'analysis', step: '1. Lambda compute', toolName: 'awsGetCostAndUsage', params: { lookBack: 3 }, durationMs: 1500, status: 'ok', summary: 'GB-seconds per day', artifacts: ['AWS_Lambda-us-east-1/awsGetCostAndUsage/01-data.json'] },
+  { timestamp: '2026-10-18T09:00:04.000Z', type: 'step-end', phase: 'analysis', step: '1. Lambda compute', status: 'completed', durationMs: 2000 },
+  { timestamp: '2026-10-18T09:00:05.000Z', type: 'step-start', phase: 'analysis', step: '2. EC2 instances', account: 'staging' },
+  { timestamp: '2026-10-18T09:00:06.000Z', type: 'tool-call', phase: 'analysis', step: '2. EC2 instances', account: 'staging', toolName: 'awsGetCostAndUsage', params: {}, status: 'failed', error: 'Throttled' },
+  { timestamp: '2026-10-18T09:00:07.000Z', type: 'step-end', phase: 'analysis', step: '2. EC2 instances', account: 'staging', status: 'failed', durationMs: 2000 },
+  { timestamp: '2026-10-18T09:01:10.000Z', type: 'execution-end', status: 'completed', durationMs: 70000 }
+];
+
+describe('createTracer', () => {
+  let executionPath: string;
+
+  beforeEach(async () => {
+    executionPath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'trace-')), 'execution');
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(path.dirname(executionPath));
+  });
+
+  it('appends timestamped events that read back in order', async () => {
+    const tracer = createTracer(executionPath);
+
+    tracer.record({ type: 'execution-start', status: 'started' });
+    tracer.record({ type: 'tool-call', phase: 'analysis', step: '1. Lambda compute', toolName: 'awsGetCostAndUsage', params: { lookBack: 3 } });
+
+    const trace = await readTrace(executionPath);
+    expect(trace).toEqual([
+      { timestamp: expect.any(String), type: 'execution-start', status: 'started' },
+      { timestamp: expect.any(String), type: 'tool-call', phase: 'analysis', step: '1. Lambda compute', toolName: 'awsGetCostAndUsage', params: { lookBack: 3 } }
+    ]);
+    expect(Date.parse(trace[0].timestamp)).not.toBeNaN();
+  });
+
+  it('traces model calls with their prompt, response and token usage', async () => {
+    const scriptPath = path.join(path.dirname(executionPath), 'mock-script.json');
+    await fs.writeJson(scriptPath, ['Lambda dominates the spend.']);
+    const tracer = createTracer(executionPath);
+    const model = tracer.model(createProviderModel({ provider: 'mock', scriptPath }), { phase: 'report' });
+
+    await generateText({ model, prompt: 'Summarise the analyses' });
+
+    expect(await readTrace(executionPath)).toEqual([expect.objectContaining({
+      type: 'llm-call',
+      phase: 'report',
+      status: 'stop',
+      response: 'Lambda dominates the spend.',
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'Summarise the analyses' }] }],
+      usage: { promptTokens: 0, completionTokens: 0 }
+    })]);
+  });
+
+  it('skips unreadable lines and fails without a trace', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    await fs.outputFile(path.join(executionPath, TRACE_FILE), `${JSON.stringify(events[0])}\n{"type":\n`);
+
+    expect(await readTrace(executionPath)).toEqual([events[0]]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Skipping unreadable trace line 2'));
+    await expect(readTrace(path.join(executionPath, 'missing'))).rejects.toThrow(/Trace not found/);
+  });
+});
+
+describe('filterTraceEvents', () => {
+  it('keeps only the tool calls of a tool', () => {
+    expect(filterTraceEvents(events, { toolName: 'awsGetCostAndUsage' })).toEqual([events[3], events[6]]);
+  });
+
+  it('matches steps by number or by part of the title', () => {
+    expect(filterTraceEvents(events, { step: '1' })).toEqual([events[2], events[3], events[4]]);
+    expect(filterTraceEvents(events, { step: 'ec2' })).toEqual([events[5], events[6], events[7]]);
+  });
+
+  it('keeps the events of an account', () => {
+    expect(filterTraceEvents(events, { account: 'staging', toolName: 'awsGetCostAndUsage' })).toEqual([events[6]]);
+  });
+});
+
+describe('formatTraceTimeline', () => {
+  it('groups events by phase and step between the execution start and end', () => {
+    const timeline = formatTraceTimeline(events);
+
+    expect(timeline.split('\n')).toEqual([
+      '2026-10-18T09:00:00.000Z  Execution started',
+      '',
+      '── Cost data ──',
+      '09:00:01.000  🔧 awsCostPerServicePerRegion {"lookBack":1}  (800ms)',
+      '',
+      '── 1. Lambda compute ──',
+      '09:00:02.000  ▶ Step started',
+      '09:00:03.000  🔧 awsGetCostAndUsage {"lookBack":3}  (1.5s)',
+      '               GB-seconds per day',
+      '               📄 AWS_Lambda-us-east-1/awsGetCostAndUsage/01-data.json',
+      '09:00:04.000  ✅ Step completed  (2.0s)',
+      '',
+      '── staging / 2. EC2 instances ──',
+      '09:00:05.000  ▶ Step started',
+      '09:00:06.000  🔧 awsGetCostAndUsage {}  [failed]',
+      '               ❌ Throttled',
+      '09:00:07.000  ❌ Step failed  (2.0s)',
+      '',
+      '2026-10-18T09:01:10.000Z  Execution completed in 1m 10s'
+    ]);
+  });
+
+  it('truncates LLM responses unless the full trace is asked for', () => {
+    const response = `Lambda ${'spend '.repeat(40)}`;
+    const llmCall: TraceEvent = {
+      timestamp: '2026-10-18T09:00:08.000Z',
+      type: 'llm-call',
+      phase: 'report',
+      prompt: 'Summarise',
+      response,
+      usage: { promptTokens: 1200, completionTokens: 300 }
+    };
+
+    const short = formatTraceTimeline([llmCall]);
+    const full = formatTraceTimeline([llmCall], { full: true });
+
+    expect(short).toContain('🤖 LLM report  1,200 in / 300 out tokens');
+    expect(short).toContain('…');
+    expect(full).toContain('Prompt:');
+    expect(full).toContain(response.trimEnd());
+  });
+
+  it('formats durations', () => {
+    expect([formatDuration(250), formatDuration(12_345), formatDuration(125_000)]).toEqual(['250ms', '12.3s', '2m 5s']);
+  });
+});
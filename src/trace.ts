@@ -0,0 +1,292 @@
+import fs from 'fs-extra';
+import * as path from 'path';
+import { LanguageModelV1, LanguageModelV1Prompt, wrapLanguageModel } from 'ai';
+import { InvocationOptions, SpendPhase, SpendScope, TraceEvent, Tracer } from './types.js';
+
+export const TRACE_FILE = 'trace.jsonl';
+
+export interface TraceFilter {
+  toolName?: string;
+  /** Step number or part of the step title */
+  step?: string;
+  account?: string;
+}
+
+const PHASE_LABELS: Record<SpendPhase, string> = {
+  'cost-data': 'Cost data',
+  planning: 'Planning',
+  analysis: 'Analysis',
+  'chart-analysis': 'Chart analysis',
+  report: 'Report'
+};
+
+/** A prompt message as written to the trace */
+interface TracedMessage {
+  role: string;
+  content: string | { type: string; text?: string; toolName?: string; args?: unknown; result?: unknown }[];
+}
+
+/**
+ * Drop image and file contents from a prompt, which would bloat the trace with base64 data
+ */
+function tracePrompt(prompt: LanguageModelV1Prompt): unknown {
+  return prompt.map(message => ({
+    ...message,
+    content: Array.isArray(message.content)
+      ? message.content.map(part => part.type === 'image' || part.type === 'file'
+        ? { type: part.type, mimeType: part.mimeType, omitted: true }
+        : part)
+      : message.content
+  }));
+}
+
+/**
+ * Create the tracer of an execution, appending events to `<execution>/trace.jsonl`.
+ * Events are written synchronously, so the trace is complete up to the moment a run dies.
+ */
+export function createTracer(executionPath: string): Tracer {
+  const tracePath = path.join(executionPath, TRACE_FILE);
+  let directoryReady = false;
+
+  const record = (event: Omit<TraceEvent, 'timestamp'>) => {
+    try {
+      if (!directoryReady) {
+        fs.ensureDirSync(executionPath);
+        directoryReady = true;
+      }
+      fs.appendFileSync(tracePath, `${JSON.stringify({ timestamp: new Date().toISOString(), ...event })}\n`, 'utf8');
+    } catch (error) {
+      // Tracing must never fail the analysis
+      console.warn(`⚠️  Failed to write trace event: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  return {
+    record,
+
+    model(model: LanguageModelV1, scope: SpendScope) {
+      return wrapLanguageModel({
+        model,
+        middleware: {
+          middlewareVersion: 'v1',
+          wrapGenerate: async ({ doGenerate, params }) => {
+            const startedAt = Date.now();
+            try {
+              const result = await doGenerate();
+              record({
+                type: 'llm-call',
+                ...scope,
+                durationMs: Date.now() - startedAt,
+                status: result.finishReason,
+                prompt: tracePrompt(params.prompt),
+                response: result.text,
+                toolCalls: result.toolCalls?.map(call => ({ toolName: call.toolName, args: safeParse(call.args) })),
+                usage: {
+                  promptTokens: result.usage?.promptTokens || 0,
+                  completionTokens: result.usage?.completionTokens || 0
+                }
+              });
+              return result;
+            } catch (error) {
+              record({
+                type: 'llm-call',
+                ...scope,
+                durationMs: Date.now() - startedAt,
+                status: 'failed',
+                prompt: tracePrompt(params.prompt),
+                error: error instanceof Error ? error.message : String(error)
+              });
+              throw error;
+            }
+          }
+        }
+      });
+    }
+  };
+}
+
+function safeParse(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Wrap a model for spend accounting and tracing, as far as the invocation options enable them
+ */
+export function instrumentModel(
+  model: LanguageModelV1,
+  { spend, trace }: Pick<InvocationOptions, 'spend' | 'trace'>,
+  scope: SpendScope
+): LanguageModelV1 {
+  const accounted = spend ? spend.model(model, scope) : model;
+  return trace ? trace.model(accounted, scope) : accounted;
+}
+
+/**
+ * Read the trace of an execution
+ */
+export async function readTrace(executionPath: string): Promise<TraceEvent[]> {
+  const tracePath = path.join(executionPath, TRACE_FILE);
+  if (!await fs.pathExists(tracePath)) {
+    throw new Error(`Trace not found: ${tracePath}`);
+  }
+
+  const lines = (await fs.readFile(tracePath, 'utf8')).split('\n').filter(line => line.trim());
+  const events: TraceEvent[] = [];
+  lines.forEach((line, index) => {
+    try {
+      events.push(JSON.parse(line));
+    } catch {
+      console.warn(`⚠️  Skipping unreadable trace line ${index + 1}`);
+    }
+  });
+  return events;
+}
+
+/**
+ * Keep the events of a tool, step or account. Filtering by tool keeps only its tool calls.
+ */
+export function filterTraceEvents(events: TraceEvent[], filter: TraceFilter = {}): TraceEvent[] {
+  const step = filter.step?.toLowerCase();
+  return events.filter(event =>
+    (!filter.toolName || (event.type === 'tool-call' && event.toolName === filter.toolName)) &&
+    (!filter.account || event.account === filter.account) &&
+    (!step || (!!event.step && (event.step.startsWith(`${step}. `) || event.step.toLowerCase().includes(step))))
+  );
+}
+
+/**
+ * Format a duration in milliseconds for the timeline
+ */
+export function formatDuration(ms: number): string {
+  if (ms < 1000) {
+    return `${ms}ms`;
+  }
+  if (ms < 60000) {
+    return `${(ms / 1000).toFixed(1)}s`;
+  }
+  return `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+}
+
+function truncate(text: string, length: number): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > length ? `${singleLine.substring(0, length - 1)}…` : singleLine;
+}
+
+function formatPrompt(prompt: unknown): string[] {
+  if (!Array.isArray(prompt)) {
+    return [String(prompt)];
+  }
+  return (prompt as TracedMessage[]).map(message => {
+    const content = Array.isArray(message.content)
+      ? message.content.map(part => {
+        if (part.type === 'text') return part.text;
+        if (part.type === 'tool-call') return `[tool call ${part.toolName} ${JSON.stringify(part.args)}]`;
+        if (part.type === 'tool-result') return `[tool result ${part.toolName}: ${JSON.stringify(part.result)}]`;
+        return `[${part.type}]`;
+      }).join('\n')
+      : String(message.content);
+    return `${message.role}: ${content}`;
+  });
+}
+
+function indent(text: string, prefix: string): string {
+  return text.split('\n').map(line => `${prefix}${line}`).join('\n');
+}
+
+function formatEvent(event: TraceEvent, full: boolean): string[] {
+  const time = event.timestamp.substring(11, 23);
+  const duration = event.durationMs !== undefined ? `  (${formatDuration(event.durationMs)})` : '';
+  const detail = '               ';
+  const lines: string[] = [];
+
+  switch (event.type) {
+  case 'llm-call': {
+    const tokens = event.usage ? `  ${event.usage.promptTokens.toLocaleString()} in / ${event.usage.completionTokens.toLocaleString()} out tokens` : '';
+    lines.push(`${time}  🤖 LLM ${PHASE_LABELS[event.phase || 'analysis'].toLowerCase()}${tokens}${duration}`);
+    if (event.toolCalls && event.toolCalls.length > 0) {
+      lines.push(`${detail}→ calls ${event.toolCalls.map(call => call.toolName).join(', ')}`);
+    }
+    if (full) {
+      lines.push(`${detail}Prompt:`, ...formatPrompt(event.prompt).map(line => indent(line, `${detail}  `)));
+      if (event.response) {
+        lines.push(`${detail}Response:`, indent(event.response, `${detail}  `));
+      }
+    } else if (event.response) {
+      lines.push(`${detail}${truncate(event.response, 120)}`);
+    }
+    break;
+  }
+  case 'tool-call':
+    lines.push(`${time}  🔧 ${event.toolName} ${JSON.stringify(event.params ?? {})}${duration}${event.status && event.status !== 'ok' ? `  [${event.status}]` : ''}`);
+    if (event.summary) {
+      lines.push(`${detail}${full ? event.summary : truncate(event.summary, 160)}`);
+    }
+    (event.artifacts || []).forEach(artifact => lines.push(`${detail}📄 ${artifact}`));
+    break;
+  case 'plan':
+    lines.push(`${time}  📋 Plan${event.status ? ` (${event.status})` : ''}`);
+    if (event.summary) {
+      lines.push(indent(event.summary, detail));
+    }
+    break;
+  case 'step-start':
+    lines.push(`${time}  ▶ Step started`);
+    break;
+  case 'step-end':
+    lines.push(`${time}  ${event.status === 'completed' ? '✅' : '❌'} Step ${event.status}${duration}`);
+    break;
+  default:
+    lines.push(`${time}  ${event.type}${event.status ? ` ${event.status}` : ''}${duration}`);
+  }
+
+  if (event.error) {
+    lines.push(`${detail}❌ ${event.error}`);
+  }
+  return lines;
+}
+
+/**
+ * Render a trace as a readable timeline, one section per step and per execution phase
+ * outside the steps, in the order they started
+ */
+export function formatTraceTimeline(events: TraceEvent[], options: { full?: boolean } = {}): string {
+  const groups = new Map<string, { title: string; events: TraceEvent[] }>();
+  const executionEvents = events.filter(event => event.type === 'execution-start' || event.type === 'execution-end');
+
+  events.filter(event => !executionEvents.includes(event)).forEach(event => {
+    const key = [event.account, event.step || event.phase || 'execution'].join('\u0000');
+    const title = event.step || (event.phase ? PHASE_LABELS[event.phase] : 'Execution');
+    let group = groups.get(key);
+    if (!group) {
+      group = { title: event.account ? `${event.account} / ${title}` : title, events: [] };
+      groups.set(key, group);
+    }
+    group.events.push(event);
+  });
+
+  const lines: string[] = [];
+  executionEvents.filter(event => event.type === 'execution-start').forEach(event => {
+    lines.push(`${event.timestamp}  Execution ${event.status || 'started'}${event.summary ? `: ${event.summary}` : ''}`);
+  });
+
+  for (const group of groups.values()) {
+    if (lines.length > 0) {
+      lines.push('');
+    }
+    lines.push(`── ${group.title} ──`);
+    group.events.forEach(event => lines.push(...formatEvent(event, options.full === true)));
+  }
+
+  executionEvents.filter(event => event.type === 'execution-end').forEach(event => {
+    lines.push('', `${event.timestamp}  Execution ${event.status}${event.durationMs !== undefined ? ` in ${formatDuration(event.durationMs)}` : ''}${event.summary ? `: ${event.summary}` : ''}`);
+    if (event.error) {
+      lines.push(`  ❌ ${event.error}`);
+    }
+  });
+
+  return lines.join('\n');
+}
@@ -1,8 +1,11 @@
+import type { LanguageModelV1 } from 'ai';
+
 export interface AWSCredentials {
   accessKeyId: string;
   secretAccessKey: string;
   sessionToken?: string;
   region?: string;
+  source?: string;
 }
 
 export interface AWSCredentialsFile {
@@ -21,6 +24,33 @@ export interface ServiceRegionCombo {
   cost: number;
   currency: string;
   period: string;
+  account?: string;
+  previousCost?: number;
+  costChange?: number;
+  costChangePercent?: number;
+}
+
+export type CostGranularity = 'DAILY' | 'MONTHLY';
+
+export type CostRankBy = 'cost' | 'growth' | 'growth-pct';
+
+export interface CostWindowOptions {
+  from?: string;
+  to?: string;
+  granularity?: CostGranularity;
+  rankBy?: CostRankBy;
+}
+
+export interface AccountTarget {
+  name: string;
+  credentials: AWSCredentials;
+}
+
+export interface AccountAnalysis {
+  account: string;
+  serviceRegionCombos: ServiceRegionCombo[];
+  results: [string, AnalysisResult][];
+  error?: string;
 }
 
 export interface AnalysisStep {
@@ -28,6 +58,31 @@ export interface AnalysisStep {
   service: string;
   region: string;
   useTools: string[];
+  /** ID of the service playbook the step was built from */
+  playbook?: string;
+}
+
+/**
+ * The parts of an aws-tools tool definition that playbooks are checked against
+ */
+export interface ToolDefinition {
+  name: string;
+  inputSchema?: { properties?: Record<string, unknown> };
+}
+
+/**
+ * Curated analysis of a well-known service: the tools to use, default params of their
+ * calls and a checklist for the analysis
+ */
+export interface ServicePlaybook {
+  id: string;
+  title: string;
+  /** Cost Explorer service names the playbook applies to */
+  services: string[];
+  tools: string[];
+  /** Default params per tool, for params a call leaves unset */
+  toolPresets?: Record<string, Record<string, unknown>>;
+  checklist: string[];
 }
 
 export interface ToolResult {
@@ -43,6 +98,295 @@ export interface ReportConfig {
   outputPath: string;
   includeCharts: boolean;
   topN: number;
+  record?: boolean;
+  replayExecutionId?: string;
+  replayFallback?: boolean;
+  model?: ModelConfig;
+  costWindow?: CostWindowOptions;
+  rulesDir?: string;
+  concurrency?: number;
+  retry?: RetryOptions;
+  resume?: boolean;
+  plan?: PlanFile;
+  spendLimits?: SpendLimits;
+  pricing?: Partial<ModelPricing>;
+  chartFormat?: ChartFormat;
+  guardrails?: ToolGuardrails;
+  cache?: CacheConfig;
+  generation?: GenerationSettings;
+  prompts?: PromptSet;
+  /** Build the steps of well-known services from their playbooks (default: true) */
+  playbooks?: boolean;
+  /** Directory of JSON or YAML playbooks adding to or replacing the built-in playbooks */
+  playbooksDir?: string;
+}
+
+/**
+ * Output of tool charts: `png` and `svg` images, `both`, or `interactive` (PNG for
+ * markdown, with the Vega-Lite specification used for interactive HTML renderings)
+ */
+export type ChartFormat = 'png' | 'svg' | 'both' | 'interactive';
+
+export interface RenderedChart {
+  /** The original Vega-Lite specification, saved next to the chart */
+  specPath: string;
+  pngPath?: string;
+  svgPath?: string;
+  /** The image to embed in markdown */
+  embedPath: string;
+  /** PNG rendering, used for chart analysis */
+  png: Buffer;
+}
+
+export type LLMProviderName = 'bedrock' | 'openai-compatible' | 'mock';
+
+export interface ModelConfig {
+  provider: LLMProviderName;
+  modelId?: string;
+  region?: string;
+  baseURL?: string;
+  apiKey?: string;
+  scriptPath?: string;
+  profile?: string;
+}
+
+export interface MockScriptEntry {
+  text?: string;
+  toolCalls?: {
+    toolName: string;
+    args?: unknown;
+  }[];
+}
+
+export type RecordingMode = 'record' | 'replay';
+
+export interface RecordingConfig {
+  mode: RecordingMode;
+  directory: string;
+  /** Serve the latest recording of the same tool and region when no recording matches the params */
+  fallback?: boolean;
+}
+
+/** Result of an aws-tools tool: a summary, with the datapoints and a Vega-Lite chart of them when the tool has them */
+export interface ToolInvocationResult {
+  summary?: string;
+  datapoints?: unknown;
+  chart?: { data?: { values?: unknown } } & Record<string, unknown>;
+}
+
+export interface RecordedInvocation {
+  toolName: string;
+  params: unknown;
+  region: string;
+  result: ToolInvocationResult;
+  recordedAt: string;
+}
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export type SpendPhase = 'cost-data' | 'planning' | 'analysis' | 'chart-analysis' | 'report';
+
+export interface SpendScope {
+  phase: SpendPhase;
+  step?: string;
+  account?: string;
+}
+
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface SpendLimits {
+  maxLLMCost?: number;
+  maxApiCalls?: number;
+}
+
+export interface SpendUsage {
+  llmCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  llmCost: number;
+  apiCalls: number;
+  apiCost: number;
+  apiCallsByTool: Record<string, number>;
+}
+
+export interface SpendEntry extends SpendUsage, SpendScope {}
+
+export interface SpendSummary {
+  generatedAt: string;
+  pricing: ModelPricing;
+  limits: SpendLimits;
+  limitReached?: string;
+  totals: SpendUsage;
+  entries: SpendEntry[];
+}
+
+export interface SpendTracker {
+  model(model: LanguageModelV1, scope: SpendScope): LanguageModelV1;
+  recordApiCall(toolName: string, scope: SpendScope): void;
+  limitReached(): string | undefined;
+  /** The limit reached, counting the LLM calls still in flight against the cost limit */
+  checkLimits(): string | undefined;
+  summary(): SpendSummary;
+}
+
+export interface CacheConfig {
+  directory: string;
+  /** Seconds a cached tool result stays fresh */
+  ttlSeconds: number;
+}
+
+export interface CacheEntry {
+  key: string;
+  toolName: string;
+  params: unknown;
+  /** Hash of the access key the result was fetched with */
+  account: string;
+  region: string;
+  result: ToolInvocationResult;
+  cachedAt: string;
+  expiresAt: string;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  expired: number;
+  writes: number;
+}
+
+export interface ToolCache {
+  get(toolName: string, params: unknown, account: string, region: string): Promise<ToolInvocationResult | undefined>;
+  set(toolName: string, params: unknown, account: string, region: string, result: ToolInvocationResult): Promise<void>;
+  stats(): CacheStats;
+}
+
+export type TraceEventType =
+  | 'execution-start'
+  | 'execution-end'
+  | 'plan'
+  | 'step-start'
+  | 'step-end'
+  | 'llm-call'
+  | 'tool-call';
+
+export interface TraceEvent {
+  timestamp: string;
+  type: TraceEventType;
+  account?: string;
+  phase?: SpendPhase;
+  step?: string;
+  durationMs?: number;
+  status?: string;
+  error?: string;
+  toolName?: string;
+  params?: unknown;
+  /** Result summary of a tool call, or the plan of a plan event */
+  summary?: string;
+  /** Files written by a tool call, relative to the execution directory */
+  artifacts?: string[];
+  prompt?: unknown;
+  response?: string;
+  toolCalls?: { toolName: string; args: unknown }[];
+  usage?: { promptTokens: number; completionTokens: number };
+}
+
+export interface Tracer {
+  /** Append an event to the trace, timestamped now */
+  record(event: Omit<TraceEvent, 'timestamp'>): void;
+  /** Wrap a model so each of its calls is traced with its prompt, response and token usage */
+  model(model: LanguageModelV1, scope: SpendScope): LanguageModelV1;
+}
+
+/**
+ * Generation settings of the LLM calls. Unset settings keep the defaults of each call.
+ */
+export interface GenerationSettings {
+  /** Maximum tool-call round trips of a step analysis */
+  maxSteps?: number;
+  /** Maximum output tokens of a step analysis and of the compiled report */
+  maxTokens?: number;
+  /** Maximum output tokens of the analysis plan */
+  planMaxTokens?: number;
+  /** Maximum output tokens of the findings extracted from a step analysis */
+  findingsMaxTokens?: number;
+  /** Maximum output tokens of a chart analysis */
+  chartMaxTokens?: number;
+  /** Sampling temperature of planning, step analysis, chart analysis and the compiled report */
+  temperature?: number;
+}
+
+/** Prompts of the LLM calls that can be overridden */
+export type PromptName = 'planner' | 'step' | 'chart' | 'findings' | 'report' | 'report-instructions' | 'organisation-report-instructions';
+
+/**
+ * A versioned set of prompt templates. Templates a pack does not define come from the default pack.
+ */
+export interface PromptPack {
+  name: string;
+  version: string;
+  description: string;
+  templates: Partial<Record<PromptName, string>>;
+}
+
+export interface ResolvedPrompt {
+  text: string;
+  /** `<pack>@<version>` for pack templates, `sha256:<hash>` for templates from a prompts directory */
+  version: string;
+  /** The pack name, or the path of the template file */
+  source: string;
+}
+
+/**
+ * The prompt templates of a run: a pack with the overrides from a prompts directory
+ */
+export interface PromptSet {
+  pack: string;
+  packVersion: string;
+  directory?: string;
+  templates: Record<PromptName, ResolvedPrompt>;
+}
+
+/** The prompt versions a run used, as recorded in its manifest */
+export interface PromptVersions {
+  pack: string;
+  packVersion: string;
+  templates: Record<PromptName, string>;
+}
+
+export interface InvocationOptions {
+  recording?: RecordingConfig;
+  cache?: ToolCache;
+  trace?: Tracer;
+  retry?: RetryOptions;
+  spend?: SpendTracker;
+  spendScope?: SpendScope;
+  chartFormat?: ChartFormat;
+  /** Collects the data tables written for charts that could not be rendered */
+  chartFallbacks?: ChartFallback[];
+  guardrails?: ToolGuardrails;
+  /** Collects the guardrail violations of a step */
+  guardrailViolations?: GuardrailViolation[];
+  generation?: GenerationSettings;
+  prompts?: PromptSet;
+  /** Playbooks the steps are built from (default: the built-in playbooks) */
+  playbooks?: ServicePlaybook[];
+  /** Default params per tool of the step's playbook */
+  toolPresets?: ServicePlaybook['toolPresets'];
+}
+
+export interface ChartFallback {
+  toolName: string;
+  problems: string[];
+  table: string;
+  tablePath: string;
+  datapointsPath?: string;
 }
 
 export interface LLMAnalysisRequest {
@@ -58,6 +402,36 @@ export interface ChartAnalysisResult {
   recommendations: string[];
 }
 
+export type FindingEffort = 'low' | 'medium' | 'high';
+
+export interface FindingMetric {
+  name: string;
+  value: number;
+  unit?: string;
+}
+
+export interface FindingRecommendation {
+  title: string;
+  description: string;
+  severity: RecommendationSeverity;
+  effort: FindingEffort;
+  estimatedMonthlySavings?: number;
+}
+
+/**
+ * Typed findings of an analysis step, saved as JSON next to its markdown analysis.
+ * `analysis` is a short summary of the step's markdown report.
+ */
+export interface StepFindings extends Omit<ChartAnalysisResult, 'recommendations'> {
+  version: number;
+  step: AnalysisStep;
+  status: 'completed' | 'failed';
+  generatedAt: string;
+  keyMetrics: FindingMetric[];
+  recommendations: FindingRecommendation[];
+  error?: string;
+}
+
 export interface PlanningRequest {
   serviceRegionCombos: ServiceRegionCombo[];
   availableTools: string[];
@@ -65,4 +439,372 @@ export interface PlanningRequest {
 
 export interface PlanningResponse {
   steps: AnalysisStep[];
-} 
\ No newline at end of file
+} 
+
+export interface PlanFile extends PlanningResponse {
+  version?: number;
+  createdAt?: string;
+  costWindow?: CostWindowOptions;
+  serviceRegionCombos?: ServiceRegionCombo[];
+}
+
+export type ExecutionStatus = 'running' | 'completed' | 'stopped' | 'failed';
+
+export type StepStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface ManifestStep {
+  index: number;
+  step: AnalysisStep;
+  status: StepStatus;
+  attempts: number;
+  startedAt?: string;
+  completedAt?: string;
+  reportPath?: string;
+  error?: string;
+}
+
+export interface ExecutionManifest {
+  executionId: string;
+  status: ExecutionStatus;
+  createdAt: string;
+  updatedAt: string;
+  config: {
+    topN: number;
+    costWindow?: CostWindowOptions;
+    model?: Omit<ModelConfig, 'apiKey'>;
+    record?: boolean;
+    replayExecutionId?: string;
+    replayFallback?: boolean;
+    rulesDir?: string;
+    playbooksDir?: string;
+    concurrency?: number;
+    chartFormat?: ChartFormat;
+    prompts?: PromptVersions;
+  };
+  serviceRegionCombos?: ServiceRegionCombo[];
+  plan?: PlanningResponse;
+  steps: ManifestStep[];
+  /** Accounts of a multi-account execution, each with its own manifest under `accounts/<account>/` */
+  accounts?: string[];
+  reportPath?: string;
+  error?: string;
+}
+
+export interface TimeSeries {
+  name: string;
+  points: { time: string; value: number }[];
+}
+
+export interface DataFile {
+  filePath: string;
+  account?: string;
+  serviceRegion: string;
+  tool: string;
+}
+
+export type AnomalyType = 'spike' | 'drop' | 'level-shift';
+
+export type AnomalySeverity = 'low' | 'medium' | 'high';
+
+export interface AnomalyDetectionOptions {
+  windowSize: number;
+  minHistory: number;
+  zThreshold: number;
+  levelShiftThreshold: number;
+  minRelativeChange: number;
+  seasonalPeriod: number;
+}
+
+export interface Anomaly {
+  id: string;
+  type: AnomalyType;
+  severity: AnomalySeverity;
+  method: string;
+  source: {
+    file: string;
+    account?: string;
+    serviceRegion: string;
+    tool: string;
+  };
+  series: string;
+  timestamp: string;
+  value: number;
+  baseline: number;
+  score: number;
+  changePercent?: number;
+}
+
+export interface AnomalyReport {
+  generatedAt: string;
+  options: AnomalyDetectionOptions;
+  filesScanned: number;
+  seriesScanned: number;
+  anomalies: Anomaly[];
+}
+
+export type RecommendationSeverity = 'low' | 'medium' | 'high';
+
+export interface RuleDatapoints {
+  tool: string;
+  file: string;
+  series: TimeSeries[];
+}
+
+export interface RuleContext {
+  combo: ServiceRegionCombo;
+  combos: ServiceRegionCombo[];
+  datapoints: RuleDatapoints[];
+  monthlyCost: number;
+}
+
+export interface RuleFinding {
+  summary: string;
+  estimatedMonthlySavings: number;
+  severity?: RecommendationSeverity;
+  evidence?: string[];
+}
+
+export interface RecommendationRule {
+  id: string;
+  title: string;
+  description: string;
+  services?: string[];
+  evaluate(context: RuleContext): RuleFinding | RuleFinding[] | undefined | Promise<RuleFinding | RuleFinding[] | undefined>;
+}
+
+export interface Recommendation {
+  ruleId: string;
+  title: string;
+  service: string;
+  region: string;
+  account?: string;
+  severity: RecommendationSeverity;
+  estimatedMonthlySavings: number;
+  summary: string;
+  evidence: string[];
+  datapoints: string[];
+}
+
+export interface RecommendationReport {
+  generatedAt: string;
+  rules: string[];
+  totalEstimatedMonthlySavings: number;
+  recommendations: Recommendation[];
+}
+
+export type CostDriverChange = 'new' | 'grown' | 'shrunk' | 'disappeared' | 'unchanged';
+
+export interface CostDriverDelta {
+  change: CostDriverChange;
+  service: string;
+  region: string;
+  account?: string;
+  costA?: number;
+  costB?: number;
+  delta: number;
+  deltaPercent?: number;
+  currency: string;
+}
+
+export interface StepDelta {
+  change: 'added' | 'removed' | 'changed';
+  service: string;
+  region: string;
+  account?: string;
+  titleA?: string;
+  titleB?: string;
+  toolsAdded: string[];
+  toolsRemoved: string[];
+}
+
+export interface RecommendationDelta {
+  change: 'new' | 'resolved' | 'changed';
+  ruleId: string;
+  service: string;
+  region: string;
+  account?: string;
+  savingsA?: number;
+  savingsB?: number;
+  summary: string;
+}
+
+export interface ExecutionSnapshot {
+  executionId: string;
+  createdAt?: string;
+  costWindow?: CostWindowOptions;
+  topN?: number;
+  serviceRegionCombos: ServiceRegionCombo[];
+  steps: (AnalysisStep & { account?: string })[];
+  recommendations?: RecommendationReport;
+}
+
+export interface ExecutionDiff {
+  generatedAt: string;
+  executionA: Omit<ExecutionSnapshot, 'serviceRegionCombos' | 'steps' | 'recommendations'>;
+  executionB: Omit<ExecutionSnapshot, 'serviceRegionCombos' | 'steps' | 'recommendations'>;
+  minChangePercent: number;
+  totals: { costA: number; costB: number; delta: number; deltaPercent?: number };
+  costDrivers: CostDriverDelta[];
+  steps: StepDelta[];
+  recommendations?: RecommendationDelta[];
+}
+
+export interface ParamConstraint {
+  min?: number;
+  max?: number;
+  enum?: (string | number | boolean)[];
+}
+
+export interface ToolGuardrails {
+  /** Maximum calls of each tool within a step */
+  maxCallsPerTool?: number;
+  /** Maximum tool calls within a step */
+  maxCallsPerStep?: number;
+  /** Serve identical calls with identical params within a step from the first call's result */
+  dedupe?: boolean;
+  /** Only these aws-tools may be called */
+  allow?: string[];
+  /** These aws-tools may not be called */
+  deny?: string[];
+  /** Constraints keyed by param name, applying to every tool, or by `<tool>.<param>` */
+  paramConstraints?: Record<string, ParamConstraint>;
+}
+
+export type GuardrailRule = 'denied' | 'param-constraint' | 'duplicate' | 'max-calls-per-step' | 'max-calls-per-tool';
+
+export interface GuardrailViolation {
+  rule: GuardrailRule;
+  toolName: string;
+  params: unknown;
+  message: string;
+}
+
+export interface CostThreshold {
+  /** Maximum cost in USD over the cost window */
+  maxCost?: number;
+  /** Maximum cost growth in percent versus the previous equivalent window */
+  maxGrowthPercent?: number;
+}
+
+export interface ComboThreshold extends CostThreshold {
+  service: string;
+  region: string;
+}
+
+export interface Thresholds {
+  total?: CostThreshold;
+  /** Keyed by service name as reported by Cost Explorer, summed over all regions */
+  services?: Record<string, CostThreshold>;
+  /** Keyed by region, summed over all services */
+  regions?: Record<string, CostThreshold>;
+  combos?: ComboThreshold[];
+}
+
+export type ThresholdScope = 'total' | 'service' | 'region' | 'combo';
+
+export interface ThresholdCheck {
+  scope: ThresholdScope;
+  name: string;
+  limit: keyof CostThreshold;
+  threshold: number;
+  cost: number;
+  previousCost?: number;
+  /** Value compared with the threshold, absent when growth cannot be computed */
+  actual?: number;
+  /** Skipped: a growth limit without spend in the previous window */
+  status: 'passed' | 'failed' | 'skipped';
+  message: string;
+}
+
+export type CheckResultFormat = 'junit' | 'json';
+
+export interface CheckReport {
+  generatedAt: string;
+  costWindow: CostWindowOptions;
+  totalCost: number;
+  previousTotalCost: number;
+  checks: ThresholdCheck[];
+  failures: number;
+}
+
+export type WebhookType = 'slack' | 'teams' | 'json';
+
+export interface WebhookConfig {
+  /** Name shown in logs instead of the URL, which usually carries a secret */
+  name?: string;
+  type: WebhookType;
+  url: string;
+  headers?: Record<string, string>;
+  /** Payload template replacing the built-in payload of the type; `{{field}}` placeholders are filled from the summary */
+  template?: unknown;
+  /** JSON file with the payload template, relative to the webhooks file */
+  templateFile?: string;
+}
+
+export interface NotificationConfig {
+  webhooks: WebhookConfig[];
+  /** Base URL the execution directories are published under, for a link to `report.md` */
+  reportBaseUrl?: string;
+  /** Number of top service-region combinations in the summary */
+  topCombos?: number;
+}
+
+export interface NotificationSummary {
+  executionId: string;
+  status: ExecutionStatus;
+  createdAt?: string;
+  costWindow?: CostWindowOptions;
+  accounts?: string[];
+  /** Cost of the analysed (top-N) service-region combinations, not of the whole account */
+  analysedCost: number;
+  currency: string;
+  topCombos: ServiceRegionCombo[];
+  stepCount: number;
+  failedSteps: { title: string; service: string; region: string; account?: string; error?: string }[];
+  reportPath: string;
+  reportUrl?: string;
+}
+
+export interface NotificationResult {
+  webhook: string;
+  type: WebhookType;
+  ok: boolean;
+  attempts: number;
+  status?: number;
+  error?: string;
+}
+
+/**
+ * Settings of the configuration file, mirroring the CLI options they provide defaults for
+ */
+export interface ProjectConfig {
+  outputDir?: string;
+  /** Report path of analyze and execute-plan */
+  output?: string;
+  topN?: number;
+  concurrency?: number;
+  maxAttempts?: number;
+  charts?: boolean;
+  chartFormat?: ChartFormat;
+  rulesDir?: string;
+  costWindow?: { granularity?: CostGranularity; rankBy?: CostRankBy };
+  model?: { provider?: LLMProviderName; modelId?: string; region?: string; baseURL?: string };
+  generation?: GenerationSettings;
+  prompts?: { pack?: string; directory?: string };
+  playbooks?: boolean;
+  playbooksDir?: string;
+  spend?: { maxLlmCost?: number; maxApiCalls?: number; inputPrice?: number; outputPrice?: number };
+  guardrails?: { file?: string; maxCallsPerTool?: number; maxCallsPerStep?: number; dedupe?: boolean; allow?: string[]; deny?: string[] };
+  cache?: { enabled?: boolean; ttl?: string; directory?: string };
+  notifications?: { webhooks?: string; reportBaseUrl?: string };
+}
+
+/** Configuration layers in increasing precedence; command-line flags override them all */
+export type ConfigSource = 'defaults' | 'user' | 'project' | 'env';
+
+export interface ConfigLayer {
+  source: ConfigSource;
+  /** File or environment variables the layer was read from */
+  origin?: string;
+  config: ProjectConfig;
+}